@@ -0,0 +1,42 @@
+import { notFound } from 'next/navigation';
+import { isValidLocale } from '@/i18n';
+import type { Locale } from '@/i18n';
+import { AuthLayout } from '@/components/auth/auth-layout';
+import { OAuthCallback } from '@/components/auth/oauth-callback';
+import type { OAuthProvider } from '@/lib/types/api/auth.types';
+
+const OAUTH_PROVIDERS: readonly OAuthProvider[] = ['google', 'github'];
+
+interface OAuthCallbackPageProps {
+  params: Promise<{
+    locale: string;
+    provider: string;
+  }>;
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+function getParam(value: string | string[] | undefined): string {
+  return typeof value === 'string' ? value : '';
+}
+
+export default async function OAuthCallbackPage({ params, searchParams }: OAuthCallbackPageProps) {
+  const { locale, provider } = await params;
+  const query = await searchParams;
+
+  // Validate locale and provider
+  if (!isValidLocale(locale) || !OAUTH_PROVIDERS.includes(provider as OAuthProvider)) {
+    notFound();
+  }
+
+  return (
+    <AuthLayout locale={locale as Locale}>
+      <OAuthCallback
+        locale={locale as Locale}
+        provider={provider as OAuthProvider}
+        code={getParam(query.code)}
+        state={getParam(query.state)}
+        providerError={getParam(query.error)}
+      />
+    </AuthLayout>
+  );
+}
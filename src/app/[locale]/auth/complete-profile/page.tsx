@@ -3,6 +3,7 @@ import { isValidLocale } from '@/i18n';
 import { notFound } from 'next/navigation';
 import { AuthLayout } from '@/components/auth';
 import { ProfileCompletionForm } from '@/components/auth/profile-completion-form';
+import { SocialProfileCompletionForm } from '@/components/auth/social-profile-completion-form';
 import type { Locale } from '@/i18n';
 
 interface PageProps {
@@ -10,8 +11,9 @@ interface PageProps {
   searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
 }
 
-export default async function CompleteProfilePage({ params }: PageProps) {
+export default async function CompleteProfilePage({ params, searchParams }: PageProps) {
   const { locale } = await params;
+  const { provider, firstName, lastName } = await searchParams;
   
   if (!isValidLocale(locale)) {
     notFound();
@@ -19,11 +21,22 @@ export default async function CompleteProfilePage({ params }: PageProps) {
 
   const validatedLocale = locale as Locale;
 
+  // Social signups have a separate flow with the provider's name pre-filled
+  const isSocialSignup = provider === 'google' || provider === 'github';
+
   return (
     <AuthLayout locale={validatedLocale}>
-      <ProfileCompletionForm 
-        locale={validatedLocale}
-      />
+      {isSocialSignup ? (
+        <SocialProfileCompletionForm
+          locale={validatedLocale}
+          firstName={typeof firstName === 'string' ? firstName : undefined}
+          lastName={typeof lastName === 'string' ? lastName : undefined}
+        />
+      ) : (
+        <ProfileCompletionForm 
+          locale={validatedLocale}
+        />
+      )}
     </AuthLayout>
   );
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { AuthLayout } from '@/components/auth/auth-layout';
+import { ForgotPasswordForm } from '@/components/auth/forgot-password-form';
+import { validateAndGetLocale, validateLocaleForMetadata } from '@/lib/locale-utils';
+import type { PageProps } from '@/lib/types';
+
+export default async function ForgotPasswordPage({ params }: PageProps) {
+  const locale = await validateAndGetLocale(params);
+
+  return (
+    <AuthLayout locale={locale}>
+      <ForgotPasswordForm locale={locale} />
+    </AuthLayout>
+  );
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const locale = await validateLocaleForMetadata(params);
+  
+  if (!locale) {
+    return {};
+  }
+
+  return {
+    title: 'Forgot Password - Itqan CMS',
+    description: 'Request a link to reset your Itqan password',
+  };
+}
@@ -0,0 +1,32 @@
+import { AuthLayout } from '@/components/auth/auth-layout';
+import { ResetPasswordForm } from '@/components/auth/reset-password-form';
+import { validateAndGetLocale, validateLocaleForMetadata } from '@/lib/locale-utils';
+import type { PageProps } from '@/lib/types';
+
+interface ResetPasswordPageProps extends PageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+export default async function ResetPasswordPage({ params, searchParams }: ResetPasswordPageProps) {
+  const locale = await validateAndGetLocale(params);
+  const { token } = await searchParams;
+
+  return (
+    <AuthLayout locale={locale}>
+      <ResetPasswordForm locale={locale} token={typeof token === 'string' ? token : ''} />
+    </AuthLayout>
+  );
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const locale = await validateLocaleForMetadata(params);
+  
+  if (!locale) {
+    return {};
+  }
+
+  return {
+    title: 'Reset Password - Itqan CMS',
+    description: 'Set a new password for your Itqan account',
+  };
+}
@@ -0,0 +1,32 @@
+import { AuthLayout } from '@/components/auth/auth-layout';
+import { VerifyEmail } from '@/components/auth/verify-email';
+import { validateAndGetLocale, validateLocaleForMetadata } from '@/lib/locale-utils';
+import type { PageProps } from '@/lib/types';
+
+interface VerifyEmailPageProps extends PageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+export default async function VerifyEmailPage({ params, searchParams }: VerifyEmailPageProps) {
+  const locale = await validateAndGetLocale(params);
+  const { token } = await searchParams;
+
+  return (
+    <AuthLayout locale={locale}>
+      <VerifyEmail locale={locale} token={typeof token === 'string' ? token : ''} />
+    </AuthLayout>
+  );
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const locale = await validateLocaleForMetadata(params);
+  
+  if (!locale) {
+    return {};
+  }
+
+  return {
+    title: 'Verify Email - Itqan CMS',
+    description: 'Verify the email address of your Itqan account',
+  };
+}
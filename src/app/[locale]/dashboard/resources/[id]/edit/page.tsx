@@ -0,0 +1,24 @@
+import { notFound } from 'next/navigation';
+import { isValidLocale } from '@/i18n';
+import type { Locale } from '@/i18n';
+import { ResourceEditor } from '@/components/dashboard/resource-editor';
+
+interface ResourceEditPageProps {
+  params: Promise<{
+    locale: string;
+    id: string;
+  }>;
+}
+
+export default async function ResourceEditPage({ params }: ResourceEditPageProps) {
+  const { locale, id } = await params;
+  
+  // Validate locale
+  if (!isValidLocale(locale)) {
+    notFound();
+  }
+  
+  const validatedLocale = locale as Locale;
+
+  return <ResourceEditor resourceId={id} locale={validatedLocale} />;
+}
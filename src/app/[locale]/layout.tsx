@@ -10,6 +10,11 @@ import { AuthProvider } from "@/components/providers/auth-provider";
 import { NextIntlProvider } from "@/components/providers/next-intl-provider";
 import { direction } from "@/lib/styles/logical";
 import { ConditionalHeader } from "@/components/layout/conditional-header";
+import { DownloadsPanel } from "@/components/downloads";
+import { NetworkInspector } from "@/components/dev";
+import { OutboxStatus } from "@/components/outbox";
+import { SessionTimeout } from "@/components/auth";
+import { isDevelopment } from "@/lib/env";
 import { getMessages } from "@/i18n";
 
 const geistSans = Geist({
@@ -86,6 +91,10 @@ export default async function RootLayout({
               <main className="pt-16">
                 {children}
               </main>
+              <DownloadsPanel />
+              <OutboxStatus />
+              <SessionTimeout />
+              {isDevelopment && <NetworkInspector />}
             </AuthProvider>
           </NextIntlProvider>
         </ThemeProvider>
@@ -1,6 +1,8 @@
 import { PublisherProfile } from '@/components/publisher';
 import { isValidLocale } from '@/i18n';
 import type { Locale } from '@/i18n';
+import { getPublisherDetails } from '@/lib/api';
+import { fetchInitialData, getServerApiContext } from '@/lib/api/server';
 import { notFound } from 'next/navigation';
 
 interface PublisherPageProps {
@@ -15,6 +17,14 @@ export default async function PublisherPage({ params }: PublisherPageProps) {
   }
   
   const validatedLocale = locale as Locale;
+  const publisherId = Number(id);
+  if (!Number.isInteger(publisherId)) {
+    notFound();
+  }
+
+  // Render the publisher on the server; the client component revalidates it
+  const { token, options } = await getServerApiContext();
+  const publisher = await fetchInitialData(() => getPublisherDetails(publisherId, token, options));
 
-  return <PublisherProfile publisherId={id} locale={validatedLocale} />;
+  return <PublisherProfile publisherId={id} locale={validatedLocale} initialData={publisher} />;
 }
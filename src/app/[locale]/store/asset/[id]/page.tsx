@@ -1,6 +1,8 @@
 import { AssetDetails } from '@/components/store';
 import { isValidLocale } from '@/i18n';
 import type { Locale } from '@/i18n';
+import { getAssetDetails } from '@/lib/api';
+import { fetchInitialData, getServerApiContext } from '@/lib/api/server';
 import { notFound } from 'next/navigation';
 
 interface AssetPageProps {
@@ -15,6 +17,14 @@ export default async function AssetPage({ params }: AssetPageProps) {
   }
   
   const validatedLocale = locale as Locale;
+  const assetId = Number(id);
+  if (!Number.isInteger(assetId)) {
+    notFound();
+  }
+
+  // Render the asset on the server; the client component revalidates it
+  const { token, options } = await getServerApiContext();
+  const asset = await fetchInitialData(() => getAssetDetails(assetId, token, options));
 
-  return <AssetDetails assetId={id} locale={validatedLocale} />;
+  return <AssetDetails assetId={id} locale={validatedLocale} initialData={asset} />;
 }
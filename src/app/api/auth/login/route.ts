@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { loginUser } from '@/lib/api/services';
+import { getServerApiContext } from '@/lib/api/server';
+import { errorResponse, readJsonBody, rejectCrossOrigin, sessionResponse } from '@/lib/auth-session';
+import type { LoginSchema } from '@/lib/types/api/auth.types';
+
+/**
+ * Logs in with email and password and starts a cookie session
+ */
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+
+  const body = await readJsonBody<LoginSchema>(request);
+  const { options } = await getServerApiContext();
+
+  try {
+    const tokens = await loginUser({ email: body.email ?? '', password: body.password ?? '' }, options);
+    return sessionResponse(tokens);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { logoutUser } from '@/lib/api/services';
+import { getServerApiContext } from '@/lib/api/server';
+import { clearSessionCookies, getSessionTokens, rejectCrossOrigin } from '@/lib/auth-session';
+import type { OkSchema } from '@/lib/types/api/common.types';
+
+/**
+ * Invalidates the refresh token on the backend and clears the session cookies
+ */
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+
+  const { access, refresh } = getSessionTokens(request);
+  if (access) {
+    const { options } = await getServerApiContext();
+    // Never throws - the cookies are cleared either way
+    await logoutUser(access, refresh, options);
+  }
+
+  return clearSessionCookies(NextResponse.json<OkSchema>({ message: 'Logged out' }));
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { completeOAuth } from '@/lib/api/services';
+import { getServerApiContext } from '@/lib/api/server';
+import { errorResponse, readJsonBody, rejectCrossOrigin, sessionResponse } from '@/lib/auth-session';
+import type { OAuth2CallbackIn, OAuthProvider } from '@/lib/types/api/auth.types';
+import type { ApiErrorResponse } from '@/lib/types/api/common.types';
+
+const OAUTH_PROVIDERS: readonly OAuthProvider[] = ['google', 'github'];
+
+interface RouteContext {
+  params: Promise<{ provider: string }>;
+}
+
+/**
+ * Exchanges the code from a social sign-in callback and starts a cookie session
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+
+  const { provider } = await params;
+  if (!OAUTH_PROVIDERS.includes(provider as OAuthProvider)) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error_name: 'NOT_FOUND', message: `Unknown sign-in provider: ${provider}` },
+      { status: 404 }
+    );
+  }
+
+  const body = await readJsonBody<OAuth2CallbackIn>(request);
+  const { options } = await getServerApiContext();
+
+  try {
+    const tokens = await completeOAuth(
+      provider as OAuthProvider,
+      { code: body.code ?? '', state: body.state ?? '' },
+      options
+    );
+    return sessionResponse(tokens);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,36 @@
+import type { NextRequest } from 'next/server';
+import { ApiAuthError } from '@/lib/api/client';
+import { refreshToken } from '@/lib/api/services';
+import { getServerApiContext } from '@/lib/api/server';
+import {
+  errorResponse,
+  getSessionTokens,
+  rejectCrossOrigin,
+  sessionResponse,
+  unauthorizedResponse,
+} from '@/lib/auth-session';
+import { getLocalizedError } from '@/lib/error-messages';
+
+/**
+ * Exchanges the refresh token cookie for a new access token
+ */
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+
+  const { locale, options } = await getServerApiContext();
+  const { refresh } = getSessionTokens(request);
+  if (!refresh) {
+    return unauthorizedResponse(getLocalizedError('errors.sessionExpired', locale));
+  }
+
+  try {
+    return sessionResponse(await refreshToken(refresh, options));
+  } catch (error) {
+    // The refresh token was rejected - the session is over
+    if (error instanceof ApiAuthError) {
+      return unauthorizedResponse(error.message);
+    }
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { registerUser } from '@/lib/api/services';
+import { getServerApiContext } from '@/lib/api/server';
+import { errorResponse, readJsonBody, rejectCrossOrigin, sessionResponse } from '@/lib/auth-session';
+import type { RegisterSchema } from '@/lib/types/api/auth.types';
+
+/**
+ * Registers a new account and starts a cookie session
+ */
+export async function POST(request: NextRequest) {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+
+  const body = await readJsonBody<RegisterSchema>(request);
+  const { options } = await getServerApiContext();
+
+  try {
+    const tokens = await registerUser({ ...body, email: body.email ?? '', password: body.password ?? '' }, options);
+    return sessionResponse(tokens);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
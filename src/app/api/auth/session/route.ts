@@ -0,0 +1,47 @@
+import type { NextRequest } from 'next/server';
+import { ApiAuthError } from '@/lib/api/client';
+import { refreshToken } from '@/lib/api/services';
+import { getServerApiContext } from '@/lib/api/server';
+import {
+  errorResponse,
+  getSessionTokens,
+  isTokenFresh,
+  sessionResponse,
+  unauthorizedResponse,
+} from '@/lib/auth-session';
+import { getLocalizedError } from '@/lib/error-messages';
+
+/**
+ * Returns the current cookie session
+ *
+ * Called by the browser on page load to restore the session, since it only
+ * keeps the session in memory. An expired access token is refreshed first.
+ *
+ * The response carries the access token's claims without its signature, never
+ * the token itself: a script injected into the page could fetch this route,
+ * so anything it returns must be useless outside the app. The tradeoff is
+ * that the browser cannot call the backend with it; authenticated calls go
+ * through the `/api/backend` proxy, which adds the token from the cookie and
+ * costs an extra hop through the Next.js server. Public calls still go to the
+ * backend directly.
+ */
+export async function GET(request: NextRequest) {
+  const { locale, options } = await getServerApiContext();
+  const { access, refresh } = getSessionTokens(request);
+
+  if (access && isTokenFresh(access)) {
+    return sessionResponse({ access });
+  }
+  if (!refresh) {
+    return unauthorizedResponse(getLocalizedError('errors.sessionExpired', locale));
+  }
+
+  try {
+    return sessionResponse(await refreshToken(refresh, options));
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return unauthorizedResponse(error.message);
+    }
+    return errorResponse(error);
+  }
+}
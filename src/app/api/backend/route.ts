@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { API_BASE_URL, SESSION_PROXY_PARAM } from '@/lib/api/client';
+import { getServerApiContext } from '@/lib/api/server';
+import { errorResponse, getSessionTokens, rejectCrossOrigin } from '@/lib/auth-session';
+import { getLocalizedError } from '@/lib/error-messages';
+import type { ApiErrorResponse } from '@/lib/types/api/common.types';
+
+/**
+ * Request headers not forwarded to the backend
+ */
+const DROPPED_REQUEST_HEADERS = [
+  'accept-encoding',
+  'authorization',
+  'connection',
+  'content-length',
+  'cookie',
+  'host',
+  'origin',
+  'referer',
+];
+
+/**
+ * Response headers not passed back to the browser (the body is already decoded)
+ */
+const DROPPED_RESPONSE_HEADERS = ['connection', 'content-encoding', 'content-length', 'set-cookie', 'transfer-encoding'];
+
+/**
+ * Forwards an authenticated call from the browser to the backend
+ *
+ * The browser only holds the access token's claims without its signature
+ * (see `@/lib/auth-session`), so its authenticated calls come here and this
+ * handler adds the real token from the `auth_token` cookie. A missing cookie
+ * (e.g. an expired access token) is answered with 401, which makes the
+ * browser refresh the session and replay the call.
+ */
+async function proxy(request: NextRequest): Promise<Response> {
+  const rejected = rejectCrossOrigin(request);
+  if (rejected) return rejected;
+
+  const backendPath = request.nextUrl.searchParams.get(SESSION_PROXY_PARAM) ?? '';
+  const target = `${API_BASE_URL}${backendPath}`;
+  if (!backendPath.startsWith('/') || new URL(target).origin !== new URL(API_BASE_URL).origin) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error_name: 'BAD_REQUEST', message: 'Invalid backend path' },
+      { status: 400 }
+    );
+  }
+
+  const { access } = getSessionTokens(request);
+  if (!access) {
+    const { locale } = await getServerApiContext();
+    return NextResponse.json<ApiErrorResponse>(
+      { error_name: 'AUTHENTICATION_ERROR', message: getLocalizedError('errors.sessionExpired', locale) },
+      { status: 401 }
+    );
+  }
+
+  const headers = new Headers(request.headers);
+  DROPPED_REQUEST_HEADERS.forEach(name => headers.delete(name));
+  headers.set('Authorization', `Bearer ${access}`);
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  let response: Response;
+  try {
+    response = await fetch(target, {
+      method: request.method,
+      headers,
+      body: hasBody ? request.body : undefined,
+      // Streams the body instead of buffering it (required by Node's fetch for stream bodies)
+      duplex: 'half',
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: request.signal,
+    } as RequestInit & { duplex: 'half' });
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const responseHeaders = new Headers(response.headers);
+  DROPPED_RESPONSE_HEADERS.forEach(name => responseHeaders.delete(name));
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+  });
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
@@ -0,0 +1,31 @@
+"use client";
+
+import { MailWarning } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+import { useAuth } from '@/components/providers/auth-provider';
+import { isEmailVerified } from '@/lib/auth';
+import { ResendVerificationButton } from './resend-verification-button';
+
+/**
+ * Asks signed-in users with an unverified email to verify it
+ *
+ * Requesting access and downloading stay unavailable until they do.
+ */
+export function EmailVerificationBanner() {
+  const t = useTranslations('emailVerification');
+  const { user } = useAuth();
+
+  if (!user || isEmailVerified(user)) {
+    return null;
+  }
+
+  return (
+    <div className="w-full border-b border-amber-200 bg-amber-50 text-amber-900" role="region" aria-label={t('bannerLabel')}>
+      <div className="max-width-container flex flex-wrap items-center justify-center gap-x-3 gap-y-1 px-4 py-2 text-sm">
+        <MailWarning className="h-4 w-4 shrink-0" />
+        <span>{t('bannerMessage', { email: user.email })}</span>
+        <ResendVerificationButton />
+      </div>
+    </div>
+  );
+}
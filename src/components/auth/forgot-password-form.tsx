@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { FormField } from '@/components/ui/form-field';
+import { SubmitButton } from '@/components/ui/submit-button';
+import { FormError } from '@/components/ui/form-error';
+import { useForm } from '@/hooks/use-form';
+import type { Locale } from '@/i18n';
+import { ApiRateLimitError, ApiValidationError, requestPasswordReset } from '@/lib/api';
+import { validateForgotPasswordForm } from '@/lib/utils';
+
+interface ForgotPasswordFormProps {
+  locale: Locale;
+}
+
+/**
+ * Requests a password reset link by email
+ *
+ * Shows the same confirmation whether or not the email is registered, as
+ * the backend does not reveal it either.
+ */
+export function ForgotPasswordForm({ locale }: ForgotPasswordFormProps) {
+  const t = useTranslations();
+  const [sentTo, setSentTo] = useState('');
+
+  const {
+    formData,
+    errors,
+    isLoading,
+    submitError,
+    handleInputChange,
+    handleSubmit
+  } = useForm({
+    initialData: {
+      email: ''
+    },
+    validate: validateForgotPasswordForm,
+    onSubmit: async (data) => {
+      try {
+        await requestPasswordReset({ email: data.email.trim() });
+        return { success: true };
+      } catch (error) {
+        console.error('Password reset request error:', error);
+
+        if (error instanceof ApiRateLimitError) {
+          return {
+            success: false,
+            error: error.retryAfter
+              ? t('passwordReset.tooManyRequestsRetry', { minutes: Math.ceil(error.retryAfter / 60) })
+              : t('errors.tooManyRequests')
+          };
+        }
+        if (error instanceof ApiValidationError && error.fieldErrors.email) {
+          return { success: false, error: error.fieldErrors.email };
+        }
+        return { success: false, error: error instanceof Error ? error.message : t('errors.networkError') };
+      }
+    },
+    onSuccess: () => {
+      setSentTo(formData.email.trim());
+    }
+  });
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center space-y-3">
+        <h1 className="text-[32px] font-bold text-[#333333]">
+          {t('passwordReset.forgotTitle')}
+        </h1>
+        <p className="text-[18px] text-[#333333]">
+          {sentTo ? t('passwordReset.linkSent', { email: sentTo }) : t('passwordReset.forgotSubtitle')}
+        </p>
+      </div>
+
+      {!sentTo && (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <FormError message={submitError} />
+
+          <FormField
+            id="email"
+            name="email"
+            type="email"
+            label={t('auth.email')}
+            value={formData.email}
+            onChange={handleInputChange('email')}
+            error={errors.email}
+            placeholder={t('forms.placeholders.email')}
+            required
+          />
+
+          <SubmitButton
+            isLoading={isLoading}
+            loadingText={t('common.loading')}
+            className="w-full"
+            size="lg"
+          >
+            {t('passwordReset.sendLink')}
+          </SubmitButton>
+        </form>
+      )}
+
+      <div className="text-center">
+        <Link
+          href={`/${locale}/auth/login`}
+          className="text-primary hover:underline font-medium text-sm"
+        >
+          {t('auth.backToLogin')}
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,15 @@ export { AuthLayout } from './auth-layout';
 export { LoginForm } from './login-form';
 export { SignupForm } from './signup-form';
 export { ProfileCompletionForm } from './profile-completion-form';
+export { SocialProfileCompletionForm } from './social-profile-completion-form';
+export { SocialLoginButtons } from './social-login-buttons';
+export { OAuthCallback } from './oauth-callback';
+export { ForgotPasswordForm } from './forgot-password-form';
+export { ResetPasswordForm } from './reset-password-form';
+export { SessionTimeout } from './session-timeout';
+export { VerifyEmail } from './verify-email';
+export { ResendVerificationButton } from './resend-verification-button';
+export { EmailVerificationBanner } from './email-verification-banner';
 
 // Auth providers
 export { AuthProvider, useAuth } from '../providers/auth-provider';
@@ -1,15 +1,19 @@
 "use client";
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { FormField } from '@/components/ui/form-field';
 import { SubmitButton } from '@/components/ui/submit-button';
 import { FormError } from '@/components/ui/form-error';
 import { useAuth } from '@/components/providers/auth-provider';
+import { SocialLoginButtons } from './social-login-buttons';
 import { useForm } from '@/hooks/use-form';
 import type { Locale } from '@/i18n';
 import { validateLoginForm } from '@/lib/utils';
 import { loginUser } from '@/lib/auth';
+import { SESSION_END_PARAM } from '@/lib/route-protection';
+import type { SessionEndReason } from '@/lib/route-protection';
 import { useTranslations } from 'next-intl';
 
 interface LoginFormProps {
@@ -19,6 +23,15 @@ interface LoginFormProps {
 export function LoginForm({ locale }: LoginFormProps) {
   const t = useTranslations();
   const { login } = useAuth();
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason | null>(null);
+
+  // Explain why the user has to sign in again after an expired or idle session
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get(SESSION_END_PARAM);
+    if (reason === 'expired' || reason === 'idle') {
+      setSessionEndReason(reason);
+    }
+  }, []);
 
   const {
     formData,
@@ -67,8 +80,17 @@ export function LoginForm({ locale }: LoginFormProps) {
         </p>
       </div>
 
+      {/* Social Login Buttons */}
+      <SocialLoginButtons locale={locale} />
+
       {/* Email/Password Form */}
       <form onSubmit={handleSubmit} className="space-y-6">
+        {sessionEndReason && (
+          <div className="p-3 rounded-md border bg-muted text-sm text-center" role="status">
+            {t(`sessionTimeout.${sessionEndReason}Notice`)}
+          </div>
+        )}
+
         {/* Show submit error */}
         <FormError message={submitError} />
 
@@ -96,6 +118,15 @@ export function LoginForm({ locale }: LoginFormProps) {
           required
         />
 
+        <div className="text-end">
+          <Link
+            href={`/${locale}/auth/forgot-password`}
+            className="text-primary hover:underline text-sm"
+          >
+            {t('passwordReset.forgotLink')}
+          </Link>
+        </div>
+
         <SubmitButton
           isLoading={isLoading}
           loadingText={t('common.loading')}
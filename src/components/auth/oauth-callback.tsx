@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { FormError } from '@/components/ui/form-error';
+import { useAuth } from '@/components/providers/auth-provider';
+import type { Locale } from '@/i18n';
+import { completeReauthentication, completeSocialLogin, isReauthenticationPending } from '@/lib/auth';
+import { sanitizeReturnTo } from '@/lib/route-protection';
+import type { OAuthProvider } from '@/lib/types/api/auth.types';
+
+interface OAuthCallbackProps {
+  locale: Locale;
+  provider: OAuthProvider;
+  /** Authorization code from the callback URL */
+  code: string;
+  /** State from the callback URL */
+  state: string;
+  /** Error reported by the provider, e.g. when the user denied access */
+  providerError: string;
+}
+
+/**
+ * Finishes a social sign-in on the provider's redirect back to the app
+ *
+ * Signs the user in on success; `login` then routes first-time users to
+ * profile completion. A signed-in user confirming their identity for a
+ * security change (see `startReauthentication`) is sent back instead.
+ */
+export function OAuthCallback({ locale, provider, code, state, providerError }: OAuthCallbackProps) {
+  const t = useTranslations();
+  const router = useRouter();
+  const { login, isLoading } = useAuth();
+  const [error, setError] = useState('');
+  const [isReauthentication, setIsReauthentication] = useState(false);
+  const started = useRef(false);
+
+  useEffect(() => {
+    // The stored state is single-use, so never run the exchange twice.
+    // A re-authentication needs the restored session, so wait for it.
+    if (started.current || isLoading) return;
+    started.current = true;
+
+    const reauthenticating = isReauthenticationPending();
+    setIsReauthentication(reauthenticating);
+
+    if (providerError || !code) {
+      setError(t('auth.oauthCancelled'));
+      return;
+    }
+
+    if (reauthenticating) {
+      completeReauthentication(provider, { code, state }).then(response => {
+        if (response.success) {
+          router.replace(sanitizeReturnTo(response.returnTo) ?? `/${locale}/dashboard`);
+        } else {
+          setError(response.error || t('errors.authenticationFailed'));
+        }
+      });
+      return;
+    }
+
+    completeSocialLogin(provider, { code, state }).then(response => {
+      if (response.success && response.user && response.token) {
+        login(response.user, response.token, response.returnTo);
+      } else {
+        setError(response.error || t('errors.authenticationFailed'));
+      }
+    });
+  }, [provider, code, state, providerError, isLoading, login, router, locale, t]);
+
+  return (
+    <div className="space-y-6 text-center">
+      {error ? (
+        <>
+          <FormError message={error} />
+          <Link
+            href={isReauthentication ? `/${locale}/dashboard` : `/${locale}/auth/login`}
+            className="text-primary hover:underline font-medium text-sm"
+          >
+            {isReauthentication ? t('accountSecurity.backToDashboard') : t('auth.backToLogin')}
+          </Link>
+        </>
+      ) : (
+        <div className="space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          <p className="text-muted-foreground text-sm">
+            {isReauthentication ? t('accountSecurity.confirmingWithProvider') : t('auth.completingSignIn')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
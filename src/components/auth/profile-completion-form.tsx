@@ -41,10 +41,9 @@ export function ProfileCompletionForm({ locale }: ProfileCompletionFormProps) {
       return response;
     },
     onSuccess: (result) => {
-      if (result.user && result.token) {
-        login(result.user, result.token);
-        // Redirect to store page after successful completion
-        router.push(`/${locale}/store`);
+      if (result.user) {
+        // Redirects to the page that required signing in, or the store
+        login(result.user, result.token ?? null);
       }
     }
   });
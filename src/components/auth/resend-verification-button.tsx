@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { ApiRateLimitError, resendVerificationEmail } from '@/lib/api';
+import { tokenStorage } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+
+interface ResendVerificationButtonProps {
+  className?: string;
+}
+
+/**
+ * Sends the signed-in user a new email verification link
+ */
+export function ResendVerificationButton({ className }: ResendVerificationButtonProps) {
+  const t = useTranslations();
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [error, setError] = useState('');
+
+  const handleResend = async () => {
+    const token = tokenStorage.getToken();
+    if (!token) {
+      setError(t('ui.unauthorized'));
+      return;
+    }
+
+    setStatus('sending');
+    setError('');
+    try {
+      await resendVerificationEmail(token);
+      setStatus('sent');
+    } catch (err) {
+      console.error('Resend verification error:', err);
+      setStatus('idle');
+
+      if (err instanceof ApiRateLimitError) {
+        setError(err.retryAfter
+          ? t('emailVerification.tooManyRequestsRetry', { minutes: Math.ceil(err.retryAfter / 60) })
+          : t('errors.tooManyRequests'));
+      } else {
+        setError(err instanceof Error ? err.message : t('errors.networkError'));
+      }
+    }
+  };
+
+  if (status === 'sent') {
+    return (
+      <span className={cn("text-sm font-medium", className)} role="status">
+        {t('emailVerification.sent')}
+      </span>
+    );
+  }
+
+  return (
+    <span className={cn("inline-flex flex-wrap items-center gap-x-2", className)}>
+      <Button
+        type="button"
+        variant="link"
+        size="sm"
+        className="h-auto p-0"
+        onClick={handleResend}
+        disabled={status === 'sending'}
+      >
+        {status === 'sending' ? t('emailVerification.sending') : t('emailVerification.resend')}
+      </Button>
+      {error && (
+        <span className="text-sm text-destructive" role="alert">
+          {error}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { FormField } from '@/components/ui/form-field';
+import { SubmitButton } from '@/components/ui/submit-button';
+import { FormError } from '@/components/ui/form-error';
+import { useForm } from '@/hooks/use-form';
+import type { Locale } from '@/i18n';
+import { ApiRateLimitError, ApiValidationError, confirmPasswordReset } from '@/lib/api';
+import { validateResetPasswordForm } from '@/lib/utils';
+
+interface ResetPasswordFormProps {
+  locale: Locale;
+  /** Token from the password reset link */
+  token: string;
+}
+
+/**
+ * Sets a new password with the token from a reset link
+ *
+ * Expired, used or malformed links lead back to requesting a new one.
+ */
+export function ResetPasswordForm({ locale, token }: ResetPasswordFormProps) {
+  const t = useTranslations();
+  const [isDone, setIsDone] = useState(false);
+  const [linkError, setLinkError] = useState(token ? '' : t('passwordReset.linkInvalid'));
+
+  const {
+    formData,
+    errors,
+    isLoading,
+    submitError,
+    handleInputChange,
+    handleSubmit,
+    setFieldError
+  } = useForm<{ password: string; confirmPassword: string }, { linkError?: string }>({
+    initialData: {
+      password: '',
+      confirmPassword: ''
+    },
+    validate: validateResetPasswordForm,
+    onSubmit: async (data) => {
+      try {
+        await confirmPasswordReset({ token, password: data.password });
+        return { success: true };
+      } catch (error) {
+        console.error('Password reset error:', error);
+
+        if (error instanceof ApiValidationError) {
+          // Handled as success: the page switches to requesting a new link
+          if (error.errorName === 'RESET_TOKEN_EXPIRED') {
+            return { success: true, linkError: t('passwordReset.linkExpired') };
+          }
+          if (error.errorName === 'RESET_TOKEN_INVALID') {
+            return { success: true, linkError: t('passwordReset.linkInvalid') };
+          }
+          if (error.fieldErrors.password) {
+            setFieldError('password', error.fieldErrors.password);
+            return { success: false, error: error.fieldErrors.password };
+          }
+        }
+        if (error instanceof ApiRateLimitError) {
+          return { success: false, error: t('errors.tooManyRequests') };
+        }
+        return { success: false, error: error instanceof Error ? error.message : t('errors.networkError') };
+      }
+    },
+    onSuccess: (result) => {
+      if (result.linkError) {
+        setLinkError(result.linkError);
+      } else {
+        setIsDone(true);
+      }
+    }
+  });
+
+  if (linkError) {
+    return (
+      <div className="space-y-6 text-center">
+        <h1 className="text-[32px] font-bold text-[#333333]">
+          {t('passwordReset.resetTitle')}
+        </h1>
+        <FormError message={linkError} />
+        <Link
+          href={`/${locale}/auth/forgot-password`}
+          className="text-primary hover:underline font-medium text-sm"
+        >
+          {t('passwordReset.requestNewLink')}
+        </Link>
+      </div>
+    );
+  }
+
+  if (isDone) {
+    return (
+      <div className="space-y-6 text-center">
+        <h1 className="text-[32px] font-bold text-[#333333]">
+          {t('passwordReset.resetTitle')}
+        </h1>
+        <p className="text-[18px] text-[#333333]" role="status">
+          {t('passwordReset.resetDone')}
+        </p>
+        <Link
+          href={`/${locale}/auth/login`}
+          className="text-primary hover:underline font-medium text-sm"
+        >
+          {t('auth.login')}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center space-y-3">
+        <h1 className="text-[32px] font-bold text-[#333333]">
+          {t('passwordReset.resetTitle')}
+        </h1>
+        <p className="text-[18px] text-[#333333]">
+          {t('passwordReset.resetSubtitle')}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <FormError message={submitError} />
+
+        <FormField
+          id="password"
+          name="password"
+          type="password"
+          label={t('passwordReset.newPassword')}
+          value={formData.password}
+          onChange={handleInputChange('password')}
+          error={errors.password}
+          placeholder={t('forms.placeholders.password')}
+          required
+        />
+
+        <FormField
+          id="confirmPassword"
+          name="confirmPassword"
+          type="password"
+          label={t('passwordReset.confirmPassword')}
+          value={formData.confirmPassword}
+          onChange={handleInputChange('confirmPassword')}
+          error={errors.confirmPassword}
+          placeholder={t('forms.placeholders.password')}
+          required
+        />
+
+        <SubmitButton
+          isLoading={isLoading}
+          loadingText={t('common.loading')}
+          className="w-full"
+          size="lg"
+        >
+          {t('passwordReset.setPassword')}
+        </SubmitButton>
+      </form>
+    </div>
+  );
+}
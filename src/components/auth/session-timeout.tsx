@@ -0,0 +1,61 @@
+"use client";
+
+import { useCallback } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/components/providers/auth-provider";
+import { useIdleTimeout } from "@/hooks/use-idle-timeout";
+import { env } from "@/lib/env";
+
+const IDLE_TIMEOUT_MS = env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES * 60_000;
+const IDLE_WARNING_MS = env.NEXT_PUBLIC_IDLE_WARNING_SECONDS * 1_000;
+
+/**
+ * Signs out inactive users, warning them first
+ *
+ * Configured with `NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES` (0 disables it) and
+ * `NEXT_PUBLIC_IDLE_WARNING_SECONDS`. After signing in again the user
+ * returns to the page they were on.
+ */
+export function SessionTimeout() {
+  const t = useTranslations("sessionTimeout");
+  const { isAuthenticated, logout } = useAuth();
+
+  const handleTimeout = useCallback(() => logout("idle"), [logout]);
+
+  const { isWarning, remainingMs, reset } = useIdleTimeout({
+    enabled: isAuthenticated,
+    timeoutMs: IDLE_TIMEOUT_MS,
+    warningMs: IDLE_WARNING_MS,
+    onTimeout: handleTimeout,
+  });
+
+  return (
+    <Dialog open={isWarning} onOpenChange={open => !open && reset()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription aria-live="polite">
+            {t("message", { seconds: Math.ceil(remainingMs / 1_000) })}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => logout()}>
+            {t("signOut")}
+          </Button>
+          <Button onClick={reset} autoFocus>
+            {t("staySignedIn")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
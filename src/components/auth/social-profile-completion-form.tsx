@@ -0,0 +1,193 @@
+"use client";
+
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { FormField } from '@/components/ui/form-field';
+import { SubmitButton } from '@/components/ui/submit-button';
+import { FormError } from '@/components/ui/form-error';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/components/providers/auth-provider';
+import { useForm } from '@/hooks/use-form';
+import type { Locale } from '@/i18n';
+import { validateSocialProfileForm } from '@/lib/utils';
+import { completeUserProfile } from '@/lib/auth';
+import { useTranslations } from 'next-intl';
+
+interface SocialProfileCompletionFormProps {
+  locale: Locale;
+  /** First name from the provider, used if the signed-in user has none */
+  firstName?: string;
+  /** Last name from the provider, used if the signed-in user has none */
+  lastName?: string;
+}
+
+/**
+ * Profile completion for first-time Google and GitHub users
+ *
+ * The name comes pre-filled from the provider and can be corrected; the
+ * email is already verified by the provider and not asked for.
+ */
+export function SocialProfileCompletionForm({ locale, firstName = '', lastName = '' }: SocialProfileCompletionFormProps) {
+  const t = useTranslations();
+  const router = useRouter();
+  const { user, login } = useAuth();
+
+  const {
+    formData,
+    errors,
+    isLoading,
+    submitError,
+    handleInputChange,
+    handleSubmit
+  } = useForm({
+    initialData: {
+      firstName: user?.firstName || firstName,
+      lastName: user?.lastName || lastName,
+      projectDescription: '',
+      projectUrl: '',
+      personalInfo: ''
+    },
+    validate: validateSocialProfileForm,
+    onSubmit: async (data) => {
+      const response = await completeUserProfile({
+        firstName: data.firstName,
+        lastName: data.lastName,
+        project_summary: data.projectDescription,
+        project_url: data.projectUrl,
+        bio: data.personalInfo
+      });
+      return response;
+    },
+    onSuccess: (result) => {
+      if (result.user) {
+        // Redirects to the page that required signing in, or the store
+        login(result.user, result.token ?? null);
+      }
+    }
+  });
+
+  const handleSkip = () => {
+    // Redirect to store page if skipped
+    router.push(`/${locale}/store`);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Logo */}
+      <div className="text-center">
+        <Image
+          src="/logo.svg"
+          alt="Itqan"
+          width={50}
+          height={50}
+          className="mx-auto mb-3"
+        />
+      </div>
+
+      {/* Header */}
+      <div className="text-center space-y-3">
+        <h1 className="text-[32px] font-bold text-[#333333]">
+          {t('profile.completeProfileTitle')}
+        </h1>
+        <p className="text-[18px] text-[#333333]">
+          {t('profile.completeProfileDescription')}
+        </p>
+      </div>
+
+      {/* Profile Completion Form */}
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Show submit error */}
+        <FormError message={submitError} />
+
+        {/* Name Fields (pre-filled from the provider) */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <FormField
+            id="firstName"
+            name="firstName"
+            label={t('auth.firstName')}
+            value={formData.firstName}
+            onChange={handleInputChange('firstName')}
+            error={errors.firstName}
+            required
+          />
+
+          <FormField
+            id="lastName"
+            name="lastName"
+            label={t('auth.lastName')}
+            value={formData.lastName}
+            onChange={handleInputChange('lastName')}
+            error={errors.lastName}
+            required
+          />
+        </div>
+
+        {/* Project Information Section */}
+        <div className="space-y-6">
+          <FormField
+            id="projectDescription"
+            name="projectDescription"
+            variant="textarea"
+            label={t('profile.projectDescription')}
+            value={formData.projectDescription}
+            onChange={handleInputChange('projectDescription')}
+            error={errors.projectDescription}
+            placeholder={t('profile.businessModelPlaceholder')}
+            required
+            rows={4}
+          />
+
+          <FormField
+            id="projectUrl"
+            name="projectUrl"
+            type="url"
+            label={t('profile.projectLinkLabel')}
+            value={formData.projectUrl}
+            onChange={handleInputChange('projectUrl')}
+            error={errors.projectUrl}
+            placeholder={t('forms.placeholders.projectLink')}
+          />
+        </div>
+
+        {/* Personal Information Section */}
+        <div className="space-y-4">
+          <FormField
+            id="personalInfo"
+            name="personalInfo"
+            variant="textarea"
+            label={t('profile.personalInfo')}
+            value={formData.personalInfo}
+            onChange={handleInputChange('personalInfo')}
+            error={errors.personalInfo}
+            placeholder={t('profile.selfIntroPlaceholder')}
+            required
+            rows={5}
+          />
+        </div>
+
+        {/* Action Buttons */}
+        <div className="space-y-4">
+          <SubmitButton
+            isLoading={isLoading}
+            loadingText={t('common.loading')}
+            className="w-full bg-[#2F504B] hover:bg-[#2F504B]/90"
+            size="lg"
+          >
+            {t('profile.saveAndContinue')}
+          </SubmitButton>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="lg"
+            onClick={handleSkip}
+            disabled={isLoading}
+            className="w-full text-base bg-white hover:bg-gray-50"
+          >
+            {t('profile.doItLater')}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useTranslations } from 'next-intl';
+import { FormError } from '@/components/ui/form-error';
+import { useAuth } from '@/components/providers/auth-provider';
+import type { Locale } from '@/i18n';
+import { ApiValidationError, verifyEmail } from '@/lib/api';
+import { reloadUser } from '@/lib/auth';
+import { ResendVerificationButton } from './resend-verification-button';
+
+interface VerifyEmailProps {
+  locale: Locale;
+  /** Token from the verification link */
+  token: string;
+}
+
+/**
+ * Verifies an email address from the link sent to it
+ *
+ * Signed-in users have their stored profile refreshed, which removes the
+ * verification banner in every open tab.
+ */
+export function VerifyEmail({ locale, token }: VerifyEmailProps) {
+  const t = useTranslations();
+  const { user, updateUser } = useAuth();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState(token ? '' : t('emailVerification.linkInvalid'));
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Verify once, even if the effect runs again
+    if (started.current || !token) return;
+    started.current = true;
+
+    verifyEmail({ token })
+      .then(() => {
+        setStatus('verified');
+        reloadUser()
+          .then(updatedUser => updatedUser && updateUser(updatedUser))
+          .catch(err => console.error('Failed to refresh the profile:', err));
+      })
+      .catch(err => {
+        console.error('Email verification error:', err);
+        setStatus('failed');
+
+        if (err instanceof ApiValidationError && err.errorName === 'VERIFICATION_TOKEN_EXPIRED') {
+          setError(t('emailVerification.linkExpired'));
+        } else if (err instanceof ApiValidationError && err.errorName === 'VERIFICATION_TOKEN_INVALID') {
+          setError(t('emailVerification.linkInvalid'));
+        } else {
+          setError(err instanceof Error ? err.message : t('errors.networkError'));
+        }
+      });
+  }, [token, updateUser, t]);
+
+  if (status === 'verifying') {
+    return (
+      <div className="space-y-4 text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+        <p className="text-muted-foreground text-sm">{t('emailVerification.verifying')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 text-center">
+      <h1 className="text-[32px] font-bold text-[#333333]">
+        {t('emailVerification.title')}
+      </h1>
+
+      {status === 'verified' ? (
+        <>
+          <p className="text-[18px] text-[#333333]" role="status">
+            {t('emailVerification.verified')}
+          </p>
+          <Link
+            href={user ? `/${locale}/store` : `/${locale}/auth/login`}
+            className="text-primary hover:underline font-medium text-sm"
+          >
+            {user ? t('emailVerification.continueToStore') : t('auth.login')}
+          </Link>
+        </>
+      ) : (
+        <>
+          <FormError message={error} />
+          {user ? (
+            <ResendVerificationButton className="justify-center" />
+          ) : (
+            <Link
+              href={`/${locale}/auth/login`}
+              className="text-primary hover:underline font-medium text-sm"
+            >
+              {t('emailVerification.loginToResend')}
+            </Link>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
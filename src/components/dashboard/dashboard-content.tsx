@@ -1,13 +1,16 @@
 "use client";
 
 import Link from 'next/link';
+import { ResendVerificationButton } from '@/components/auth/resend-verification-button';
 import { useAuth } from '@/components/providers/auth-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import type { Locale } from '@/i18n';
+import { isEmailVerified } from '@/lib/auth';
 import { logical, typography } from '@/lib/styles/logical';
 import { cn } from '@/lib/utils';
 import { useTranslations } from 'next-intl';
+import { SecuritySettings } from './security-settings';
 
 interface DashboardContentProps {
   locale: Locale;
@@ -21,6 +24,8 @@ export function DashboardContent({ locale }: DashboardContentProps) {
     return null; // This shouldn't happen due to route protection
   }
 
+  const emailVerified = isEmailVerified(user);
+
   return (
     <div className={cn("min-h-screen bg-background", logical.paddingInline('4'), "py-8")}>
       <div className="max-w-4xl mx-auto space-y-6">
@@ -34,7 +39,7 @@ export function DashboardContent({ locale }: DashboardContentProps) {
               {t('dashboard.welcomeUser', { name: `${user.firstName} ${user.lastName}` })}
             </p>
           </div>
-          <Button variant="outline" onClick={logout}>
+          <Button variant="outline" onClick={() => logout()}>
             {t('auth.logout')}
           </Button>
         </div>
@@ -95,6 +100,16 @@ export function DashboardContent({ locale }: DashboardContentProps) {
                   }
                 </span>
               </div>
+              <div>
+                <strong>{t('emailVerification.statusLabel')}:</strong>{' '}
+                <span className={emailVerified ? 'text-green-600' : 'text-orange-600'}>
+                  {emailVerified
+                    ? t('emailVerification.verifiedStatus')
+                    : t('emailVerification.unverifiedStatus')
+                  }
+                </span>
+                {!emailVerified && <ResendVerificationButton className="ms-2" />}
+              </div>
               <div>
                 <strong>{t('dashboard.memberSince')}:</strong>{' '}
                 {new Date().toLocaleDateString(locale === 'ar' ? 'ar-SA' : 'en-US')}
@@ -135,6 +150,9 @@ export function DashboardContent({ locale }: DashboardContentProps) {
             </div>
           </CardContent>
         </Card>
+
+        {/* Security Settings */}
+        <SecuritySettings locale={locale} />
       </div>
     </div>
   );
@@ -0,0 +1,166 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Button } from "@/components/ui/button";
+import { FormError } from "@/components/ui/form-error";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn, mergeThreeWay } from "@/lib/utils";
+
+/**
+ * Editable resource fields compared in the dialog
+ */
+export const RESOURCE_EDIT_FIELDS = ["name", "description", "category", "status"] as const;
+
+export type ResourceEditField = (typeof RESOURCE_EDIT_FIELDS)[number];
+
+export type ResourceEditValues = Record<ResourceEditField, string>;
+
+interface ResourceConflictDialogProps {
+  /** Values the edit started from */
+  base: ResourceEditValues;
+  /** Values edited locally */
+  mine: ResourceEditValues;
+  /** Values saved by someone else in the meantime */
+  theirs: ResourceEditValues;
+  /** Whether a save is in progress */
+  isSaving: boolean;
+  /** Error from the last save attempt */
+  error?: string;
+  /** Save the given values on top of the latest version */
+  onSave: (values: ResourceEditValues) => void;
+  /** Drop the local edits and continue from the latest version */
+  onDiscard: () => void;
+  /** Close without resolving (the form keeps the local edits) */
+  onCancel: () => void;
+}
+
+/**
+ * Three-way comparison shown when a resource was changed while editing
+ *
+ * Fields changed on only one side are merged automatically. For fields
+ * changed on both sides the user picks which value to keep, then saves the
+ * merge, overwrites with their own version or discards their edits.
+ */
+export function ResourceConflictDialog({
+  base,
+  mine,
+  theirs,
+  isSaving,
+  error = "",
+  onSave,
+  onDiscard,
+  onCancel,
+}: ResourceConflictDialogProps) {
+  const t = useTranslations("resourceEditor");
+
+  const { merged, conflicts, remoteChanges } = useMemo(
+    () => mergeThreeWay(base, mine, theirs, [...RESOURCE_EDIT_FIELDS]),
+    [base, mine, theirs]
+  );
+  const [choices, setChoices] = useState<Partial<Record<ResourceEditField, "mine" | "theirs">>>({});
+
+  const resolved = useMemo(() => {
+    const values = { ...merged };
+    conflicts.forEach(field => {
+      if (choices[field] === "theirs") {
+        values[field] = theirs[field];
+      }
+    });
+    return values;
+  }, [merged, conflicts, choices, theirs]);
+
+  const formatValue = (field: ResourceEditField, value: string) => {
+    if (field === "category" || field === "status") {
+      return t(`${field}Options.${value}`);
+    }
+    return value || t("conflict.empty");
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("conflict.title")}</DialogTitle>
+          <DialogDescription>{t("conflict.description")}</DialogDescription>
+        </DialogHeader>
+
+        <FormError message={error} />
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+          {conflicts.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t("conflict.noConflicts")}</p>
+          )}
+
+          {conflicts.map(field => (
+            <fieldset key={field} className="space-y-2 rounded-[10px] border p-3">
+              <legend className="px-1 text-sm font-semibold">{t(`fields.${field}`)}</legend>
+              <p className="text-xs text-muted-foreground">
+                {t("conflict.original")}: {formatValue(field, base[field])}
+              </p>
+              {(["mine", "theirs"] as const).map(side => {
+                const value = side === "mine" ? mine[field] : theirs[field];
+                const checked = (choices[field] ?? "mine") === side;
+                return (
+                  <label
+                    key={side}
+                    className={cn(
+                      "flex cursor-pointer items-start gap-2 rounded-md border p-2 text-sm",
+                      checked ? "border-primary bg-primary/5" : "border-transparent"
+                    )}
+                  >
+                    <input
+                      type="radio"
+                      name={`conflict-${field}`}
+                      className="mt-1"
+                      checked={checked}
+                      onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                    />
+                    <span>
+                      <span className="block font-medium">{t(`conflict.${side}`)}</span>
+                      <span className="whitespace-pre-wrap break-words text-muted-foreground">
+                        {formatValue(field, value)}
+                      </span>
+                    </span>
+                  </label>
+                );
+              })}
+            </fieldset>
+          ))}
+
+          {remoteChanges.length > 0 && (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">{t("conflict.mergedTitle")}</p>
+              <ul className="list-disc space-y-1 ps-5 text-muted-foreground">
+                {remoteChanges.map(field => (
+                  <li key={field}>
+                    {t(`fields.${field}`)}: {formatValue(field, theirs[field])}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="ghost" onClick={onDiscard} disabled={isSaving}>
+            {t("conflict.discardMine")}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => onSave(mine)} disabled={isSaving}>
+            {t("conflict.overwrite")}
+          </Button>
+          <Button type="button" onClick={() => onSave(resolved)} disabled={isSaving}>
+            {t("conflict.saveMerged")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { AlertCircle, CheckCircle2, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FormField } from "@/components/ui/form-field";
+import { FormError } from "@/components/ui/form-error";
+import { Label } from "@/components/ui/label";
+import { SubmitButton } from "@/components/ui/submit-button";
+import { useAuth } from "@/components/providers/auth-provider";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useForm } from "@/hooks/use-form";
+import type { Locale } from "@/i18n";
+import {
+  ApiPreconditionFailedError,
+  getErrorMessage,
+  getResourceDetails,
+  invalidateQueries,
+  partialUpdateResource,
+  queryKeys,
+} from "@/lib/api";
+import { tokenStorage } from "@/lib/auth";
+import type { CategoryChoice, StatusChoice } from "@/lib/types/api/common.types";
+import { cn, validateResourceForm } from "@/lib/utils";
+import { typography } from "@/lib/styles/logical";
+import { RESOURCE_EDIT_FIELDS, ResourceConflictDialog } from "./resource-conflict-dialog";
+import type { ResourceEditValues } from "./resource-conflict-dialog";
+
+const CATEGORY_OPTIONS: CategoryChoice[] = ["mushaf", "tafsir", "recitation"];
+const STATUS_OPTIONS: StatusChoice[] = ["draft", "ready"];
+
+const SELECT_CLASS_NAME =
+  "border-input flex h-9 w-full rounded-[10px] border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm";
+
+/**
+ * Resource version the form is based on
+ */
+interface ResourceVersion {
+  values: ResourceEditValues;
+  updatedAt: string;
+}
+
+function toVersion(resource: ResourceEditValues & { updated_at: string }): ResourceVersion {
+  return {
+    values: {
+      name: resource.name,
+      description: resource.description,
+      category: resource.category,
+      status: resource.status,
+    },
+    updatedAt: resource.updated_at,
+  };
+}
+
+interface ConflictState {
+  mine: ResourceEditValues;
+  latest: ResourceVersion;
+}
+
+interface ResourceEditFormProps {
+  resourceId: number;
+  initialVersion: ResourceVersion;
+}
+
+function ResourceEditForm({ resourceId, initialVersion }: ResourceEditFormProps) {
+  const t = useTranslations();
+  const [base, setBase] = useState(initialVersion);
+  const [conflict, setConflict] = useState<ConflictState | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [resolveError, setResolveError] = useState("");
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  /**
+   * Saves the changed fields, guarded by the version they were based on
+   */
+  const save = async (values: ResourceEditValues, basedOn: ResourceVersion) => {
+    const token = tokenStorage.getToken();
+    if (!token) {
+      return { success: false, error: t("ui.unauthorized") };
+    }
+
+    const changes = Object.fromEntries(
+      RESOURCE_EDIT_FIELDS.filter(field => values[field] !== basedOn.values[field]).map(field => [field, values[field]])
+    );
+
+    try {
+      const updated = await partialUpdateResource(resourceId, changes, token, {
+        expectedUpdatedAt: basedOn.updatedAt,
+      });
+      setBase(toVersion(updated));
+      setConflict(null);
+      setSavedAt(updated.updated_at);
+      invalidateQueries(queryKeys.resources.all);
+      return { success: true };
+    } catch (error) {
+      if (!(error instanceof ApiPreconditionFailedError)) {
+        return { success: false, error: getErrorMessage(error) };
+      }
+
+      // Someone else saved first - compare against their version
+      const latest = await getResourceDetails(resourceId, token);
+      setConflict({ mine: values, latest: toVersion(latest) });
+      return { success: false, error: t("resourceEditor.conflict.detected"), conflicted: true };
+    }
+  };
+
+  const {
+    formData,
+    errors,
+    isLoading,
+    submitError,
+    handleInputChange,
+    handleSubmit,
+    setFieldValue,
+    clearErrors,
+  } = useForm<ResourceEditValues>({
+    initialData: initialVersion.values,
+    validate: validateResourceForm,
+    onSubmit: data => save(data, base),
+  });
+
+  const applyValues = (values: ResourceEditValues) => {
+    RESOURCE_EDIT_FIELDS.forEach(field => setFieldValue(field, values[field]));
+  };
+
+  const handleResolve = async (values: ResourceEditValues) => {
+    if (!conflict) return;
+
+    setIsResolving(true);
+    setResolveError("");
+    applyValues(values);
+    try {
+      const result = await save(values, conflict.latest);
+      if (result.success) {
+        clearErrors();
+      } else {
+        // The resolution was made against the latest version, so a new conflict
+        // is compared with it. Other failures keep the dialog as it was.
+        if (result.conflicted) {
+          setBase(conflict.latest);
+        }
+        setResolveError(result.error ?? "");
+      }
+    } catch (error) {
+      setResolveError(getErrorMessage(error));
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!conflict) return;
+
+    applyValues(conflict.latest.values);
+    setBase(conflict.latest);
+    setConflict(null);
+    setResolveError("");
+    clearErrors();
+  };
+
+  const handleSelectChange = (field: "category" | "status") => (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setFieldValue(field, event.target.value);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <FormError message={submitError} />
+
+      {savedAt && !submitError && (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          {t("resourceEditor.saved")}
+        </p>
+      )}
+
+      <FormField
+        id="name"
+        name="name"
+        label={t("resourceEditor.fields.name")}
+        value={formData.name}
+        onChange={handleInputChange("name")}
+        error={errors.name}
+        required
+      />
+
+      <FormField
+        id="description"
+        name="description"
+        variant="textarea"
+        label={t("resourceEditor.fields.description")}
+        value={formData.description}
+        onChange={handleInputChange("description")}
+        error={errors.description}
+        rows={5}
+      />
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="category">{t("resourceEditor.fields.category")}</Label>
+          <select
+            id="category"
+            name="category"
+            className={SELECT_CLASS_NAME}
+            value={formData.category}
+            onChange={handleSelectChange("category")}
+          >
+            {CATEGORY_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {t(`resourceEditor.categoryOptions.${option}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="status">{t("resourceEditor.fields.status")}</Label>
+          <select
+            id="status"
+            name="status"
+            className={SELECT_CLASS_NAME}
+            value={formData.status}
+            onChange={handleSelectChange("status")}
+          >
+            {STATUS_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {t(`resourceEditor.statusOptions.${option}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <SubmitButton isLoading={isLoading} loadingText={t("common.loading")} className="w-full md:w-auto">
+        {t("resourceEditor.save")}
+      </SubmitButton>
+
+      {conflict && (
+        <ResourceConflictDialog
+          key={conflict.latest.updatedAt}
+          base={base.values}
+          mine={conflict.mine}
+          theirs={conflict.latest.values}
+          isSaving={isResolving}
+          error={resolveError}
+          onSave={handleResolve}
+          onDiscard={handleDiscard}
+          onCancel={() => {
+            setConflict(null);
+            setResolveError("");
+          }}
+        />
+      )}
+    </form>
+  );
+}
+
+interface ResourceEditorProps {
+  resourceId: string;
+  locale: Locale;
+}
+
+/**
+ * Edit page content for a resource
+ *
+ * Saves are guarded by the resource's `updated_at`, so changes made by
+ * another editor in the meantime are never overwritten silently; instead a
+ * three-way comparison lets the user merge or overwrite.
+ */
+export function ResourceEditor({ resourceId, locale }: ResourceEditorProps) {
+  const t = useTranslations();
+  const router = useRouter();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const id = parseInt(resourceId);
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.replace(`/${locale}/auth/login?returnTo=${encodeURIComponent(window.location.pathname)}`);
+    }
+  }, [isAuthLoading, user, locale, router]);
+
+  const resourceQuery = useApiQuery(
+    queryKeys.resources.detail(id),
+    ({ signal }) => getResourceDetails(id, tokenStorage.getToken() || undefined, { signal }),
+    { enabled: !!user, revalidateOnFocus: false }
+  );
+  // The form keeps the version it was opened with; later revalidations don't reset it
+  const [initialVersion, setInitialVersion] = useState<ResourceVersion | null>(null);
+  useEffect(() => {
+    if (resourceQuery.data && !initialVersion) {
+      setInitialVersion(toVersion(resourceQuery.data));
+    }
+  }, [resourceQuery.data, initialVersion]);
+
+  if (!user || (!initialVersion && !resourceQuery.error)) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center">
+        <RefreshCw className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!initialVersion) {
+    return (
+      <div className="container mx-auto space-y-4 px-4 py-8 text-center">
+        <AlertCircle className="mx-auto h-12 w-12 text-destructive" />
+        <p className="text-muted-foreground">{getErrorMessage(resourceQuery.error)}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className={cn(typography.heading, "text-2xl")}>{t("resourceEditor.title")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResourceEditForm resourceId={id} initialVersion={initialVersion} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
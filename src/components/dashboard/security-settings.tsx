@@ -0,0 +1,566 @@
+"use client";
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FormError } from '@/components/ui/form-error';
+import { FormField } from '@/components/ui/form-field';
+import { SubmitButton } from '@/components/ui/submit-button';
+import { useAuth } from '@/components/providers/auth-provider';
+import { useForm } from '@/hooks/use-form';
+import type { Locale } from '@/i18n';
+import {
+  ApiConflictError,
+  ApiRateLimitError,
+  ApiValidationError,
+  cancelAccountDeletion,
+  changeEmail,
+  changePassword,
+  deleteAccount,
+} from '@/lib/api';
+import { getReauthentication, startReauthentication, tokenStorage } from '@/lib/auth';
+import type { OAuthProvider, ReauthenticationOut } from '@/lib/types/api/auth.types';
+import { typography } from '@/lib/styles/logical';
+import {
+  convertUserProfileToUser,
+  validateChangeEmailForm,
+  validateChangePasswordForm,
+  validateDeleteAccountForm,
+} from '@/lib/utils';
+
+interface SecuritySettingsProps {
+  locale: Locale;
+}
+
+interface ReauthenticatedFormProps {
+  /** Social provider the user confirms with instead of a password, if they signed in with one */
+  provider?: OAuthProvider;
+  /** Whether the user has confirmed with their provider */
+  isConfirmed: boolean;
+  /** Called when the confirmation turns out to have expired */
+  onConfirmationExpired: () => void;
+}
+
+/**
+ * Display names of the social providers (brand names, not translated)
+ */
+const PROVIDER_NAMES: Record<OAuthProvider, string> = {
+  google: 'Google',
+  github: 'GitHub',
+};
+
+/**
+ * Error message for a failed security action the forms do not handle per field
+ */
+function getActionError(error: unknown, t: ReturnType<typeof useTranslations>): string {
+  if (error instanceof ApiRateLimitError) {
+    return t('errors.tooManyRequests');
+  }
+  return error instanceof Error ? error.message : t('errors.networkError');
+}
+
+/**
+ * Re-authentication fields sent with a security action
+ *
+ * Users who signed in with a social provider send the token from confirming
+ * with it; everyone else sends their current password.
+ *
+ * @returns The fields, or null if the confirmation is missing or has expired
+ */
+function getReauthenticationFields(
+  provider: OAuthProvider | undefined,
+  currentPassword: string
+): { current_password: string } | { reauthentication_token: string } | null {
+  if (!provider) {
+    return { current_password: currentPassword };
+  }
+  const reauthentication = getReauthentication();
+  return reauthentication ? { reauthentication_token: reauthentication.reauthentication_token } : null;
+}
+
+/**
+ * Whether the backend rejected the provider confirmation as expired
+ */
+function isConfirmationExpired(error: unknown): boolean {
+  return error instanceof ApiValidationError && error.errorName === 'REAUTHENTICATION_EXPIRED';
+}
+
+/**
+ * Lets a user who signed in with a social provider confirm their identity
+ * with it, since they have no password to confirm security changes with
+ */
+function ProviderConfirmation({
+  locale,
+  provider,
+  reauthentication,
+}: SecuritySettingsProps & { provider: OAuthProvider; reauthentication: ReauthenticationOut | null }) {
+  const t = useTranslations();
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [error, setError] = useState('');
+  const providerName = PROVIDER_NAMES[provider];
+
+  const handleConfirm = async () => {
+    setIsRedirecting(true);
+    setError('');
+    const response = await startReauthentication(provider, locale, window.location.pathname);
+    // On success the page is already navigating to the provider
+    if (!response.success) {
+      setIsRedirecting(false);
+      setError(response.error || t('errors.networkError'));
+    }
+  };
+
+  if (reauthentication) {
+    const expiresAt = new Date(reauthentication.expires_at).toLocaleTimeString(locale === 'ar' ? 'ar-SA' : 'en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+    return (
+      <p className="rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800" role="status">
+        {t('accountSecurity.providerConfirmed', { provider: providerName, time: expiresAt })}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border bg-muted/40 p-4">
+      <p className="text-sm">{t('accountSecurity.providerConfirmationDescription', { provider: providerName })}</p>
+      <FormError message={error} />
+      <Button type="button" variant="outline" onClick={handleConfirm} disabled={isRedirecting}>
+        {isRedirecting ? t('common.loading') : t('accountSecurity.confirmWithProvider', { provider: providerName })}
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Changes the password; other sessions stay signed in
+ */
+function ChangePasswordForm({ provider, isConfirmed, onConfirmationExpired }: ReauthenticatedFormProps) {
+  const t = useTranslations();
+  const [isChanged, setIsChanged] = useState(false);
+
+  const {
+    formData,
+    errors,
+    isLoading,
+    submitError,
+    handleInputChange,
+    handleSubmit,
+    resetForm,
+    setFieldError
+  } = useForm({
+    initialData: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: ''
+    },
+    validate: (data, translate) => validateChangePasswordForm(data, translate, { requireCurrentPassword: !provider }),
+    onSubmit: async (data) => {
+      const token = tokenStorage.getToken();
+      if (!token) {
+        return { success: false, error: t('ui.unauthorized') };
+      }
+      const reauthentication = getReauthenticationFields(provider, data.currentPassword);
+      if (!reauthentication) {
+        onConfirmationExpired();
+        return { success: false, error: t('accountSecurity.providerConfirmationRequired') };
+      }
+
+      setIsChanged(false);
+      try {
+        await changePassword(token, { ...reauthentication, new_password: data.newPassword });
+        return { success: true };
+      } catch (error) {
+        console.error('Change password error:', error);
+
+        if (isConfirmationExpired(error)) {
+          onConfirmationExpired();
+          return { success: false, error: t('accountSecurity.providerConfirmationRequired') };
+        }
+        if (error instanceof ApiValidationError && error.fieldErrors.current_password) {
+          setFieldError('currentPassword', error.fieldErrors.current_password);
+          return { success: false, error: error.fieldErrors.current_password };
+        }
+        if (error instanceof ApiValidationError && error.fieldErrors.new_password) {
+          setFieldError('newPassword', error.fieldErrors.new_password);
+          return { success: false, error: error.fieldErrors.new_password };
+        }
+        return { success: false, error: getActionError(error, t) };
+      }
+    },
+    onSuccess: () => {
+      resetForm();
+      setIsChanged(true);
+    }
+  });
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="font-semibold">{t('accountSecurity.changePassword')}</h3>
+      <FormError message={submitError} />
+      {isChanged && (
+        <p className="text-sm text-green-600" role="status">
+          {t('accountSecurity.passwordChanged')}
+        </p>
+      )}
+
+      {!provider && (
+        <FormField
+          id="currentPasswordForPassword"
+          name="currentPassword"
+          type="password"
+          label={t('accountSecurity.currentPassword')}
+          value={formData.currentPassword}
+          onChange={handleInputChange('currentPassword')}
+          error={errors.currentPassword}
+          required
+        />
+      )}
+      <FormField
+        id="newPassword"
+        name="newPassword"
+        type="password"
+        label={t('accountSecurity.newPassword')}
+        value={formData.newPassword}
+        onChange={handleInputChange('newPassword')}
+        error={errors.newPassword}
+        placeholder={t('forms.placeholders.password')}
+        required
+      />
+      <FormField
+        id="confirmNewPassword"
+        name="confirmPassword"
+        type="password"
+        label={t('accountSecurity.confirmNewPassword')}
+        value={formData.confirmPassword}
+        onChange={handleInputChange('confirmPassword')}
+        error={errors.confirmPassword}
+        required
+      />
+
+      <SubmitButton isLoading={isLoading} loadingText={t('common.loading')} disabled={!isConfirmed}>
+        {t('accountSecurity.changePassword')}
+      </SubmitButton>
+    </form>
+  );
+}
+
+/**
+ * Changes the email address; the new address has to be verified again
+ */
+function ChangeEmailForm({ provider, isConfirmed, onConfirmationExpired }: ReauthenticatedFormProps) {
+  const t = useTranslations();
+  const { user, updateUser } = useAuth();
+  const [sentTo, setSentTo] = useState('');
+
+  const {
+    formData,
+    errors,
+    isLoading,
+    submitError,
+    handleInputChange,
+    handleSubmit,
+    resetForm,
+    setFieldError
+  } = useForm<{ newEmail: string; currentPassword: string }, { email?: string }>({
+    initialData: {
+      newEmail: '',
+      currentPassword: ''
+    },
+    validate: (data, translate) => validateChangeEmailForm(data, translate, { requireCurrentPassword: !provider }),
+    onSubmit: async (data) => {
+      const token = tokenStorage.getToken();
+      if (!token || !user) {
+        return { success: false, error: t('ui.unauthorized') };
+      }
+      const reauthentication = getReauthenticationFields(provider, data.currentPassword);
+      if (!reauthentication) {
+        onConfirmationExpired();
+        return { success: false, error: t('accountSecurity.providerConfirmationRequired') };
+      }
+
+      setSentTo('');
+      try {
+        const profile = await changeEmail(token, {
+          ...reauthentication,
+          new_email: data.newEmail.trim()
+        });
+        // The profile does not say how the user signed in
+        updateUser({ ...convertUserProfileToUser(profile), provider: user.provider });
+        return { success: true, email: profile.email };
+      } catch (error) {
+        console.error('Change email error:', error);
+
+        if (isConfirmationExpired(error)) {
+          onConfirmationExpired();
+          return { success: false, error: t('accountSecurity.providerConfirmationRequired') };
+        }
+        if (error instanceof ApiValidationError && error.fieldErrors.current_password) {
+          setFieldError('currentPassword', error.fieldErrors.current_password);
+          return { success: false, error: error.fieldErrors.current_password };
+        }
+        if (error instanceof ApiValidationError && error.fieldErrors.new_email) {
+          setFieldError('newEmail', error.fieldErrors.new_email);
+          return { success: false, error: error.fieldErrors.new_email };
+        }
+        if (error instanceof ApiConflictError) {
+          setFieldError('newEmail', t('accountSecurity.emailTaken'));
+          return { success: false, error: t('accountSecurity.emailTaken') };
+        }
+        return { success: false, error: getActionError(error, t) };
+      }
+    },
+    onSuccess: (result) => {
+      resetForm();
+      setSentTo(result.email ?? '');
+    }
+  });
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <h3 className="font-semibold">{t('accountSecurity.changeEmail')}</h3>
+      <p className="text-sm text-muted-foreground">{t('accountSecurity.changeEmailDescription')}</p>
+      <FormError message={submitError} />
+      {sentTo && (
+        <p className="text-sm text-green-600" role="status">
+          {t('accountSecurity.emailChanged', { email: sentTo })}
+        </p>
+      )}
+
+      <FormField
+        id="newEmail"
+        name="newEmail"
+        type="email"
+        label={t('accountSecurity.newEmail')}
+        value={formData.newEmail}
+        onChange={handleInputChange('newEmail')}
+        error={errors.newEmail}
+        placeholder={t('forms.placeholders.email')}
+        required
+      />
+      {!provider && (
+        <FormField
+          id="currentPasswordForEmail"
+          name="currentPassword"
+          type="password"
+          label={t('accountSecurity.currentPassword')}
+          value={formData.currentPassword}
+          onChange={handleInputChange('currentPassword')}
+          error={errors.currentPassword}
+          required
+        />
+      )}
+
+      <SubmitButton isLoading={isLoading} loadingText={t('common.loading')} disabled={!isConfirmed}>
+        {t('accountSecurity.changeEmail')}
+      </SubmitButton>
+    </form>
+  );
+}
+
+/**
+ * Schedules the account for deletion after confirming with the password (or
+ * the social provider), or cancels a scheduled deletion during the grace period
+ */
+function DeleteAccountSection({
+  locale,
+  provider,
+  isConfirmed,
+  onConfirmationExpired,
+}: SecuritySettingsProps & ReauthenticatedFormProps) {
+  const t = useTranslations();
+  const { user, updateUser } = useAuth();
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState('');
+
+  const {
+    formData,
+    errors,
+    isLoading,
+    submitError,
+    handleInputChange,
+    handleSubmit,
+    resetForm,
+    setFieldError
+  } = useForm<{ currentPassword: string }, { deletionScheduledAt?: string }>({
+    initialData: {
+      currentPassword: ''
+    },
+    validate: (data, translate) => validateDeleteAccountForm(data, translate, { requireCurrentPassword: !provider }),
+    onSubmit: async (data) => {
+      const token = tokenStorage.getToken();
+      if (!token) {
+        return { success: false, error: t('ui.unauthorized') };
+      }
+      const reauthentication = getReauthenticationFields(provider, data.currentPassword);
+      if (!reauthentication) {
+        onConfirmationExpired();
+        return { success: false, error: t('accountSecurity.providerConfirmationRequired') };
+      }
+
+      try {
+        const deletion = await deleteAccount(token, reauthentication);
+        return { success: true, deletionScheduledAt: deletion.deletion_scheduled_at };
+      } catch (error) {
+        console.error('Delete account error:', error);
+
+        if (isConfirmationExpired(error)) {
+          onConfirmationExpired();
+          return { success: false, error: t('accountSecurity.providerConfirmationRequired') };
+        }
+        if (error instanceof ApiValidationError && error.fieldErrors.current_password) {
+          setFieldError('currentPassword', error.fieldErrors.current_password);
+          return { success: false, error: error.fieldErrors.current_password };
+        }
+        return { success: false, error: getActionError(error, t) };
+      }
+    },
+    onSuccess: (result) => {
+      if (user) {
+        updateUser({ ...user, deletionScheduledAt: result.deletionScheduledAt });
+      }
+      closeConfirmation();
+    }
+  });
+
+  const closeConfirmation = () => {
+    setIsConfirming(false);
+    resetForm();
+  };
+
+  const handleCancelDeletion = async () => {
+    const token = tokenStorage.getToken();
+    if (!token || !user) {
+      setCancelError(t('ui.unauthorized'));
+      return;
+    }
+
+    setIsCancelling(true);
+    setCancelError('');
+    try {
+      await cancelAccountDeletion(token);
+      updateUser({ ...user, deletionScheduledAt: undefined });
+    } catch (error) {
+      console.error('Cancel account deletion error:', error);
+      setCancelError(getActionError(error, t));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  if (user?.deletionScheduledAt) {
+    const deletionDate = new Date(user.deletionScheduledAt).toLocaleDateString(locale === 'ar' ? 'ar-SA' : 'en-US');
+
+    return (
+      <div className="space-y-4">
+        <h3 className="font-semibold text-destructive">{t('accountSecurity.deleteAccount')}</h3>
+        <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900" role="status">
+          {t('accountSecurity.deletionScheduled', { date: deletionDate })}
+        </p>
+        <FormError message={cancelError} />
+        <Button variant="outline" onClick={handleCancelDeletion} disabled={isCancelling}>
+          {isCancelling ? t('common.loading') : t('accountSecurity.cancelDeletion')}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-destructive">{t('accountSecurity.deleteAccount')}</h3>
+      <p className="text-sm text-muted-foreground">{t('accountSecurity.deleteAccountDescription')}</p>
+      <Button variant="destructive" onClick={() => setIsConfirming(true)} disabled={!isConfirmed}>
+        {t('accountSecurity.deleteAccount')}
+      </Button>
+
+      <Dialog open={isConfirming} onOpenChange={open => !open && closeConfirmation()}>
+        <DialogContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{t('accountSecurity.confirmDeleteTitle')}</DialogTitle>
+              <DialogDescription>
+                {provider ? t('accountSecurity.confirmDeleteMessageWithProvider') : t('accountSecurity.confirmDeleteMessage')}
+              </DialogDescription>
+            </DialogHeader>
+
+            <FormError message={submitError} />
+            {!provider && (
+              <FormField
+                id="currentPasswordForDeletion"
+                name="currentPassword"
+                type="password"
+                label={t('accountSecurity.currentPassword')}
+                value={formData.currentPassword}
+                onChange={handleInputChange('currentPassword')}
+                error={errors.currentPassword}
+                required
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeConfirmation}>
+                {t('common.cancel')}
+              </Button>
+              <SubmitButton isLoading={isLoading} loadingText={t('common.loading')} variant="destructive">
+                {t('accountSecurity.confirmDelete')}
+              </SubmitButton>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+/**
+ * Password, email and account deletion settings for the signed-in user
+ *
+ * Every action asks for the current password again. Users who signed in
+ * with Google or GitHub have none, so they confirm with the provider first.
+ */
+export function SecuritySettings({ locale }: SecuritySettingsProps) {
+  const t = useTranslations();
+  const { user } = useAuth();
+  const [reauthentication, setReauthentication] = useState(getReauthentication);
+
+  const provider = user?.provider && user.provider !== 'email' ? user.provider : undefined;
+  const formProps: ReauthenticatedFormProps = {
+    provider,
+    isConfirmed: !provider || !!reauthentication,
+    onConfirmationExpired: () => setReauthentication(null),
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className={typography.heading}>
+          {t('accountSecurity.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {provider && (
+          <ProviderConfirmation locale={locale} provider={provider} reauthentication={reauthentication} />
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          <ChangePasswordForm {...formProps} />
+          <ChangeEmailForm {...formProps} />
+        </div>
+        <div className="border-t pt-6">
+          <DeleteAccountSection locale={locale} {...formProps} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
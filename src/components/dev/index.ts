@@ -0,0 +1 @@
+export { NetworkInspector } from './network-inspector';
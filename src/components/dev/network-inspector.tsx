@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Copy, Network, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useNetworkLog } from "@/hooks/use-network-log";
+import type { NetworkLogEntry } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+type Filter = "all" | "errors";
+
+/**
+ * Keyboard shortcut toggling the panel (Alt+Shift+N)
+ */
+function isToggleShortcut(event: KeyboardEvent): boolean {
+  return event.altKey && event.shiftKey && event.code === "KeyN";
+}
+
+function formatBody(body: unknown): string {
+  return typeof body === "string" ? body : JSON.stringify(body, null, 2);
+}
+
+function getPath(url: string): string {
+  try {
+    const { pathname, search } = new URL(url);
+    return `${pathname}${search}`;
+  } catch {
+    return url;
+  }
+}
+
+interface DetailSectionProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+function DetailSection({ title, children }: DetailSectionProps) {
+  return (
+    <section className="space-y-1">
+      <h3 className="text-xs font-semibold uppercase text-muted-foreground">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function HeaderList({ headers }: { headers: [string, string][] }) {
+  const t = useTranslations("networkInspector");
+
+  if (headers.length === 0) {
+    return <p className="text-xs text-muted-foreground">{t("none")}</p>;
+  }
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 font-mono text-xs">
+      {headers.map(([name, value]) => (
+        <div key={name} className="contents">
+          <dt className="text-muted-foreground">{name}</dt>
+          <dd className="break-all">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function BodyView({ body }: { body: unknown }) {
+  const t = useTranslations("networkInspector");
+
+  if (body === undefined || body === null || body === "") {
+    return <p className="text-xs text-muted-foreground">{t("none")}</p>;
+  }
+  return (
+    <pre className="max-h-60 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-2 font-mono text-xs" dir="ltr">
+      {formatBody(body)}
+    </pre>
+  );
+}
+
+function EntryDetails({ entry }: { entry: NetworkLogEntry }) {
+  const t = useTranslations("networkInspector");
+
+  const copyRequestId = () => {
+    void navigator.clipboard?.writeText(entry.requestId);
+  };
+
+  return (
+    <div className="space-y-4 p-3" dir="ltr">
+      <div className="space-y-1">
+        <p className="break-all font-mono text-xs">
+          <span className="font-semibold">{entry.method}</span> {entry.url}
+        </p>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>
+            {t("requestId")}: <span className="font-mono">{entry.requestId}</span>
+          </span>
+          <Button variant="ghost" size="icon-sm" onClick={copyRequestId} aria-label={t("copyRequestId")}>
+            <Copy />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {[
+            entry.durationMs !== undefined && t("duration", { ms: entry.durationMs }),
+            entry.size !== undefined && t("size", { bytes: entry.size }),
+            entry.cache && t(`cache.${entry.cache}`),
+            entry.retryCount && t("retries", { count: entry.retryCount }),
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </div>
+
+      {entry.error && (
+        <DetailSection title={t("sections.error")}>
+          <p className="font-mono text-xs text-destructive">
+            {entry.error.name}: {entry.error.message}
+          </p>
+        </DetailSection>
+      )}
+
+      <DetailSection title={t("sections.requestHeaders")}>
+        <HeaderList headers={entry.request.headers} />
+      </DetailSection>
+
+      {entry.request.body !== undefined && (
+        <DetailSection title={t("sections.requestBody")}>
+          <BodyView body={entry.request.body} />
+        </DetailSection>
+      )}
+
+      {entry.response && (
+        <>
+          <DetailSection title={t("sections.responseHeaders")}>
+            <HeaderList headers={entry.response.headers} />
+          </DetailSection>
+          <DetailSection title={t("sections.responseBody")}>
+            <BodyView body={entry.response.body} />
+          </DetailSection>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Development panel listing recent API calls
+ *
+ * Toggled with the floating button or Alt+Shift+N. Shows each call's status,
+ * timing, size and request ID, and the request, response and error details
+ * of the selected call. Only mounted in development builds.
+ */
+export function NetworkInspector() {
+  const t = useTranslations("networkInspector");
+  const { entries, clear } = useNetworkLog();
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState<Filter>("all");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isToggleShortcut(event)) {
+        event.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const visibleEntries = filter === "errors" ? entries.filter(entry => entry.state === "error") : entries;
+  const selected = entries.find(entry => entry.requestId === selectedId);
+  const errorCount = entries.filter(entry => entry.state === "error").length;
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="fixed bottom-4 start-4 z-50 shadow-md"
+        onClick={() => setIsOpen(true)}
+        aria-label={t("open")}
+        title={t("shortcut")}
+      >
+        <Network />
+        {errorCount > 0 && <span className="text-destructive">{errorCount}</span>}
+      </Button>
+    );
+  }
+
+  return (
+    <section
+      className="fixed inset-x-0 bottom-0 z-50 flex h-[45vh] flex-col border-t bg-background shadow-lg"
+      aria-label={t("title")}
+    >
+      <header className="flex items-center justify-between gap-2 border-b px-4 py-2">
+        <div className="flex items-center gap-3">
+          <Network className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold text-foreground">{t("title")}</h2>
+          <div className="flex items-center gap-1" role="group" aria-label={t("filterLabel")}>
+            {(["all", "errors"] as const).map(option => (
+              <Button
+                key={option}
+                variant={filter === option ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setFilter(option)}
+                aria-pressed={filter === option}
+              >
+                {t(`filters.${option}`)}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon-sm" onClick={clear} aria-label={t("clear")}>
+            <Trash2 />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={() => setIsOpen(false)} aria-label={t("close")}>
+            <X />
+          </Button>
+        </div>
+      </header>
+
+      <div className="flex min-h-0 flex-1">
+        <ul className="w-1/2 divide-y overflow-y-auto border-e" dir="ltr">
+          {visibleEntries.length === 0 && (
+            <li className="p-4 text-center text-sm text-muted-foreground">{t("empty")}</li>
+          )}
+          {visibleEntries.map(entry => (
+            <li key={entry.requestId}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(entry.requestId)}
+                className={cn(
+                  "flex w-full items-center gap-3 px-3 py-1.5 text-start font-mono text-xs hover:bg-muted",
+                  entry.requestId === selectedId && "bg-muted"
+                )}
+              >
+                <span
+                  className={cn(
+                    "w-10 shrink-0",
+                    entry.state === "error" && "text-destructive",
+                    entry.state === "pending" && "text-muted-foreground"
+                  )}
+                >
+                  {entry.state === "pending" ? "…" : entry.status || "ERR"}
+                </span>
+                <span className="w-14 shrink-0 font-semibold">{entry.method}</span>
+                <span className="min-w-0 flex-1 truncate" title={entry.url}>
+                  {getPath(entry.url)}
+                </span>
+                <span className="shrink-0 text-muted-foreground">
+                  {entry.durationMs !== undefined ? `${entry.durationMs}ms` : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="w-1/2 overflow-y-auto">
+          {selected ? (
+            <EntryDetails entry={selected} />
+          ) : (
+            <p className="p-4 text-center text-sm text-muted-foreground">{t("selectCall")}</p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
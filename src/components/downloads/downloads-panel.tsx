@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useFormatter, useTranslations } from "next-intl";
+import {
+  ChevronDown,
+  ChevronUp,
+  CloudDownload,
+  Pause,
+  Play,
+  RotateCcw,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useDownloads } from "@/hooks/use-downloads";
+import type { DownloadItem } from "@/lib/download-manager";
+
+const BYTE_UNITS = ["byte", "kilobyte", "megabyte", "gigabyte"] as const;
+
+function useFormatBytes() {
+  const format = useFormatter();
+
+  return (bytes: number) => {
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return format.number(value, {
+      style: "unit",
+      unit: BYTE_UNITS[unit],
+      unitDisplay: "short",
+      maximumFractionDigits: unit >= 2 ? 1 : 0,
+    });
+  };
+}
+
+interface DownloadRowProps {
+  item: DownloadItem;
+}
+
+function DownloadRow({ item }: DownloadRowProps) {
+  const t = useTranslations("downloads");
+  const formatBytes = useFormatBytes();
+  const { pause, resume, cancel, remove } = useDownloads();
+
+  const percent = item.total ? Math.min(100, Math.round((item.loaded / item.total) * 100)) : null;
+  const isActive = item.status === "downloading" || item.status === "verifying";
+
+  const progressText = item.total
+    ? t("progress", { loaded: formatBytes(item.loaded), total: formatBytes(item.total) })
+    : formatBytes(item.loaded);
+
+  const statusText =
+    item.status === "failed"
+      ? t(`errors.${item.errorCode ?? "network"}`)
+      : item.savedByBrowser
+        ? t("status.savedByBrowser")
+        : t(`status.${item.status}`);
+
+  return (
+    <li className="space-y-2 py-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium text-foreground" title={item.fileName}>
+            {item.fileName}
+          </p>
+          <p
+            className={cn(
+              "text-xs",
+              item.status === "failed" ? "text-destructive" : "text-muted-foreground"
+            )}
+          >
+            {statusText}
+            {item.status !== "completed" && item.status !== "cancelled" && ` · ${progressText}`}
+          </p>
+        </div>
+
+        <div className="flex shrink-0 items-center gap-1">
+          {item.status === "downloading" && (
+            <Button variant="ghost" size="icon-sm" onClick={() => pause(item.id)} aria-label={t("actions.pause")}>
+              <Pause />
+            </Button>
+          )}
+          {item.status === "paused" && (
+            <Button variant="ghost" size="icon-sm" onClick={() => resume(item.id)} aria-label={t("actions.resume")}>
+              <Play />
+            </Button>
+          )}
+          {item.status === "failed" && (
+            <Button variant="ghost" size="icon-sm" onClick={() => resume(item.id)} aria-label={t("actions.retry")}>
+              <RotateCcw />
+            </Button>
+          )}
+          {(isActive || item.status === "paused" || item.status === "failed") ? (
+            <Button variant="ghost" size="icon-sm" onClick={() => cancel(item.id)} aria-label={t("actions.cancel")}>
+              <X />
+            </Button>
+          ) : (
+            <Button variant="ghost" size="icon-sm" onClick={() => remove(item.id)} aria-label={t("actions.remove")}>
+              <Trash2 />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {item.status !== "completed" && item.status !== "cancelled" && (
+        <div
+          className="h-1.5 w-full overflow-hidden rounded-full bg-muted"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent ?? undefined}
+          aria-label={item.fileName}
+        >
+          <div
+            className={cn(
+              "h-full rounded-full transition-[width]",
+              item.status === "failed" ? "bg-destructive" : "bg-primary",
+              percent === null && isActive && "w-1/3 animate-pulse"
+            )}
+            style={percent !== null ? { width: `${percent}%` } : undefined}
+          />
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Floating panel listing in-app downloads
+ *
+ * Mounted once in the locale layout so downloads stay visible across pages.
+ * Warns before the page is closed while a download is in progress, since
+ * downloads cannot be resumed after a reload.
+ */
+export function DownloadsPanel() {
+  const t = useTranslations("downloads");
+  const { downloads, hasActiveDownloads, clearFinished } = useDownloads();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  useEffect(() => {
+    if (!hasActiveDownloads) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasActiveDownloads]);
+
+  if (downloads.length === 0) {
+    return null;
+  }
+
+  const activeCount = downloads.filter(item =>
+    ["downloading", "verifying", "paused"].includes(item.status)
+  ).length;
+  const hasFinished = downloads.some(item => item.status === "completed" || item.status === "cancelled");
+
+  return (
+    <section
+      className="fixed bottom-4 end-4 z-50 w-80 max-w-[calc(100vw-2rem)] rounded-[10px] border bg-background shadow-lg"
+      aria-label={t("title")}
+    >
+      <header className="flex items-center justify-between gap-2 border-b px-4 py-2">
+        <div className="flex items-center gap-2">
+          <CloudDownload className="h-4 w-4 text-primary" />
+          <h2 className="text-sm font-semibold text-foreground">{t("title")}</h2>
+          {activeCount > 0 && (
+            <span className="text-xs text-muted-foreground">{t("activeCount", { count: activeCount })}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {hasFinished && (
+            <Button variant="ghost" size="sm" onClick={clearFinished}>
+              {t("actions.clearFinished")}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setIsCollapsed(collapsed => !collapsed)}
+            aria-label={isCollapsed ? t("actions.expand") : t("actions.collapse")}
+            aria-expanded={!isCollapsed}
+          >
+            {isCollapsed ? <ChevronUp /> : <ChevronDown />}
+          </Button>
+        </div>
+      </header>
+
+      {!isCollapsed && (
+        <ul className="max-h-80 divide-y overflow-y-auto px-4">
+          {downloads.map(item => (
+            <DownloadRow key={item.id} item={item} />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
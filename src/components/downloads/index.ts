@@ -0,0 +1 @@
+export { DownloadsPanel } from './downloads-panel';
@@ -11,6 +11,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { LogOut, Menu, X } from 'lucide-react';
 import { LanguageSwitcher } from '@/components/language-switcher';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { EmailVerificationBanner } from '@/components/auth/email-verification-banner';
 import type { Locale } from '@/i18n';
 import { cn } from '@/lib/utils';
 
@@ -25,7 +26,7 @@ interface NavigationItem {
 }
 
 export function Header({ locale }: HeaderProps) {
-  const { user, logout } = useAuth();
+  const { user, isLoading, logout } = useAuth();
   const pathname = usePathname();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const t = useTranslations();
@@ -110,7 +111,8 @@ export function Header({ locale }: HeaderProps) {
                  {/* Theme Toggle */}
                  {/* <ThemeToggle /> */}
 
-                 {user ? (
+                 {/* Nothing until the session is known, to avoid flashing the login button */}
+                 {isLoading ? null : user ? (
                    <>
                      {/* User Avatar */}
                      <Avatar className="h-8 w-8">
@@ -123,7 +125,7 @@ export function Header({ locale }: HeaderProps) {
                       <Button
                         variant="ghost"
                         size="icon-sm"
-                        onClick={logout}
+                        onClick={() => logout()}
                         className="relative text-red-600 hover:text-red-600 !p-0"
                         title={t('auth.logout')}
                         aria-label={t('auth.logout')}
@@ -168,6 +170,9 @@ export function Header({ locale }: HeaderProps) {
         </div>
       </header>
 
+      {/* Email Verification Reminder */}
+      <EmailVerificationBanner />
+
       {/* Mobile Menu Overlay */}
       {isMobileMenuOpen && (
         <div className="fixed inset-0 z-50 lg:hidden">
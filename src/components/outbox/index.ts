@@ -0,0 +1 @@
+export { OutboxStatus } from './outbox-status';
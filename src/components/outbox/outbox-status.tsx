@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useTranslations } from "next-intl";
+import { CheckCircle2, CloudOff, RefreshCw, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/components/providers/auth-provider";
+import { useOutbox } from "@/hooks/use-outbox";
+import { getUserProfile } from "@/lib/api";
+import type { OutboxItem } from "@/lib/api";
+import { reloadAccessToken, tokenStorage } from "@/lib/auth";
+import { cn, convertUserProfileToUser } from "@/lib/utils";
+
+/**
+ * How often queued mutations are retried while online, in milliseconds
+ */
+const REPLAY_INTERVAL_MS = 30_000;
+
+/**
+ * How long a sent confirmation stays visible, in milliseconds
+ */
+const SENT_VISIBLE_MS = 5_000;
+
+interface OutboxRowProps {
+  item: OutboxItem;
+}
+
+function OutboxRow({ item }: OutboxRowProps) {
+  const t = useTranslations("outbox");
+  const { retry, dismiss } = useOutbox();
+
+  const description = t(`types.${item.mutation.type}`, { label: item.label ?? "" });
+
+  return (
+    <li className="flex items-start justify-between gap-2 py-2">
+      <div className="flex min-w-0 items-start gap-2">
+        {item.status === "sent" && <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-700" />}
+        {item.status === "sending" && <RefreshCw className="mt-0.5 h-4 w-4 shrink-0 animate-spin text-muted-foreground" />}
+        {(item.status === "queued" || item.status === "failed") && (
+          <CloudOff
+            className={cn(
+              "mt-0.5 h-4 w-4 shrink-0",
+              item.status === "failed" ? "text-destructive" : "text-muted-foreground"
+            )}
+          />
+        )}
+        <div className="min-w-0">
+          <p className="text-sm text-foreground">{description}</p>
+          <p className={cn("text-xs", item.status === "failed" ? "text-destructive" : "text-muted-foreground")}>
+            {item.status === "failed" ? item.error || t("status.failed") : t(`status.${item.status}`)}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex shrink-0 items-center gap-1">
+        {item.status === "failed" && (
+          <Button variant="ghost" size="icon-sm" onClick={() => retry(item.id)} aria-label={t("actions.retry")}>
+            <RotateCcw />
+          </Button>
+        )}
+        {(item.status === "failed" || item.status === "sent") && (
+          <Button variant="ghost" size="icon-sm" onClick={() => dismiss(item.id)} aria-label={t("actions.dismiss")}>
+            <X />
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Status of mutations queued while offline
+ *
+ * Mounted once in the locale layout. Replays the outbox when the connection
+ * returns (and periodically while anything is queued), confirms sent
+ * mutations, and lets the user retry or discard ones the backend rejected.
+ * A replayed profile update refreshes the signed-in user. If the page was
+ * loaded offline, the access token is fetched from the session cookies
+ * before the first replay.
+ */
+export function OutboxStatus() {
+  const t = useTranslations("outbox");
+  const { user, updateUser } = useAuth();
+  const { items, isOnline, replay, dismiss } = useOutbox();
+  const handledIds = useRef(new Set<string>());
+
+  const hasQueued = items.some(item => item.status === "queued");
+
+  useEffect(() => {
+    if (!user || !isOnline || !hasQueued) return;
+
+    // After a reload offline the session has no access token yet
+    const replayQueued = async () => {
+      if (!tokenStorage.getToken() && !(await reloadAccessToken())) return;
+      const token = tokenStorage.getToken();
+      if (token) {
+        await replay({ userId: user.id, token });
+      }
+    };
+
+    const replayOrLog = () => {
+      replayQueued().catch(error => console.error("Outbox replay failed:", error));
+    };
+
+    replayOrLog();
+    const interval = setInterval(replayOrLog, REPLAY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, isOnline, hasQueued, replay]);
+
+  useEffect(() => {
+    items
+      .filter(item => item.status === "sent" && !handledIds.current.has(item.id))
+      .forEach(item => {
+        handledIds.current.add(item.id);
+        setTimeout(() => dismiss(item.id), SENT_VISIBLE_MS);
+
+        const token = tokenStorage.getToken();
+        if (item.mutation.type === "updateUserProfile" && token) {
+          getUserProfile(token)
+            .then(profile => updateUser(convertUserProfileToUser(profile)))
+            .catch(error => console.error("Failed to refresh the profile:", error));
+        }
+      });
+  }, [items, dismiss, updateUser]);
+
+  if (!user || items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      className="fixed inset-x-4 top-20 z-50 mx-auto max-w-md rounded-[10px] border bg-background px-4 py-2 shadow-lg"
+      aria-label={t("title")}
+      aria-live="polite"
+    >
+      {!isOnline && hasQueued && (
+        <p className="flex items-center gap-2 border-b pb-2 text-sm font-medium text-foreground">
+          <CloudOff className="h-4 w-4" />
+          {t("offline")}
+        </p>
+      )}
+      <ul className="divide-y">
+        {items.map(item => (
+          <OutboxRow key={item.id} item={item} />
+        ))}
+      </ul>
+    </section>
+  );
+}
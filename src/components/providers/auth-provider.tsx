@@ -3,9 +3,28 @@
 import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import type { User } from '@/lib/auth';
-import { checkAuthStatus, logoutUser, tokenStorage, userStorage } from '@/lib/auth';
-import { httpInterceptor } from '@/lib/http-interceptor';
+import {
+  clearLocalSession,
+  logoutUser,
+  reloadAccessToken,
+  restoreSession,
+  setupTokenRefresh,
+  tokenStorage,
+  userStorage,
+} from '@/lib/auth';
+import { clearHttpCache, clearOutbox, clearQueryCache } from '@/lib/api';
+import { broadcastSession, subscribeSession } from '@/lib/session-sync';
 import type { Locale } from '@/i18n';
+import {
+  RETURN_TO_PARAM,
+  SESSION_END_PARAM,
+  checkRouteAccess,
+  findRouteRule,
+  getAccessRedirect,
+  sanitizeReturnTo,
+  splitLocale,
+} from '@/lib/route-protection';
+import type { SessionEndReason } from '@/lib/route-protection';
 import { AuthLoading } from '@/components/auth/auth-loading';
 
 interface AuthContextType {
@@ -13,8 +32,8 @@ interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   requiresProfileCompletion: boolean;
-  login: (user: User, token: string) => void;
-  logout: () => void;
+  login: (user: User, token: string | null, returnTo?: string | null) => void;
+  logout: (reason?: SessionEndReason) => void;
   updateUser: (user: User) => void;
 }
 
@@ -34,19 +53,34 @@ export function AuthProvider({ children, locale }: AuthProviderProps) {
   const router = useRouter();
   const pathname = usePathname();
 
-  const logout = useCallback(() => {
-    logoutUser();
+  /**
+   * Logs out; when the session ended on its own (expiry or inactivity) the
+   * user is sent to the login page and returned to the current page afterwards
+   */
+  const logout = useCallback((reason?: SessionEndReason) => {
+    logoutUser(reason);
     setUser(null);
     setIsAuthenticated(false);
     setRequiresProfileCompletion(false);
-    router.replace(`/${locale}/store`);
+
+    if (!reason) {
+      router.replace(`/${locale}/store`);
+      return;
+    }
+
+    const params = new URLSearchParams({ [SESSION_END_PARAM]: reason });
+    if (!window.location.pathname.includes('/auth/')) {
+      params.set(RETURN_TO_PARAM, `${window.location.pathname}${window.location.search}`);
+    }
+    router.replace(`/${locale}/auth/login?${params}`);
   }, [locale, router]);
 
-  // Check authentication status on mount
+  // Restore the cookie session on mount
   useEffect(() => {
-    const checkAuth = () => {
+    const checkAuth = async () => {
       try {
-        const authStatus = checkAuthStatus();
+        const authStatus = await restoreSession();
+
         setIsAuthenticated(authStatus.isAuthenticated);
         setUser(authStatus.user);
         setRequiresProfileCompletion(authStatus.requiresProfileCompletion);
@@ -60,49 +94,139 @@ export function AuthProvider({ children, locale }: AuthProviderProps) {
       }
     };
 
-    // Set up the logout callback for the HTTP interceptor
-    httpInterceptor.setLogoutCallback(logout);
+    // Refresh expired access tokens transparently; log out only if that fails
+    setupTokenRefresh(() => logout('expired'));
 
-    checkAuth();
+    void checkAuth();
   }, [locale, router, logout]);
 
-  // Handle route protection (very permissive - only handle auth pages and profile completion)
+  // Reconcile with session changes made in other tabs
+  useEffect(() => {
+    const applyUser = (userData: User | null) => {
+      setUser(userData);
+      setIsAuthenticated(!!userData);
+      setRequiresProfileCompletion(userData ? !userData.profileCompleted : false);
+    };
+
+    const endLocalSession = () => {
+      clearLocalSession();
+      applyUser(null);
+    };
+
+    return subscribeSession(message => {
+      switch (message.type) {
+        case 'logout':
+          endLocalSession();
+          // The user logged out on purpose in the other tab
+          if (message.discardOutboxOf) {
+            clearOutbox(message.discardOutboxOf);
+          }
+          break;
+
+        case 'login':
+          // Cached responses may belong to the previous user
+          clearQueryCache();
+          clearHttpCache();
+          applyUser(message.user);
+          reloadAccessToken()
+            .then(hasSession => !hasSession && endLocalSession())
+            .catch(error => console.error('Session sync failed:', error));
+          break;
+
+        case 'userUpdated':
+          applyUser(message.user);
+          break;
+
+        case 'tokenRefreshed':
+          reloadAccessToken()
+            .then(hasSession => !hasSession && endLocalSession())
+            .catch(error => console.error('Session sync failed:', error));
+          break;
+      }
+    });
+  }, []);
+
+  // A session that could not be restored offline is restored once back online
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const handleOnline = () => {
+      if (tokenStorage.getToken()) return;
+      restoreSession()
+        .then(authStatus => {
+          if (!authStatus.isAuthenticated) {
+            logout('expired');
+          }
+        })
+        .catch(error => console.error('Session restore failed:', error));
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isAuthenticated, logout]);
+
+  // Handle route protection on client-side navigation (the middleware covers page loads)
   useEffect(() => {
     if (isLoading) return;
 
     const isAuthRoute = pathname.includes('/auth/');
+    const { path } = splitLocale(pathname);
+    const profile = user
+      ? { profileCompleted: !requiresProfileCompletion, role: user.role, provider: user.provider }
+      : null;
+
+    const access = checkRouteAccess(path, { isAuthenticated: isAuthenticated && !!user, profile });
+    if (access !== 'allow') {
+      router.replace(getAccessRedirect(access, locale, `${pathname}${window.location.search}`, profile));
+      return;
+    }
     
-    // If user is authenticated
-    if (isAuthenticated && user) {
-      // If user needs to complete profile and is trying to access dashboard specifically
-      if (requiresProfileCompletion && pathname.includes('/dashboard')) {
-        router.replace(`/${locale}/auth/complete-profile?provider=${user.provider}&firstName=${user.firstName}&lastName=${user.lastName}&email=${user.email}`);
-        return;
-      }
-      
-      // If profile is completed and user is on auth pages (except complete-profile), redirect to store
-      if (!requiresProfileCompletion && isAuthRoute && !pathname.includes('/complete-profile')) {
-        router.replace(`/${locale}/store`);
-        return;
-      }
+    // If profile is completed and user is on auth pages (except profile completion, password reset, email verification
+    // links and the provider callback, which also confirms a signed-in user's identity), go back or to the store
+    const isAuthRouteForSignedIn = pathname.includes('/complete-profile') || pathname.includes('/reset-password')
+      || pathname.includes('/verify-email') || pathname.includes('/auth/callback/');
+    if (isAuthenticated && user && !requiresProfileCompletion && isAuthRoute && !isAuthRouteForSignedIn) {
+      const returnTo = sanitizeReturnTo(new URLSearchParams(window.location.search).get(RETURN_TO_PARAM));
+      router.replace(returnTo ?? `/${locale}/store`);
+      return;
     }
     
-    // Don't block any routes - let users navigate freely
-    // Authentication will be handled at the action level (download, etc.)
+    // Public routes are not blocked - authentication for actions (download, etc.) is handled where they happen
   }, [isAuthenticated, user, requiresProfileCompletion, pathname, locale, router, isLoading]);
 
-  const login = (userData: User, token: string) => {
-    tokenStorage.setToken(token);
+  /**
+   * Stores the signed-in user and redirects; a null token keeps the current
+   * one (e.g. a profile completed offline before the session was restored)
+   */
+  const login = (userData: User, token: string | null, returnTo?: string | null) => {
+    if (token) {
+      tokenStorage.setToken(token);
+    }
     userStorage.setUser(userData);
+    // Cached responses may belong to the previous user (or to nobody); queries
+    // in use refetch right away, so the token has to be stored first
+    clearQueryCache();
+    clearHttpCache();
     setUser(userData);
     setIsAuthenticated(true);
     setRequiresProfileCompletion(!userData.profileCompleted);
+    broadcastSession({ type: 'login', user: userData });
     
+    // Return to the page that required signing in, if any
+    const target = sanitizeReturnTo(returnTo ?? new URLSearchParams(window.location.search).get(RETURN_TO_PARAM));
+
     // Redirect based on profile completion status
     if (!userData.profileCompleted) {
-      router.replace(`/${locale}/auth/complete-profile?provider=${userData.provider}&firstName=${userData.firstName}&lastName=${userData.lastName}&email=${userData.email}`);
+      const params = new URLSearchParams({
+        provider: userData.provider ?? 'email',
+        firstName: userData.firstName,
+        lastName: userData.lastName,
+        email: userData.email,
+        ...(target ? { [RETURN_TO_PARAM]: target } : {}),
+      });
+      router.replace(`/${locale}/auth/complete-profile?${params}`);
     } else {
-      router.replace(`/${locale}/store`);
+      router.replace(target ?? `/${locale}/store`);
     }
   };
 
@@ -110,6 +234,7 @@ export function AuthProvider({ children, locale }: AuthProviderProps) {
     userStorage.setUser(userData);
     setUser(userData);
     setRequiresProfileCompletion(!userData.profileCompleted);
+    broadcastSession({ type: 'userUpdated', user: userData });
   };
 
   const value = {
@@ -122,15 +247,16 @@ export function AuthProvider({ children, locale }: AuthProviderProps) {
     updateUser
   };
 
-  // Show loading screen while checking authentication
-  if (isLoading) {
-    const loadingMessage = locale === 'ar' ? 'جاري التحميل...' : 'Loading...';
-    return <AuthLoading message={loadingMessage} />;
-  }
+  // Protected and auth pages wait for the session. Every other page renders
+  // right away - also on the server, so its content is in the first HTML -
+  // and components that depend on the user check `isLoading` themselves.
+  const waitsForSession = isLoading && (findRouteRule(splitLocale(pathname).path) !== null || pathname.includes('/auth/'));
 
   return (
     <AuthContext.Provider value={value}>
-      {children}
+      {waitsForSession
+        ? <AuthLoading message={locale === 'ar' ? 'جاري التحميل...' : 'Loading...'} />
+        : children}
     </AuthContext.Provider>
   );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { Input } from '@/components/ui/input';
@@ -21,9 +21,11 @@ import {
 import type { Locale } from '@/i18n';
 import { spacing } from '@/lib/styles/logical';
 import { cn } from '@/lib/utils';
-import { getPublisherDetails, getAssets } from '@/lib/api';
+import { getPublisherDetails, getAssets, queryKeys } from '@/lib/api';
+import { useApiQuery } from '@/hooks/use-api-query';
 import { convertListAssetToAsset } from '@/lib/utils';
 import { tokenStorage } from '@/lib/auth';
+import type { DetailPublisherOut } from '@/lib/types/api/assets.types';
 import { env } from '../../lib/env';
 
 // Publisher details type (from API)
@@ -64,24 +66,19 @@ interface Asset {
 interface PublisherProfileProps {
   publisherId: string;
   locale: Locale;
+  /** Publisher fetched on the server, rendered before the client fetch */
+  initialData?: DetailPublisherOut;
 }
 
-export function PublisherProfile({ publisherId, locale }: PublisherProfileProps) {
+export function PublisherProfile({ publisherId, locale, initialData }: PublisherProfileProps) {
   const t = useTranslations();
-  const [publisher, setPublisher] = useState<ApiPublisherDetails | null>(null);
-  const [assets, setAssets] = useState<Asset[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [selectedLicenses, setSelectedLicenses] = useState<string[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
-  const [totalCount, setTotalCount] = useState(0);
   const [isCategoryFilterOpen, setIsCategoryFilterOpen] = useState(false);
   const [isLicenseFilterOpen, setIsLicenseFilterOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isAssetsLoading, setIsAssetsLoading] = useState(false);
-  const [error, setError] = useState<string>('');
-  const [assetsError, setAssetsError] = useState<string | null>(null);
   const itemsPerPage = 10;
 
   // Debounce search query to avoid too many API calls
@@ -95,100 +92,79 @@ export function PublisherProfile({ publisherId, locale }: PublisherProfileProps)
   }, [searchQuery]);
 
   // Fetch publisher details
-  useEffect(() => {
-    const fetchPublisherData = async () => {
-      setIsLoading(true);
-      setError('');
-      
-      try {
-        const token = tokenStorage.getToken();
-        const publisherData = await getPublisherDetails(parseInt(publisherId), token || undefined);
-        
-        // Use publisher data directly
-        setPublisher(publisherData as ApiPublisherDetails);
-      } catch (err) {
-        console.error('Error fetching publisher data:', err);
-        setError(err instanceof Error ? err.message : t('ui.publisherNotFound'));
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchPublisherData();
-  }, [publisherId, t]);
+  const publisherQuery = useApiQuery(
+    queryKeys.publishers.detail(parseInt(publisherId)),
+    ({ signal }) => getPublisherDetails(parseInt(publisherId), tokenStorage.getToken() || undefined, { signal }),
+    { initialData }
+  );
+  const publisher = (publisherQuery.data as ApiPublisherDetails | undefined) ?? null;
+  const isLoading = publisherQuery.isLoading;
+  const error = publisherQuery.error && !publisherQuery.data
+    ? (publisherQuery.error instanceof Error ? publisherQuery.error.message : t('ui.publisherNotFound'))
+    : '';
 
-  // Load assets from API with publisher filter
-  useEffect(() => {
-    const loadAssets = async () => {
-      try {
-        setIsAssetsLoading(true);
-        setAssetsError(null);
-        
-        const token = tokenStorage.getToken();
-        const filters: { category?: string[]; license_code?: string[]; search?: string; page?: number; page_size?: number; publisher_id?: number } = {
-          page: currentPage,
-          page_size: itemsPerPage,
-          publisher_id: parseInt(publisherId)
-        };
-        
-        // Apply search filter if provided
-        if (debouncedSearchQuery.trim()) {
-          filters.search = debouncedSearchQuery.trim();
-        }
-        
-        // Apply category filter if selected - support multiple categories
-        if (selectedCategories.length > 0) {
-          const categoryMap: { [key: string]: string } = {
-            'translation': 'mushaf',
-            'tafsir': 'tafsir',
-            'audio': 'recitation'
-          };
-          const mappedCategories = selectedCategories
-            .map(cat => categoryMap[cat])
-            .filter(Boolean); // Remove undefined values
-          if (mappedCategories.length > 0) {
-            filters.category = mappedCategories;
-          }
-        }
-        
-        // Apply license filter if selected - support multiple licenses
-        if (selectedLicenses.length > 0) {
-          const licenseMap: { [key: string]: string } = {
-            'CC0/ Public Domain': 'CC0',
-            'CC BY': 'CC-BY',
-            'CC BY-SA': 'CC-BY-SA',
-            'CC BY-ND': 'CC-BY-ND',
-            'CC BY-NC': 'CC-BY-NC',
-            'CC BY-NC-SA': 'CC-BY-NC-SA',
-            'CC BY-NC-ND': 'CC-BY-NC-ND'
-          };
-          const mappedLicenses = selectedLicenses
-            .map(license => licenseMap[license])
-            .filter(Boolean); // Remove undefined values
-          if (mappedLicenses.length > 0) {
-            filters.license_code = mappedLicenses;
-          }
-        }
-        
-        console.log('Sending filters to API:', filters);
-        const response = await getAssets(token || undefined, filters);
-        const apiAssets = response.results.map(convertListAssetToAsset);
-        setAssets(apiAssets);
-        setTotalCount(response.count);
-      } catch (err) {
-        console.error('Failed to load assets:', err);
-        setAssetsError(err instanceof Error ? err.message : t('ui.loadingAssetsError'));
-        setAssets([]); // Set empty array on error
-      } finally {
-        setIsAssetsLoading(false);
-      }
+  // Build API filters from the selected UI filters
+  const filters = useMemo(() => {
+    const apiFilters: { category?: string[]; license_code?: string[]; search?: string; page?: number; page_size?: number; publisher_id?: number } = {
+      page: currentPage,
+      page_size: itemsPerPage,
+      publisher_id: parseInt(publisherId)
     };
-
-    // Only load assets if we have a valid publisherId
-    if (publisherId) {
-      loadAssets();
+    
+    // Apply search filter if provided
+    if (debouncedSearchQuery.trim()) {
+      apiFilters.search = debouncedSearchQuery.trim();
+    }
+    
+    // Apply category filter if selected - support multiple categories
+    if (selectedCategories.length > 0) {
+      const categoryMap: { [key: string]: string } = {
+        'translation': 'mushaf',
+        'tafsir': 'tafsir',
+        'audio': 'recitation'
+      };
+      const mappedCategories = selectedCategories
+        .map(cat => categoryMap[cat])
+        .filter(Boolean); // Remove undefined values
+      if (mappedCategories.length > 0) {
+        apiFilters.category = mappedCategories;
+      }
     }
-  }, [selectedCategories, selectedLicenses, debouncedSearchQuery, currentPage, publisherId, t]);
+    
+    // Apply license filter if selected - support multiple licenses
+    if (selectedLicenses.length > 0) {
+      const licenseMap: { [key: string]: string } = {
+        'CC0/ Public Domain': 'CC0',
+        'CC BY': 'CC-BY',
+        'CC BY-SA': 'CC-BY-SA',
+        'CC BY-ND': 'CC-BY-ND',
+        'CC BY-NC': 'CC-BY-NC',
+        'CC BY-NC-SA': 'CC-BY-NC-SA',
+        'CC BY-NC-ND': 'CC-BY-NC-ND'
+      };
+      const mappedLicenses = selectedLicenses
+        .map(license => licenseMap[license])
+        .filter(Boolean); // Remove undefined values
+      if (mappedLicenses.length > 0) {
+        apiFilters.license_code = mappedLicenses;
+      }
+    }
+    
+    return apiFilters;
+  }, [selectedCategories, selectedLicenses, debouncedSearchQuery, currentPage, publisherId]);
+
+  // Load assets from API with publisher filter (only with a valid publisherId)
+  const assetsQuery = useApiQuery(
+    queryKeys.assets.list(filters),
+    ({ signal }) => getAssets(tokenStorage.getToken() || undefined, filters, { signal }),
+    { enabled: !!publisherId }
+  );
+  const assets: Asset[] = useMemo(() => assetsQuery.data?.results.map(convertListAssetToAsset) ?? [], [assetsQuery.data]);
+  const totalCount = assetsQuery.data?.count ?? 0;
+  const isAssetsLoading = assetsQuery.isLoading;
+  const assetsError = assetsQuery.error && !assetsQuery.data
+    ? (assetsQuery.error instanceof Error ? assetsQuery.error.message : t('ui.loadingAssetsError'))
+    : null;
 
 
   const categories = [
@@ -483,12 +459,7 @@ export function PublisherProfile({ publisherId, locale }: PublisherProfileProps)
               <div className="text-center py-12">
                 <p className="text-muted-foreground mb-4">{assetsError}</p>
                 <Button 
-                  onClick={() => {
-                    setAssetsError(null);
-                    setIsAssetsLoading(true);
-                    // Trigger reload by changing a dependency
-                    setCurrentPage(1);
-                  }}
+                  onClick={() => assetsQuery.refetch()}
                   variant="outline"
                 >
                   Try Again
@@ -7,8 +7,18 @@ import { Label } from '@/components/ui/label';
 import { formLogical } from '@/lib/styles/logical';
 import { cn } from '@/lib/utils';
 import { useTranslations } from 'next-intl';
-import { requestAssetAccess } from '@/lib/api';
+import {
+  accessRequestMutation,
+  sendOrQueue,
+  ApiAuthError,
+  ApiConflictError,
+  ApiPermissionError,
+  ApiRateLimitError,
+  ApiValidationError,
+} from '@/lib/api';
 import { tokenStorage } from '@/lib/auth';
+import { useAuth } from '@/components/providers/auth-provider';
+import { useDraft } from '@/hooks/use-draft';
 
 interface AccessRequestFormProps {
   assetId: number;
@@ -19,13 +29,21 @@ interface AccessRequestFormProps {
 
 export function AccessRequestForm({ assetId, assetTitle, onSuccess, onCancel }: AccessRequestFormProps) {
   const t = useTranslations();
-  const [formData, setFormData] = useState({
+  const { user } = useAuth();
+  // Kept as a draft, so a justification survives having to sign in again
+  const {
+    value: formData,
+    setValue: setFormData,
+    clearDraft,
+    isRestored
+  } = useDraft(`access-request:${assetId}`, {
     purpose: '',
     intended_use: 'non-commercial' as 'commercial' | 'non-commercial'
   });
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isLoading, setIsLoading] = useState(false);
   const [submitError, setSubmitError] = useState<string>('');
+  const [isQueued, setIsQueued] = useState(false);
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -68,15 +86,24 @@ export function AccessRequestForm({ assetId, assetTitle, onSuccess, onCancel }:
     setSubmitError('');
     
     try {
-      const token = tokenStorage.getToken();
-      if (!token) {
+      if (!user) {
         throw new Error(t('ui.unauthorized'));
       }
 
-      const response = await requestAssetAccess(assetId, {
+      // Offline submissions (also those made before the session could be
+      // restored) are kept in the outbox and sent once the connection returns
+      const token = tokenStorage.getToken();
+      const outcome = await sendOrQueue(accessRequestMutation(assetId, {
         purpose: formData.purpose,
         intended_use: formData.intended_use
-      }, token);
+      }), { userId: user.id, token }, assetTitle);
+
+      clearDraft();
+      if (outcome.status === 'queued') {
+        setIsQueued(true);
+        return;
+      }
+      const response = outcome.result;
 
       // Handle success based on response
       // New API returns AccessRequestResponseOut with request and access fields
@@ -89,12 +116,39 @@ export function AccessRequestForm({ assetId, assetTitle, onSuccess, onCancel }:
       }
     } catch (error) {
       console.error('Access request error:', error);
-      setSubmitError(error instanceof Error ? error.message : t('ui.accessRequestFailed'));
+      
+      if (error instanceof ApiValidationError && Object.keys(error.fieldErrors).length > 0) {
+        setErrors(error.fieldErrors);
+      } else if (error instanceof ApiAuthError) {
+        setSubmitError(t('ui.unauthorized'));
+      } else if (error instanceof ApiPermissionError && error.errorName === 'EMAIL_NOT_VERIFIED') {
+        setSubmitError(t('emailVerification.requiredForDownloads'));
+      } else if (error instanceof ApiPermissionError) {
+        setSubmitError(t('errors.permissionDenied'));
+      } else if (error instanceof ApiConflictError) {
+        setSubmitError(t('ui.accessAlreadyRequested'));
+      } else if (error instanceof ApiRateLimitError) {
+        setSubmitError(t('errors.tooManyRequests'));
+      } else {
+        setSubmitError(error instanceof Error ? error.message : t('ui.accessRequestFailed'));
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (isQueued) {
+    return (
+      <div className="space-y-6 text-center">
+        <h3 className="text-lg font-medium">{t('outbox.accessRequestQueuedTitle')}</h3>
+        <p className="text-sm text-muted-foreground">{t('outbox.accessRequestQueued')}</p>
+        <Button type="button" onClick={onCancel}>
+          {t('common.close')}
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="text-center mb-6">
@@ -104,6 +158,12 @@ export function AccessRequestForm({ assetId, assetTitle, onSuccess, onCancel }:
         </p>
       </div>
 
+      {isRestored && (
+        <p className="text-sm text-muted-foreground text-center" role="status">
+          {t('ui.draftRestored')}
+        </p>
+      )}
+
       {/* Show submit error */}
       {submitError && (
         <div className="p-3 rounded-md border bg-destructive/10 border-destructive/20 text-destructive text-sm text-center">
@@ -164,7 +224,10 @@ export function AccessRequestForm({ assetId, assetTitle, onSuccess, onCancel }:
         <Button 
           type="button" 
           variant="outline" 
-          onClick={onCancel}
+          onClick={() => {
+            clearDraft();
+            onCancel();
+          }}
           disabled={isLoading}
         >
           {t('common.cancel')}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useMemo } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
@@ -40,9 +40,11 @@ import type { Locale } from "@/i18n";
 import { direction } from "@/lib/styles/logical";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/components/providers/auth-provider";
-import { getAssetDetails, downloadAsset, downloadOriginalResource } from "@/lib/api";
-import { downloadFileFromUrl } from "@/lib/utils";
-import { tokenStorage } from "@/lib/auth";
+import { getAssetDetails, downloadAsset, downloadOriginalResource, queryKeys } from "@/lib/api";
+import type { DetailAssetOut } from "@/lib/types/api/assets.types";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { startDownload } from "@/lib/download-manager";
+import { isEmailVerified, tokenStorage } from "@/lib/auth";
 import { useTranslations } from "next-intl";
 import { env } from "@/lib/env";
 
@@ -114,127 +116,116 @@ interface AssetDetailsType {
   }>;
 }
 
+/**
+ * Converts the API asset detail response to the shape used by this page
+ */
+function toAssetDetails(assetData: DetailAssetOut): AssetDetailsType {
+  return {
+    id: assetData.id,
+    title: assetData.name,
+    description: assetData.description,
+    long_description: assetData.long_description,
+    thumbnail_url: assetData.thumbnail_url,
+    category: assetData.category as 'mushaf' | 'tafsir' | 'recitation',
+    license: {
+      code: assetData.license.toLowerCase().replace(/\s+/g, '-'),
+      name: assetData.license,
+      short_name: assetData.license,
+      url: '',
+      icon_url: '',
+      summary: '',
+      full_text: '',
+      legal_code_url: '',
+      license_terms: [],
+      permissions: [],
+      conditions: [],
+      limitations: [],
+      usage_count: 0,
+      is_default: false,
+    },
+    snapshots: assetData.snapshots.map((snapshot: { image_url: string; title: string; description: string }) => ({
+      thumbnail_url: snapshot.image_url,
+      title: snapshot.title,
+      description: snapshot.description,
+    })),
+    publisher: {
+      id: assetData.publisher.id,
+      name: assetData.publisher.name,
+      thumbnail_url: '',
+      bio: assetData.publisher.description || '',
+      verified: false,
+    },
+    resource: {
+      id: assetData.resource.id,
+      title: `Resource ${assetData.resource.id}`,
+      description: 'Resource description not available',
+    },
+    technical_details: {
+      file_size: 'Unknown',
+      format: 'Unknown',
+      encoding: 'Unknown',
+      version: 'Unknown',
+      language: 'Unknown',
+    },
+    stats: {
+      download_count: 0,
+      view_count: 0,
+      created_at: '',
+      updated_at: '',
+    },
+    access: {
+      has_access: false, // Should be checked separately
+      requires_approval: false,
+    },
+    related_assets: [],
+  };
+}
+
 interface AssetDetailsProps {
   assetId: string;
   locale: Locale;
+  /** Asset fetched on the server, rendered before the client fetch */
+  initialData?: DetailAssetOut;
 }
 
-export function AssetDetails({ assetId, locale }: AssetDetailsProps) {
+export function AssetDetails({ assetId, locale, initialData }: AssetDetailsProps) {
   const t = useTranslations();
-  const { user } = useAuth();
+  const { user, isLoading: isAuthLoading } = useAuth();
   const router = useRouter();
-  const [asset, setAsset] = useState<AssetDetailsType | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [showAccessRequest, setShowAccessRequest] = useState(false);
   const [showLicenseCarousel, setShowLicenseCarousel] = useState(false);
   const isRTL = direction.isRTL(locale);
 
-  useEffect(() => {
-    const fetchAsset = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        
-        const token = tokenStorage.getToken();
-        console.log('Loading asset details for ID:', assetId);
-        
-        const assetData = await getAssetDetails(parseInt(assetId), token || undefined);
-        console.log('Asset data received:', assetData);
-        
-        if (!assetData) {
-          console.error('No asset data received from API');
-          setError(t('ui.noAssetDataReceived'));
-          setAsset(null);
-          return;
-        }
-        
-        // API now returns asset data directly
-        if (!assetData.id) {
-          console.error('Invalid asset data structure');
-          setError(t('ui.invalidAssetDataStructure'));
-          setAsset(null);
-          return;
-        }
-        
-        // Convert new API format to expected format
-        const convertedAsset: AssetDetailsType = {
-          id: assetData.id,
-          title: assetData.name,
-          description: assetData.description,
-          long_description: assetData.long_description,
-          thumbnail_url: assetData.thumbnail_url,
-          category: assetData.category as 'mushaf' | 'tafsir' | 'recitation',
-          license: {
-            code: assetData.license.toLowerCase().replace(/\s+/g, '-'),
-            name: assetData.license,
-            short_name: assetData.license,
-            url: '',
-            icon_url: '',
-            summary: '',
-            full_text: '',
-            legal_code_url: '',
-            license_terms: [],
-            permissions: [],
-            conditions: [],
-            limitations: [],
-            usage_count: 0,
-            is_default: false,
-          },
-          snapshots: assetData.snapshots.map((snapshot: { image_url: string; title: string; description: string }) => ({
-            thumbnail_url: snapshot.image_url,
-            title: snapshot.title,
-            description: snapshot.description,
-          })),
-          publisher: {
-            id: assetData.publisher.id,
-            name: assetData.publisher.name,
-            thumbnail_url: '',
-            bio: assetData.publisher.description || '',
-            verified: false,
-          },
-          resource: {
-            id: assetData.resource.id,
-            title: `Resource ${assetData.resource.id}`,
-            description: 'Resource description not available',
-          },
-          technical_details: {
-            file_size: 'Unknown',
-            format: 'Unknown',
-            encoding: 'Unknown',
-            version: 'Unknown',
-            language: 'Unknown',
-          },
-          stats: {
-            download_count: 0,
-            view_count: 0,
-            created_at: '',
-            updated_at: '',
-          },
-          access: {
-            has_access: false, // Should be checked separately
-            requires_approval: false,
-          },
-          related_assets: [],
-        };
-        
-        setAsset(convertedAsset);
-        console.log('Asset set successfully:', assetData);
-      } catch (err) {
-        console.error('Error loading asset details:', err);
-        setError(err instanceof Error ? err.message : t('ui.assetNotFound'));
-        setAsset(null);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  // Load the asset (cached, so returning from the store does not refetch)
+  const assetQuery = useApiQuery(
+    queryKeys.assets.detail(parseInt(assetId)),
+    ({ signal }) => getAssetDetails(parseInt(assetId), tokenStorage.getToken() || undefined, { signal }),
+    { initialData }
+  );
+  const assetData = assetQuery.data;
+  const isLoading = assetQuery.isLoading;
+  const asset = useMemo(() => (assetData ? toAssetDetails(assetData) : null), [assetData]);
+
+  // Cached data stays visible if a background revalidation fails.
+  // The response shape is checked against the asset schema by the service.
+  let loadError: string | null = null;
+  if (!assetData && assetQuery.error) {
+    loadError = assetQuery.error instanceof Error ? assetQuery.error.message : t('ui.assetNotFound');
+  } else if (!assetData && !isLoading) {
+    loadError = t('ui.noAssetDataReceived');
+  }
+  const error = actionError || loadError;
 
-    fetchAsset();
-  }, [assetId, t]);
+  // Unverified accounts can browse, but not request access or download
+  const needsVerification = !!user && !isEmailVerified(user);
 
 
 
   const handleDownloadClick = () => {
+    // The session is still being restored
+    if (isAuthLoading) return;
+
     // Check if user is authenticated
     if (!user) {
       // Navigate to login if not authenticated, but preserve the current page in the URL for potential return
@@ -245,6 +236,7 @@ export function AssetDetails({ assetId, locale }: AssetDetailsProps) {
       );
       return;
     }
+    if (needsVerification) return;
     setShowAccessRequest(true);
   };
 
@@ -259,18 +251,25 @@ export function AssetDetails({ assetId, locale }: AssetDetailsProps) {
       }
 
       const downloadResponse = await downloadAsset(asset.id, token);
-      
-      // Navigate to the download URL to trigger download
-      downloadFileFromUrl(downloadResponse.download_url);
+
+      // Stream the file through the download manager (progress, resume, checksum)
+      startDownload({
+        url: downloadResponse.download_url,
+        fileName: asset.title,
+        checksumSha256: downloadResponse.checksum_sha256,
+      });
       
       setShowLicenseCarousel(false);
     } catch (err) {
       console.error('Error downloading asset:', err);
-      setError(err instanceof Error ? err.message : t('ui.downloadFailed'));
+      setActionError(err instanceof Error ? err.message : t('ui.downloadFailed'));
     }
   };
 
   const handleDownloadOriginalResourceClick = () => {
+    // The session is still being restored
+    if (isAuthLoading) return;
+
     // Check if user is authenticated
     if (!user) {
       // Navigate to login if not authenticated, but preserve the current page in the URL for potential return
@@ -281,6 +280,7 @@ export function AssetDetails({ assetId, locale }: AssetDetailsProps) {
       );
       return;
     }
+    if (needsVerification) return;
     handleDownloadOriginalResource();
   };
 
@@ -295,11 +295,15 @@ export function AssetDetails({ assetId, locale }: AssetDetailsProps) {
 
       const downloadResponse = await downloadOriginalResource(asset.resource.id, token);
 
-      // Navigate to the download URL to trigger download
-      downloadFileFromUrl(downloadResponse.download_url);
+      // Stream the file through the download manager (progress, resume, checksum)
+      startDownload({
+        url: downloadResponse.download_url,
+        fileName: asset.resource.title,
+        checksumSha256: downloadResponse.checksum_sha256,
+      });
     } catch (err) {
       console.error('Error downloading original resource:', err);
-      setError(err instanceof Error ? err.message : t('ui.downloadFailed'));
+      setActionError(err instanceof Error ? err.message : t('ui.downloadFailed'));
     }
   };
 
@@ -519,7 +523,7 @@ export function AssetDetails({ assetId, locale }: AssetDetailsProps) {
                 variant="outline"
                 size="lg"
                 className="w-full justify-center cursor-pointer mt-2"
-                disabled={!asset.resource?.id}
+                disabled={!asset.resource?.id || needsVerification || isAuthLoading}
               >
                 {t('ui.downloadOriginalResource')}
                 <CloudDownload className="h-4 w-4 ms-2" />
@@ -529,10 +533,17 @@ export function AssetDetails({ assetId, locale }: AssetDetailsProps) {
                 onClick={handleDownloadClick}
                 size="lg"
                 className="w-full justify-center bg-primary-600 hover:bg-primary-700 text-white cursor-pointer"
+                disabled={needsVerification || isAuthLoading}
               >
                 {t('ui.downloadResource')}
                 <CloudDownload className="h-4 w-4 ms-2" />
               </Button>
+
+              {needsVerification && (
+                <p className="text-sm text-muted-foreground text-center">
+                  {t('emailVerification.requiredForDownloads')}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import { useTranslations } from 'next-intl';
 import { Input } from '@/components/ui/input';
@@ -20,7 +20,8 @@ import {
 import type { Locale } from '@/i18n';
 import { spacing } from '@/lib/styles/logical';
 import { cn } from '@/lib/utils';
-import { getAssets } from '@/lib/api';
+import { getAssets, getAssetDetails, prefetchQuery, queryKeys } from '@/lib/api';
+import { useApiQuery } from '@/hooks/use-api-query';
 import { convertListAssetToAsset } from '@/lib/utils';
 import { tokenStorage } from '@/lib/auth';
 
@@ -51,12 +52,8 @@ export function AssetStore({ locale }: AssetStoreProps) {
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [selectedLicenses, setSelectedLicenses] = useState<string[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
-  const [assets, setAssets] = useState<Asset[]>([]);
-  const [totalCount, setTotalCount] = useState(0);
   const [isCategoryFilterOpen, setIsCategoryFilterOpen] = useState(false);
   const [isLicenseFilterOpen, setIsLicenseFilterOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const itemsPerPage = 10;
 
   // Debounce search query to avoid too many API calls
@@ -69,74 +66,64 @@ export function AssetStore({ locale }: AssetStoreProps) {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
-  // Load assets from API
-  useEffect(() => {
-    const loadAssets = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        
-        const token = tokenStorage.getToken();
-        const filters: { category?: string[]; license_code?: string[]; search?: string; page?: number; page_size?: number } = {
-          page: currentPage,
-          page_size: itemsPerPage
-        };
-        
-        // Apply search filter if provided
-        if (debouncedSearchQuery.trim()) {
-          filters.search = debouncedSearchQuery.trim();
-        }
-        
-        // Apply category filter if selected - support multiple categories
-        if (selectedCategories.length > 0) {
-          const categoryMap: { [key: string]: string } = {
-            'translation': 'mushaf',
-            'tafsir': 'tafsir',
-            'audio': 'recitation'
-          };
-          const mappedCategories = selectedCategories
-            .map(cat => categoryMap[cat])
-            .filter(Boolean); // Remove undefined values
-          if (mappedCategories.length > 0) {
-            filters.category = mappedCategories;
-          }
-        }
-        
-        // Apply license filter if selected - support multiple licenses
-        if (selectedLicenses.length > 0) {
-          const licenseMap: { [key: string]: string } = {
-            'CC0/ Public Domain': 'CC0',
-            'CC BY': 'CC-BY',
-            'CC BY-SA': 'CC-BY-SA',
-            'CC BY-ND': 'CC-BY-ND',
-            'CC BY-NC': 'CC-BY-NC',
-            'CC BY-NC-SA': 'CC-BY-NC-SA',
-            'CC BY-NC-ND': 'CC-BY-NC-ND'
-          };
-          const mappedLicenses = selectedLicenses
-            .map(license => licenseMap[license])
-            .filter(Boolean); // Remove undefined values
-          if (mappedLicenses.length > 0) {
-            filters.license_code = mappedLicenses;
-          }
-        }
-        
-        console.log('Sending filters to API:', filters);
-        const response = await getAssets(token || undefined, filters);
-        const apiAssets = response.results.map(convertListAssetToAsset);
-        setAssets(apiAssets);
-        setTotalCount(response.count);
-      } catch (err) {
-        console.error('Failed to load assets:', err);
-        setError(err instanceof Error ? err.message : t('ui.loadingAssetsError'));
-        setAssets([]); // Set empty array on error
-      } finally {
-        setIsLoading(false);
-      }
+  // Build API filters from the selected UI filters
+  const filters = useMemo(() => {
+    const apiFilters: { category?: string[]; license_code?: string[]; search?: string; page?: number; page_size?: number } = {
+      page: currentPage,
+      page_size: itemsPerPage
     };
+    
+    // Apply search filter if provided
+    if (debouncedSearchQuery.trim()) {
+      apiFilters.search = debouncedSearchQuery.trim();
+    }
+    
+    // Apply category filter if selected - support multiple categories
+    if (selectedCategories.length > 0) {
+      const categoryMap: { [key: string]: string } = {
+        'translation': 'mushaf',
+        'tafsir': 'tafsir',
+        'audio': 'recitation'
+      };
+      const mappedCategories = selectedCategories
+        .map(cat => categoryMap[cat])
+        .filter(Boolean); // Remove undefined values
+      if (mappedCategories.length > 0) {
+        apiFilters.category = mappedCategories;
+      }
+    }
+    
+    // Apply license filter if selected - support multiple licenses
+    if (selectedLicenses.length > 0) {
+      const licenseMap: { [key: string]: string } = {
+        'CC0/ Public Domain': 'CC0',
+        'CC BY': 'CC-BY',
+        'CC BY-SA': 'CC-BY-SA',
+        'CC BY-ND': 'CC-BY-ND',
+        'CC BY-NC': 'CC-BY-NC',
+        'CC BY-NC-SA': 'CC-BY-NC-SA',
+        'CC BY-NC-ND': 'CC-BY-NC-ND'
+      };
+      const mappedLicenses = selectedLicenses
+        .map(license => licenseMap[license])
+        .filter(Boolean); // Remove undefined values
+      if (mappedLicenses.length > 0) {
+        apiFilters.license_code = mappedLicenses;
+      }
+    }
+    
+    return apiFilters;
+  }, [selectedCategories, selectedLicenses, debouncedSearchQuery, currentPage]);
 
-    loadAssets();
-  }, [selectedCategories, selectedLicenses, debouncedSearchQuery, currentPage, t]);
+  // Load assets from API (cached per filter set, superseded requests are cancelled)
+  const { data, error: loadError, isLoading, refetch } = useApiQuery(
+    queryKeys.assets.list(filters),
+    ({ signal }) => getAssets(tokenStorage.getToken() || undefined, filters, { signal })
+  );
+  const assets: Asset[] = useMemo(() => data?.results.map(convertListAssetToAsset) ?? [], [data]);
+  const totalCount = data?.count ?? 0;
+  // Cached results stay visible if a background revalidation fails
+  const error = loadError && !data ? (loadError instanceof Error ? loadError.message : t('ui.loadingAssetsError')) : null;
 
   const categories = [
     { key: 'translation', label: t('categories.translation') },
@@ -159,6 +146,14 @@ export function AssetStore({ locale }: AssetStoreProps) {
   const displayAssets = assets;
   const totalPages = Math.ceil(totalCount / itemsPerPage);
 
+  // Warm the cache so the details page renders without a loading state
+  const prefetchAssetDetails = (assetId: string) => {
+    const id = parseInt(assetId);
+    prefetchQuery(queryKeys.assets.detail(id), ({ signal }) =>
+      getAssetDetails(id, tokenStorage.getToken() || undefined, { signal })
+    );
+  };
+
   const handleCategoryChange = (category: string, checked: boolean) => {
     if (checked) {
       setSelectedCategories([...selectedCategories, category]);
@@ -310,12 +305,7 @@ export function AssetStore({ locale }: AssetStoreProps) {
             <div className="text-center py-12">
               <p className="text-muted-foreground mb-4">{error}</p>
               <Button 
-                onClick={() => {
-                  setError(null);
-                  setIsLoading(true);
-                  // Trigger reload by changing a dependency
-                  setCurrentPage(1);
-                }}
+                onClick={() => refetch()}
                 variant="outline"
               >
                 Try Again
@@ -364,7 +354,11 @@ export function AssetStore({ locale }: AssetStoreProps) {
                          
                          <div className="mt-auto">
                            <Button asChild size="lg" variant="outline" className="w-full">
-                             <Link href={`/${locale}/store/asset/${asset.id}`}>
+                             <Link
+                               href={`/${locale}/store/asset/${asset.id}`}
+                               onMouseEnter={() => prefetchAssetDetails(asset.id)}
+                               onFocus={() => prefetchAssetDetails(asset.id)}
+                             >
                                {t('store.viewDetails')}
                                <Eye size={16} />
                              </Link>
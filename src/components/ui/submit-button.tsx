@@ -18,7 +18,7 @@ interface SubmitButtonProps {
   /** Additional CSS classes */
   className?: string;
   /** Button variant */
-  variant?: 'default' | 'primary' | 'outline' | 'secondary';
+  variant?: 'default' | 'primary' | 'outline' | 'secondary' | 'destructive';
   /** Button size */
   size?: 'default' | 'sm' | 'lg';
   /** Show arrow icon */
@@ -56,6 +56,7 @@ export function SubmitButton({
     variant === 'default' && "bg-primary hover:bg-primary/90 text-primary-foreground rounded-md",
     variant === 'outline' && "border border-input bg-background hover:bg-accent hover:text-accent-foreground rounded-md",
     variant === 'secondary' && "bg-secondary hover:bg-secondary/80 text-secondary-foreground rounded-md",
+    variant === 'destructive' && "bg-destructive hover:bg-destructive/90 text-white rounded-md",
     className
   );
 
@@ -0,0 +1,198 @@
+/**
+ * Custom hooks for cached API queries and mutations
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryData,
+  getQueryState,
+  hashQueryKey,
+  invalidateQueries,
+  setQueryData,
+  subscribeQuery,
+} from '@/lib/api';
+import type { QueryFetcher, QueryKey } from '@/lib/api';
+
+interface UseApiQueryOptions<T> {
+  /** Set to false to skip fetching (e.g. while an id is missing) */
+  enabled?: boolean;
+  /** How long fetched data is considered fresh, in milliseconds */
+  staleTime?: number;
+  /** Data already available (e.g. rendered on the server) used to seed the cache */
+  initialData?: T;
+  /** Revalidate stale data when the window regains focus */
+  revalidateOnFocus?: boolean;
+}
+
+interface UseApiQueryReturn<T> {
+  /** Cached data, kept while revalidating */
+  data: T | undefined;
+  /** Error from the last fetch */
+  error: unknown;
+  /** True until the first data (or error) for this key arrives */
+  isLoading: boolean;
+  /** True whenever a fetch is in flight, including background revalidation */
+  isFetching: boolean;
+  /** Fetch again, ignoring freshness */
+  refetch: () => Promise<void>;
+}
+
+interface UseApiMutationOptions<TData, TVariables> {
+  /** Query key prefixes to invalidate after a successful mutation */
+  invalidates?: QueryKey[] | ((data: TData, variables: TVariables) => QueryKey[]);
+  /** Optional success callback */
+  onSuccess?: (data: TData, variables: TVariables) => void;
+}
+
+interface UseApiMutationReturn<TData, TVariables> {
+  /** Run the mutation; rejects with the service error */
+  mutate: (variables: TVariables) => Promise<TData>;
+  /** Data returned by the last successful mutation */
+  data: TData | undefined;
+  /** Error from the last mutation */
+  error: unknown;
+  /** Whether the mutation is in flight */
+  isPending: boolean;
+  /** Clear data and error */
+  reset: () => void;
+}
+
+/**
+ * Custom hook for reading API data through the shared query cache
+ *
+ * Components using the same key share one request and one cache entry.
+ * Cached data is returned immediately and revalidated in the background
+ * once it is older than `staleTime`. The request is cancelled when no
+ * component needs the key any more.
+ *
+ * @example
+ * ```typescript
+ * const { data, error, isLoading } = useApiQuery(
+ *   queryKeys.assets.detail(assetId),
+ *   ({ signal }) => getAssetDetails(assetId, tokenStorage.getToken() || undefined, { signal })
+ * );
+ * ```
+ */
+export function useApiQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options: UseApiQueryOptions<T> = {}
+): UseApiQueryReturn<T> {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME, initialData, revalidateOnFocus = true } = options;
+
+  // Callers build a new key array on every render - only its contents matter
+  const hash = hashQueryKey(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+  const stableFetcher = useCallback<QueryFetcher<T>>(fetchOptions => fetcherRef.current(fetchOptions), []);
+
+  // Seed the cache before the first subscription reads it. Never on the
+  // server: the cache is module state shared by every request there.
+  useState(() => {
+    if (typeof window !== 'undefined' && initialData !== undefined && getQueryData(stableKey) === undefined) {
+      setQueryData(stableKey, initialData);
+    }
+  });
+
+  const subscribe = useCallback((listener: () => void) => subscribeQuery(stableKey, listener), [stableKey]);
+  const getSnapshot = useCallback(() => getQueryState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const revalidate = useCallback(() => {
+    fetchQuery(stableKey, stableFetcher, { staleTime }).catch(() => {
+      // Errors are stored on the cache entry
+    });
+  }, [stableKey, stableFetcher, staleTime]);
+
+  useEffect(() => {
+    if (enabled) {
+      revalidate();
+    }
+  }, [enabled, revalidate]);
+
+  useEffect(() => {
+    if (!enabled || !revalidateOnFocus) return;
+
+    window.addEventListener('focus', revalidate);
+    return () => window.removeEventListener('focus', revalidate);
+  }, [enabled, revalidateOnFocus, revalidate]);
+
+  const refetch = useCallback(async () => {
+    try {
+      await fetchQuery(stableKey, stableFetcher, { force: true });
+    } catch {
+      // Errors are stored on the cache entry
+    }
+  }, [stableKey, stableFetcher]);
+
+  const data = state.data ?? initialData;
+
+  return {
+    data,
+    error: state.error,
+    isLoading: enabled && data === undefined && (state.isFetching || state.error === undefined),
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
+
+/**
+ * Custom hook for running a mutation and invalidating affected queries
+ *
+ * @example
+ * ```typescript
+ * const { mutate, isPending } = useApiMutation(
+ *   (data: UpdateResourceIn) => updateResource(resourceId, data, token),
+ *   { invalidates: [queryKeys.resources.all] }
+ * );
+ * ```
+ */
+export function useApiMutation<TData, TVariables = void>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseApiMutationOptions<TData, TVariables> = {}
+): UseApiMutationReturn<TData, TVariables> {
+  const [state, setState] = useState<{ data?: TData; error?: unknown; isPending: boolean }>({
+    isPending: false,
+  });
+
+  const latest = useRef({ mutationFn, options });
+  useEffect(() => {
+    latest.current = { mutationFn, options };
+  });
+
+  const mutate = useCallback(async (variables: TVariables) => {
+    setState({ isPending: true });
+
+    try {
+      const { mutationFn: run } = latest.current;
+      const data = await run(variables);
+      const { invalidates, onSuccess } = latest.current.options;
+
+      const keys = typeof invalidates === 'function' ? invalidates(data, variables) : invalidates ?? [];
+      keys.forEach(invalidateQueries);
+      onSuccess?.(data, variables);
+
+      setState({ data, isPending: false });
+      return data;
+    } catch (error) {
+      setState({ error, isPending: false });
+      throw error;
+    }
+  }, []);
+
+  const reset = useCallback(() => setState({ isPending: false }), []);
+
+  return {
+    mutate,
+    data: state.data,
+    error: state.error,
+    isPending: state.isPending,
+    reset,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Custom hook for the in-app download manager
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  cancelDownload,
+  clearFinishedDownloads,
+  getDownloads,
+  pauseDownload,
+  removeDownload,
+  resumeDownload,
+  startDownload,
+  subscribeDownloads,
+} from '@/lib/download-manager';
+import type { DownloadItem, StartDownloadOptions } from '@/lib/download-manager';
+
+const NO_DOWNLOADS: DownloadItem[] = [];
+
+interface UseDownloadsReturn {
+  /** All downloads, oldest first */
+  downloads: DownloadItem[];
+  /** Whether any download is running or paused */
+  hasActiveDownloads: boolean;
+  /** Start a new download; returns its id */
+  start: (options: StartDownloadOptions) => string;
+  /** Pause a running download */
+  pause: (id: string) => void;
+  /** Resume a paused or failed download */
+  resume: (id: string) => void;
+  /** Cancel a download and discard its data */
+  cancel: (id: string) => void;
+  /** Remove a download from the list */
+  remove: (id: string) => void;
+  /** Remove completed and cancelled downloads */
+  clearFinished: () => void;
+}
+
+/**
+ * Hook for reading and controlling downloads
+ *
+ * Downloads live outside React, so they keep running when the component
+ * that started them unmounts.
+ *
+ * @returns Current downloads and the download actions
+ *
+ * @example
+ * ```typescript
+ * const { downloads, start } = useDownloads();
+ *
+ * const handleDownload = async () => {
+ *   const { download_url, checksum_sha256 } = await downloadAsset(asset.id, token);
+ *   start({ url: download_url, fileName: asset.name, checksumSha256: checksum_sha256 });
+ * };
+ * ```
+ */
+export function useDownloads(): UseDownloadsReturn {
+  const downloads = useSyncExternalStore(subscribeDownloads, getDownloads, () => NO_DOWNLOADS);
+
+  return {
+    downloads,
+    hasActiveDownloads: downloads.some(item =>
+      ['downloading', 'verifying', 'paused'].includes(item.status)
+    ),
+    start: startDownload,
+    pause: pauseDownload,
+    resume: resumeDownload,
+    cancel: cancelDownload,
+    remove: removeDownload,
+    clearFinished: clearFinishedDownloads,
+  };
+}
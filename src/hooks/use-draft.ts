@@ -0,0 +1,136 @@
+/**
+ * Custom hook for form drafts that survive a forced re-login
+ *
+ * Drafts are kept in localStorage per signed-in user, so they are restored
+ * when the same user signs in again after an expired or idle session, but
+ * never shown to a different user of the same browser.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { useAuth } from '@/components/providers/auth-provider';
+
+/**
+ * Prefix of the localStorage keys holding drafts
+ */
+const DRAFT_KEY_PREFIX = 'itqan_draft';
+
+/**
+ * Drafts older than this are discarded, in milliseconds
+ */
+const DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface StoredDraft<T> {
+  value: T;
+  savedAt: number;
+}
+
+interface UseDraftReturn<T> {
+  /** Current value, restored from the draft if there is one */
+  value: T;
+  /** Updates the value and saves it as the draft */
+  setValue: Dispatch<SetStateAction<T>>;
+  /** Deletes the draft and resets the value, e.g. after submitting */
+  clearDraft: () => void;
+  /** Whether the value was restored from a saved draft */
+  isRestored: boolean;
+}
+
+function getDraftKey(userId: string, key: string): string {
+  return `${DRAFT_KEY_PREFIX}:${userId}:${key}`;
+}
+
+function readDraft<T>(storageKey: string): T | null {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (!stored) return null;
+
+    const draft = JSON.parse(stored) as StoredDraft<T>;
+    if (Date.now() - draft.savedAt > DRAFT_MAX_AGE_MS) {
+      localStorage.removeItem(storageKey);
+      return null;
+    }
+    return draft.value;
+  } catch {
+    return null;
+  }
+}
+
+function writeDraft<T>(storageKey: string, value: T): void {
+  try {
+    const draft: StoredDraft<T> = { value, savedAt: Date.now() };
+    localStorage.setItem(storageKey, JSON.stringify(draft));
+  } catch {
+    // Storage full or unavailable - the draft is only kept in memory
+  }
+}
+
+/**
+ * Custom hook that keeps form state as a per-user draft
+ *
+ * Works like `useState`; every change made while signed in is saved. The
+ * draft is restored once the user is known, so it may replace the initial
+ * value after the first render.
+ *
+ * @param key - Identifies the form, e.g. `access-request:42`
+ * @param initialValue - Value when there is no draft
+ *
+ * @example
+ * ```typescript
+ * const { value, setValue, clearDraft } = useDraft(`access-request:${assetId}`, { purpose: '' });
+ * ```
+ */
+export function useDraft<T>(key: string, initialValue: T): UseDraftReturn<T> {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const [value, setValue] = useState<T>(initialValue);
+  const [isRestored, setIsRestored] = useState(false);
+
+  const initialValueRef = useRef(initialValue);
+  const restoredKeyRef = useRef<string | null>(null);
+
+  // Restore the draft once per user and form
+  useEffect(() => {
+    if (!userId) return;
+
+    const storageKey = getDraftKey(userId, key);
+    if (restoredKeyRef.current === storageKey) return;
+    restoredKeyRef.current = storageKey;
+
+    const draft = readDraft<T>(storageKey);
+    if (draft !== null) {
+      setValue(draft);
+      setIsRestored(true);
+    }
+  }, [userId, key]);
+
+  // Save changes; an untouched initial value is not a draft
+  useEffect(() => {
+    if (!userId || value === initialValueRef.current) return;
+
+    const storageKey = getDraftKey(userId, key);
+    if (restoredKeyRef.current === storageKey) {
+      writeDraft(storageKey, value);
+    }
+  }, [value, userId, key]);
+
+  const clearDraft = useCallback(() => {
+    if (userId) {
+      try {
+        localStorage.removeItem(getDraftKey(userId, key));
+      } catch {
+        // Storage unavailable - nothing was saved
+      }
+    }
+    setValue(initialValueRef.current);
+    setIsRestored(false);
+  }, [userId, key]);
+
+  return {
+    value,
+    setValue,
+    clearDraft,
+    isRestored,
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Custom hook for signing out inactive users
+ *
+ * Activity is shared between the app's open tabs through localStorage, so
+ * a user working in one tab is not signed out by another.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * localStorage key holding the time of the last activity in any tab
+ */
+const ACTIVITY_KEY = 'itqan_last_activity';
+
+/**
+ * Events counted as user activity
+ */
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+
+/**
+ * Minimum interval between writes of the shared activity time, in milliseconds
+ */
+const ACTIVITY_WRITE_INTERVAL_MS = 5_000;
+
+/**
+ * Interval between idle checks, in milliseconds
+ */
+const CHECK_INTERVAL_MS = 1_000;
+
+interface UseIdleTimeoutOptions {
+  /** Whether to watch for inactivity (e.g. only while signed in) */
+  enabled: boolean;
+  /** Inactivity after which `onTimeout` is called, in milliseconds */
+  timeoutMs: number;
+  /** How long before the timeout the warning is shown, in milliseconds */
+  warningMs: number;
+  /** Called once when the timeout is reached */
+  onTimeout: () => void;
+}
+
+interface UseIdleTimeoutReturn {
+  /** Whether the timeout is close and the user should be warned */
+  isWarning: boolean;
+  /** Time left until the timeout, in milliseconds (while warning) */
+  remainingMs: number;
+  /** Records activity, e.g. when the user chooses to stay signed in */
+  reset: () => void;
+}
+
+function readSharedActivity(): number {
+  try {
+    return Number(localStorage.getItem(ACTIVITY_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeSharedActivity(time: number): void {
+  try {
+    localStorage.setItem(ACTIVITY_KEY, String(time));
+  } catch {
+    // Storage unavailable - activity is only tracked in this tab
+  }
+}
+
+/**
+ * Custom hook that warns before and then reports an idle timeout
+ *
+ * While the warning is shown, only `reset` (or activity in another tab)
+ * postpones the timeout, so moving the mouse over the warning does not
+ * dismiss it unnoticed.
+ *
+ * @example
+ * ```typescript
+ * const { isWarning, remainingMs, reset } = useIdleTimeout({
+ *   enabled: isAuthenticated,
+ *   timeoutMs: 30 * 60_000,
+ *   warningMs: 60_000,
+ *   onTimeout: () => logout('idle'),
+ * });
+ * ```
+ */
+export function useIdleTimeout({
+  enabled,
+  timeoutMs,
+  warningMs,
+  onTimeout,
+}: UseIdleTimeoutOptions): UseIdleTimeoutReturn {
+  const [isWarning, setIsWarning] = useState(false);
+  const [remainingMs, setRemainingMs] = useState(warningMs);
+
+  const lastActivityRef = useRef(0);
+  const lastWriteRef = useRef(0);
+  const isWarningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const recordActivity = useCallback((force: boolean) => {
+    const now = Date.now();
+    lastActivityRef.current = now;
+
+    if (force || now - lastWriteRef.current >= ACTIVITY_WRITE_INTERVAL_MS) {
+      lastWriteRef.current = now;
+      writeSharedActivity(now);
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    recordActivity(true);
+    isWarningRef.current = false;
+    setIsWarning(false);
+  }, [recordActivity]);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    let hasTimedOut = false;
+    recordActivity(true);
+
+    const handleActivity = () => {
+      if (!isWarningRef.current) {
+        recordActivity(false);
+      }
+    };
+
+    const check = () => {
+      if (hasTimedOut) return;
+
+      const lastActivity = Math.max(lastActivityRef.current, readSharedActivity());
+      const remaining = timeoutMs - (Date.now() - lastActivity);
+
+      if (remaining <= 0) {
+        hasTimedOut = true;
+        isWarningRef.current = false;
+        setIsWarning(false);
+        onTimeoutRef.current();
+        return;
+      }
+
+      const shouldWarn = remaining <= warningMs;
+      isWarningRef.current = shouldWarn;
+      setIsWarning(shouldWarn);
+      if (shouldWarn) {
+        setRemainingMs(remaining);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      clearInterval(interval);
+      isWarningRef.current = false;
+      setIsWarning(false);
+    };
+  }, [enabled, timeoutMs, warningMs, recordActivity]);
+
+  return {
+    isWarning,
+    remainingMs,
+    reset,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Custom hook for the development network log
+ */
+
+import { useSyncExternalStore } from 'react';
+import { clearNetworkLog, getNetworkLog, subscribeNetworkLog } from '@/lib/api';
+import type { NetworkLogEntry } from '@/lib/api';
+
+const NO_ENTRIES: NetworkLogEntry[] = [];
+
+interface UseNetworkLogReturn {
+  /** Recorded API calls, most recent first */
+  entries: NetworkLogEntry[];
+  /** Remove every recorded call */
+  clear: () => void;
+}
+
+/**
+ * Hook for reading the API calls recorded in development
+ *
+ * Calls are only recorded in development builds; elsewhere the list stays empty.
+ *
+ * @returns Recorded calls and a function to clear them
+ *
+ * @example
+ * ```typescript
+ * const { entries } = useNetworkLog();
+ * const failed = entries.filter(entry => entry.state === 'error');
+ * ```
+ */
+export function useNetworkLog(): UseNetworkLogReturn {
+  const entries = useSyncExternalStore(subscribeNetworkLog, getNetworkLog, () => NO_ENTRIES);
+
+  return {
+    entries,
+    clear: clearNetworkLog,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Custom hook for the offline outbox
+ *
+ * Only the signed-in user's items are shown, as with `useDraft`.
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { useAuth } from '@/components/providers/auth-provider';
+import {
+  dismissOutboxItem,
+  getOutboxItems,
+  replayOutbox,
+  retryOutboxItem,
+  subscribeOutbox,
+} from '@/lib/api';
+import type { OutboxItem, OutboxSession } from '@/lib/api';
+
+const NO_ITEMS: OutboxItem[] = [];
+
+function subscribeOnlineStatus(callback: () => void): () => void {
+  window.addEventListener('online', callback);
+  window.addEventListener('offline', callback);
+  return () => {
+    window.removeEventListener('online', callback);
+    window.removeEventListener('offline', callback);
+  };
+}
+
+interface UseOutboxReturn {
+  /** The signed-in user's queued, failed and recently sent mutations, oldest first */
+  items: OutboxItem[];
+  /** Whether the browser reports a network connection */
+  isOnline: boolean;
+  /** Send every mutation the user queued */
+  replay: (session: OutboxSession & { token: string }) => Promise<void>;
+  /** Queue a failed mutation again */
+  retry: (id: string) => void;
+  /** Remove a sent or failed mutation from the list */
+  dismiss: (id: string) => void;
+}
+
+/**
+ * Hook for reading and controlling the offline outbox
+ *
+ * @returns Outbox items, the connection status and the outbox actions
+ *
+ * @example
+ * ```typescript
+ * const { items, isOnline } = useOutbox();
+ * const waiting = items.filter(item => item.status === 'queued').length;
+ * ```
+ */
+export function useOutbox(): UseOutboxReturn {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const allItems = useSyncExternalStore(subscribeOutbox, getOutboxItems, () => NO_ITEMS);
+  const items = useMemo(
+    () => (userId ? allItems.filter(item => item.userId === userId) : NO_ITEMS),
+    [allItems, userId]
+  );
+  const isOnline = useSyncExternalStore(subscribeOnlineStatus, () => navigator.onLine, () => true);
+
+  return {
+    items,
+    isOnline,
+    replay: replayOutbox,
+    retry: retryOutboxItem,
+    dismiss: dismissOutboxItem,
+  };
+}
@@ -7,6 +7,9 @@ export const defaultLocale = 'ar' as const;
 
 export type Locale = (typeof locales)[number];
 
+// Request header carrying the route locale to Server Components (set by middleware)
+export const LOCALE_HEADER = 'x-itqan-locale';
+
 export default getRequestConfig(async ({ locale }) => {
   // Validate that the incoming `locale` parameter is valid
   if (!locale || !locales.includes(locale as Locale)) notFound();
@@ -6,19 +6,39 @@
  * authentication, headers, and common request logic.
  */
 
-import { env } from '@/lib/env';
+import { env, isApiMocking } from '@/lib/env';
+import { getLocalizedError } from '@/lib/error-messages';
 import { getCurrentLocaleForHeaders } from '@/lib/utils';
-import { handleApiResponse } from './error-handler';
+import { handleApiResponse, isAbortError } from './error-handler';
+import { ApiError, ApiNetworkError } from './errors';
+import {
+  BUILT_IN_MIDDLEWARES,
+  getRegisteredMiddlewares,
+  runMiddlewareChain,
+} from './middleware';
+import type { ApiMiddleware, ApiRequestContext } from './middleware';
+import type { RetryPolicy } from './retry';
+import type { Schema } from '../schemas/core';
+import { isRawBody, sendWithXhr } from './upload';
+import type { UploadProgressHandler } from './upload';
 
 /**
  * API base URL from environment configuration
  */
 export const API_BASE_URL = env.NEXT_PUBLIC_BACKEND_URL;
 
+/**
+ * Response validation options accepted by the request helpers
+ */
+export interface ResponseValidationOptions<T> {
+  /** Runtime schema the response body is validated against */
+  schema?: Schema<T>;
+}
+
 /**
  * Request options for API calls
  */
-export interface ApiRequestOptions extends RequestInit {
+export interface ApiRequestOptions<T = unknown> extends RequestInit, ResponseValidationOptions<T> {
   /** Authentication token to include in headers */
   token?: string;
   
@@ -27,6 +47,41 @@ export interface ApiRequestOptions extends RequestInit {
   
   /** Whether to include credentials */
   includeCredentials?: boolean;
+  
+  /** Skip the transparent token refresh on 401 (e.g. for the refresh call itself) */
+  skipAuthRefresh?: boolean;
+  
+  /** Locale to send as Accept-Language (required on the server, defaults to the current locale) */
+  locale?: string;
+  
+  /** Extra middlewares for this request, run after the registered ones */
+  middlewares?: ApiMiddleware[];
+  
+  /** Retry policy overrides, or false to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  
+  /** Idempotency key that makes a mutation safe to retry */
+  idempotencyKey?: string;
+  
+  /** Abort the request after this many milliseconds (rejects with ApiTimeoutError) */
+  timeoutMs?: number;
+  
+  /** Receives upload progress (sends the request with XMLHttpRequest in the browser) */
+  onUploadProgress?: UploadProgressHandler;
+}
+
+/**
+ * Cancellation and locale options accepted by the request helpers and service functions
+ */
+export interface RequestControlOptions {
+  /** Signal that cancels the request when aborted */
+  signal?: AbortSignal;
+  
+  /** Abort the request after this many milliseconds (rejects with ApiTimeoutError) */
+  timeoutMs?: number;
+  
+  /** Locale to send as Accept-Language (required on the server, defaults to the current locale) */
+  locale?: string;
 }
 
 /**
@@ -63,46 +118,123 @@ export function getAuthHeaders(token?: string, customHeaders?: HeadersInit): Rec
   return headers;
 }
 
+/**
+ * Sends the request at the end of the middleware chain
+ * 
+ * Converts connection failures to ApiNetworkError. When API mocking is
+ * enabled the request is answered by the local mock backend instead.
+ * Requests tracking upload progress go through XMLHttpRequest, since
+ * fetch cannot report it.
+ */
+async function sendRequest(context: ApiRequestContext): Promise<Response> {
+  const { onUploadProgress } = context.options;
+  
+  try {
+    // Only backend calls are mocked; the app's own route handlers are real
+    if (isApiMocking && context.url.startsWith(API_BASE_URL)) {
+      const { handleMockRequest } = await import('../mock');
+      return await handleMockRequest(new Request(context.url, context.init), { onUploadProgress });
+    }
+    if (onUploadProgress && typeof XMLHttpRequest !== 'undefined') {
+      return await sendWithXhr(context, onUploadProgress);
+    }
+    return await fetch(context.url, context.init);
+  } catch (error) {
+    // Cancellation and timeouts are not network failures - let callers detect them as-is
+    if (context.init.signal?.aborted || isAbortError(error)) {
+      throw error;
+    }
+    throw new ApiNetworkError(getLocalizedError('errors.networkError', context.locale), { cause: error });
+  }
+}
+
 /**
  * Makes an authenticated API request
  * 
  * Generic HTTP client that handles authentication, headers,
  * and response parsing automatically.
  * 
+ * Every request runs through the middleware chain: the built-in middlewares
+ * (request ID, logging, network log, timing, timeout, locale, HTTP cache, retries, 401 handling and auth headers), then any middlewares
+ * registered with `registerApiMiddleware`, then `options.middlewares`.
+ * When `options.schema` is set the response body is validated against it.
+ * 
  * @param endpoint - API endpoint path (relative to base URL)
  * @param options - Request options including token and method
  * @returns Promise resolving to the typed response data
+ * @throws ApiError subclass describing the failure (ApiNetworkError if no response was received,
+ *         ApiTimeoutError if `timeoutMs` elapsed), with the request's `requestId`
  * 
  * @example
  * ```typescript
  * const user = await apiRequest<UserProfileSchema>('/auth/profile/', {
  *   token: accessToken,
  *   method: 'GET',
+ *   schema: userProfileSchema,
  * });
  * ```
  */
 export async function apiRequest<T>(
   endpoint: string,
-  options: ApiRequestOptions = {}
+  options: ApiRequestOptions<T> = {}
 ): Promise<T> {
-  const { token, customHeaders, includeCredentials, ...fetchOptions } = options;
+  const {
+    token,
+    customHeaders,
+    includeCredentials,
+    locale,
+    middlewares = [],
+    schema,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    onUploadProgress,
+    ...fetchOptions
+  } = options;
   
   const url = endpoint.startsWith('http') ? endpoint : `${API_BASE_URL}${endpoint}`;
   
-  const headers = getAuthHeaders(token, customHeaders);
+  const headers = new Headers({
+    'Accept': 'application/json',
+  });
+  // FormData and binary bodies carry their own Content-Type (e.g. the multipart boundary);
+  // bodyless requests send none, so anonymous GETs stay simple CORS requests
+  if (fetchOptions.body != null && !isRawBody(fetchOptions.body)) {
+    headers.set('Content-Type', 'application/json');
+  }
+  new Headers(customHeaders).forEach((value, key) => headers.set(key, value));
   
-  const requestOptions: RequestInit = {
+  const init: ApiRequestContext['init'] = {
     ...fetchOptions,
     headers,
   };
   
   if (includeCredentials) {
-    requestOptions.credentials = 'include';
+    init.credentials = 'include';
   }
   
-  const response = await fetch(url, requestOptions);
+  const context: ApiRequestContext = {
+    url,
+    init,
+    token,
+    locale,
+    options,
+    meta: {},
+  };
   
-  return handleApiResponse<T>(response);
+  try {
+    const response = await runMiddlewareChain(
+      [...BUILT_IN_MIDDLEWARES, ...getRegisteredMiddlewares(), ...middlewares],
+      context,
+      sendRequest
+    );
+    
+    return await handleApiResponse(response, schema, context.url);
+  } catch (error) {
+    // Let failures be matched with the backend logs
+    if (error instanceof ApiError && !error.requestId) {
+      error.requestId = context.meta.requestId as string | undefined;
+    }
+    throw error;
+  }
 }
 
 /**
@@ -111,6 +243,7 @@ export async function apiRequest<T>(
  * @param endpoint - API endpoint path
  * @param token - Optional authentication token
  * @param customHeaders - Optional additional headers
+ * @param options - Optional abort signal, timeout and response schema
  * @returns Promise resolving to the typed response data
  * 
  * @example
@@ -121,12 +254,14 @@ export async function apiRequest<T>(
 export async function apiGet<T>(
   endpoint: string,
   token?: string,
-  customHeaders?: HeadersInit
+  customHeaders?: HeadersInit,
+  options: RequestControlOptions & ResponseValidationOptions<T> = {}
 ): Promise<T> {
   return apiRequest<T>(endpoint, {
     method: 'GET',
     token,
     customHeaders,
+    ...options,
   });
 }
 
@@ -137,6 +272,7 @@ export async function apiGet<T>(
  * @param data - Request body data
  * @param token - Optional authentication token
  * @param customHeaders - Optional additional headers
+ * @param options - Optional abort signal, timeout and response schema
  * @returns Promise resolving to the typed response data
  * 
  * @example
@@ -151,13 +287,15 @@ export async function apiPost<T>(
   endpoint: string,
   data?: unknown,
   token?: string,
-  customHeaders?: HeadersInit
+  customHeaders?: HeadersInit,
+  options: RequestControlOptions & ResponseValidationOptions<T> = {}
 ): Promise<T> {
   return apiRequest<T>(endpoint, {
     method: 'POST',
     token,
     customHeaders,
     body: data ? JSON.stringify(data) : undefined,
+    ...options,
   });
 }
 
@@ -168,19 +306,22 @@ export async function apiPost<T>(
  * @param data - Request body data
  * @param token - Authentication token
  * @param customHeaders - Optional additional headers
+ * @param options - Optional abort signal, timeout and response schema
  * @returns Promise resolving to the typed response data
  */
 export async function apiPut<T>(
   endpoint: string,
   data: unknown,
   token: string,
-  customHeaders?: HeadersInit
+  customHeaders?: HeadersInit,
+  options: RequestControlOptions & ResponseValidationOptions<T> = {}
 ): Promise<T> {
   return apiRequest<T>(endpoint, {
     method: 'PUT',
     token,
     customHeaders,
     body: JSON.stringify(data),
+    ...options,
   });
 }
 
@@ -191,19 +332,22 @@ export async function apiPut<T>(
  * @param data - Request body data
  * @param token - Authentication token
  * @param customHeaders - Optional additional headers
+ * @param options - Optional abort signal, timeout and response schema
  * @returns Promise resolving to the typed response data
  */
 export async function apiPatch<T>(
   endpoint: string,
   data: unknown,
   token: string,
-  customHeaders?: HeadersInit
+  customHeaders?: HeadersInit,
+  options: RequestControlOptions & ResponseValidationOptions<T> = {}
 ): Promise<T> {
   return apiRequest<T>(endpoint, {
     method: 'PATCH',
     token,
     customHeaders,
     body: JSON.stringify(data),
+    ...options,
   });
 }
 
@@ -213,17 +357,68 @@ export async function apiPatch<T>(
  * @param endpoint - API endpoint path
  * @param token - Authentication token
  * @param customHeaders - Optional additional headers
+ * @param options - Optional abort signal, timeout and response schema
  * @returns Promise resolving to the typed response data
  */
 export async function apiDelete<T>(
   endpoint: string,
   token: string,
-  customHeaders?: HeadersInit
+  customHeaders?: HeadersInit,
+  options: RequestControlOptions & ResponseValidationOptions<T> = {}
 ): Promise<T> {
   return apiRequest<T>(endpoint, {
     method: 'DELETE',
     token,
     customHeaders,
+    ...options,
+  });
+}
+
+/**
+ * Uploads files or binary data to the API
+ * 
+ * Sends a `FormData` or `Blob` body as-is (no JSON encoding), reporting
+ * upload progress through `options.onProgress`. The request runs through
+ * the same middleware chain as every other call, so authentication, token
+ * refresh, timeouts and cancellation work unchanged.
+ * 
+ * @param endpoint - API endpoint path
+ * @param body - Multipart form data (see `buildFormData`) or a raw blob
+ * @param token - Optional authentication token
+ * @param customHeaders - Optional additional headers
+ * @param options - HTTP method (default POST), progress handler, abort signal, timeout and response schema
+ * @returns Promise resolving to the typed response data
+ * 
+ * @example
+ * ```typescript
+ * const resource = await apiUpload<ResourceOut>(
+ *   '/resources/',
+ *   buildFormData({ name, category, publisher_id, file }),
+ *   token,
+ *   undefined,
+ *   { onProgress: ({ percent }) => setProgress(percent), signal: controller.signal }
+ * );
+ * ```
+ */
+export async function apiUpload<T>(
+  endpoint: string,
+  body: FormData | Blob,
+  token?: string,
+  customHeaders?: HeadersInit,
+  options: RequestControlOptions & ResponseValidationOptions<T> & {
+    method?: 'POST' | 'PUT' | 'PATCH';
+    onProgress?: UploadProgressHandler;
+  } = {}
+): Promise<T> {
+  const { method = 'POST', onProgress, ...requestOptions } = options;
+  
+  return apiRequest<T>(endpoint, {
+    method,
+    token,
+    customHeaders,
+    body,
+    onUploadProgress: onProgress,
+    ...requestOptions,
   });
 }
 
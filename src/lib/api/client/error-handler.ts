@@ -7,16 +7,25 @@
 
 import { getDefaultError } from '@/lib/error-messages';
 import type { ApiErrorResponse } from '@/lib/types/api/common.types';
+import type { Schema } from '../schemas/core';
+import {
+  ApiAuthError,
+  ApiNetworkError,
+  ApiPermissionError,
+  createApiError,
+} from './errors';
+import { validateResponseData } from './validation';
 
 /**
  * Handles API response errors consistently
  * 
- * Parses error responses from the API and extracts meaningful error messages.
+ * Parses error responses from the API and converts them into a typed
+ * `ApiError` that preserves the HTTP status, `error_name` and `extra` fields.
  * Falls back to default error message if parsing fails.
  * 
  * @param response - The failed HTTP response
- * @returns Promise that rejects with an Error containing the error message
- * @throws Error with the extracted or default error message
+ * @returns Promise that rejects with an ApiError subclass matching the status
+ * @throws ApiError with the extracted or default error message
  * 
  * @example
  * ```typescript
@@ -26,45 +35,50 @@ import type { ApiErrorResponse } from '@/lib/types/api/common.types';
  * ```
  */
 export async function handleApiError(response: Response): Promise<never> {
+  let errorData: Partial<ApiErrorResponse> | null = null;
+  
   try {
-    const errorData: ApiErrorResponse = await response.json();
-    
-    // Prefer the message field over error_name
-    const errorMessage = errorData.message || errorData.error_name || getDefaultError();
-    throw new Error(errorMessage);
-  } catch (error) {
-    // If JSON parsing fails or error is already thrown
-    if (error instanceof Error && error.message !== getDefaultError()) {
-      throw error;
-    }
-    
-    // Fallback to default error
-    throw new Error(getDefaultError());
+    errorData = await response.json();
+  } catch {
+    // Body is empty or not JSON - fall back to the default message
   }
+  
+  // Prefer the message field over error_name
+  const errorMessage = errorData?.message || errorData?.error_name || getDefaultError();
+  throw createApiError(response.status, errorMessage, errorData, response.headers);
 }
 
 /**
  * Handles API responses and extracts data or throws errors
  * 
  * Generic function to handle both successful and failed API responses.
- * Automatically parses JSON and handles errors.
+ * Automatically parses JSON and handles errors. When a schema is given the
+ * parsed body is validated against it (see `validateResponseData`).
  * 
  * @param response - The HTTP response to handle
+ * @param schema - Optional runtime schema of the response body
+ * @param url - URL of the request, used in validation messages
  * @returns Promise resolving to the parsed response data
- * @throws Error if the response is not ok
+ * @throws ApiError if the response is not ok, ApiContractError (outside production)
+ *         if the body does not match the schema
  * 
  * @example
  * ```typescript
  * const response = await fetch(url);
- * const data = await handleApiResponse<UserProfileSchema>(response);
+ * const data = await handleApiResponse(response, userProfileSchema);
  * ```
  */
-export async function handleApiResponse<T>(response: Response): Promise<T> {
+export async function handleApiResponse<T>(
+  response: Response,
+  schema?: Schema<T>,
+  url = response.url
+): Promise<T> {
   if (!response.ok) {
     await handleApiError(response);
   }
   
-  return response.json();
+  const data: unknown = await response.json();
+  return schema ? validateResponseData(schema, data, response, url) : (data as T);
 }
 
 /**
@@ -124,19 +138,35 @@ export async function parseErrorResponse(response: Response): Promise<{
  * ```
  */
 export function isNetworkError(error: unknown): boolean {
-  if (error instanceof TypeError && error.message === 'Failed to fetch') {
+  if (error instanceof ApiNetworkError) {
     return true;
   }
   
-  if (error instanceof Error) {
-    return (
-      error.message.includes('network') ||
-      error.message.includes('NetworkError') ||
-      error.message.includes('fetch')
-    );
-  }
-  
-  return false;
+  // Raw fetch failures from code that bypasses the API client
+  return error instanceof TypeError && error.message === 'Failed to fetch';
+}
+
+/**
+ * Determines if an error comes from a cancelled request
+ * 
+ * Cancelled requests are expected (e.g. a newer search superseded them)
+ * and should not be shown to the user.
+ * 
+ * @param error - The error to check
+ * @returns True if the request was aborted through its signal
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await getAssets(token, filters, { signal });
+ * } catch (error) {
+ *   if (isAbortError(error)) return;
+ *   setError(getErrorMessage(error));
+ * }
+ * ```
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
 }
 
 /**
@@ -161,17 +191,7 @@ export function isAuthError(error: unknown): boolean {
     return error === 401 || error === 403;
   }
   
-  if (error instanceof Error) {
-    const message = error.message.toLowerCase();
-    return (
-      message.includes('unauthorized') ||
-      message.includes('unauthenticated') ||
-      message.includes('forbidden') ||
-      message.includes('token')
-    );
-  }
-  
-  return false;
+  return error instanceof ApiAuthError || error instanceof ApiPermissionError;
 }
 
 /**
@@ -0,0 +1,311 @@
+/**
+ * API Error Types
+ *
+ * This file contains the typed error hierarchy thrown by the API client.
+ * Every failed request is surfaced as an `ApiError` (or one of its subclasses),
+ * preserving the HTTP status, the backend `error_name` and any `extra` context
+ * so callers can branch on the kind of failure instead of parsing messages.
+ */
+
+import type { ApiErrorResponse } from '@/lib/types/api/common.types';
+import type { SchemaIssue } from '../schemas/core';
+
+/**
+ * Options used when constructing an ApiError
+ */
+export interface ApiErrorOptions {
+  /** HTTP status code (0 when no response was received) */
+  status?: number;
+
+  /** Backend error identifier (`ApiErrorResponse.error_name`) */
+  errorName?: string;
+
+  /** Additional error context (`ApiErrorResponse.extra`) */
+  extra?: unknown;
+
+  /** Underlying error that caused this one */
+  cause?: unknown;
+
+  /** `X-Request-ID` of the failed request */
+  requestId?: string;
+}
+
+/**
+ * Base class for all errors thrown by the API client
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await getAssetDetails(123);
+ * } catch (error) {
+ *   if (error instanceof ApiError) {
+ *     console.log(error.status, error.errorName);
+ *   }
+ * }
+ * ```
+ */
+export class ApiError extends Error {
+  /** HTTP status code (0 when no response was received) */
+  readonly status: number;
+
+  /** Backend error identifier, if provided */
+  readonly errorName?: string;
+
+  /** Additional error context returned by the backend */
+  readonly extra?: unknown;
+
+  /** Field-level validation messages keyed by field name */
+  readonly fieldErrors: Record<string, string>;
+
+  /**
+   * `X-Request-ID` of the failed request, for matching with backend logs
+   * (set by `apiRequest` for every error it throws)
+   */
+  requestId?: string;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'ApiError';
+    this.status = options.status ?? 0;
+    this.errorName = options.errorName;
+    this.extra = options.extra;
+    this.fieldErrors = extractFieldErrors(options.extra);
+    this.requestId = options.requestId;
+  }
+}
+
+/**
+ * Request payload was rejected by the backend (400 / 422)
+ */
+export class ApiValidationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ApiValidationError';
+  }
+}
+
+/**
+ * Request was not authenticated or the token is invalid (401)
+ */
+export class ApiAuthError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ApiAuthError';
+  }
+}
+
+/**
+ * Authenticated user lacks permission for the action (403)
+ */
+export class ApiPermissionError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ApiPermissionError';
+  }
+}
+
+/**
+ * Requested entity does not exist (404)
+ */
+export class ApiNotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ApiNotFoundError';
+  }
+}
+
+/**
+ * Request conflicts with the current server state (409)
+ */
+export class ApiConflictError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ApiConflictError';
+  }
+}
+
+/**
+ * The entity changed since the version the request was based on (412)
+ *
+ * Thrown when an `If-Match` precondition fails, i.e. someone else saved the
+ * entity in the meantime. Extends ApiConflictError, so existing conflict
+ * handling still applies.
+ */
+export class ApiPreconditionFailedError extends ApiConflictError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ApiPreconditionFailedError';
+  }
+}
+
+/**
+ * Too many requests were sent in a given time window (429)
+ */
+export class ApiRateLimitError extends ApiError {
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: ApiErrorOptions & { retryAfter?: number } = {}) {
+    super(message, options);
+    this.name = 'ApiRateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Request never reached the backend or no response was received
+ */
+export class ApiNetworkError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { ...options, status: 0 });
+    this.name = 'ApiNetworkError';
+  }
+}
+
+/**
+ * Request did not complete within its `timeoutMs`
+ */
+export class ApiTimeoutError extends ApiError {
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(message: string, options: ApiErrorOptions & { timeoutMs: number }) {
+    super(message, { ...options, status: 0 });
+    this.name = 'ApiTimeoutError';
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/**
+ * Successful response body did not match the expected schema
+ *
+ * Thrown in development so backend contract drift is caught early. In
+ * production mismatches are only reported (see `setContractViolationReporter`).
+ */
+export class ApiContractError extends ApiError {
+  /** Every mismatch between the response and its schema */
+  readonly issues: SchemaIssue[];
+
+  /** URL of the request whose response was invalid */
+  readonly url: string;
+
+  constructor(message: string, options: ApiErrorOptions & { issues: SchemaIssue[]; url: string }) {
+    super(message, { errorName: 'CONTRACT_VIOLATION', extra: options.issues, ...options });
+    this.name = 'ApiContractError';
+    this.issues = options.issues;
+    this.url = options.url;
+  }
+}
+
+/**
+ * Creates the typed error matching an HTTP status code
+ *
+ * @param status - HTTP status code of the failed response
+ * @param message - Human-readable error message
+ * @param body - Parsed error body, if any
+ * @param headers - Response headers (used for `Retry-After`)
+ * @returns The ApiError subclass matching the status
+ *
+ * @example
+ * ```typescript
+ * const error = createApiError(404, 'Asset not found', { error_name: 'NOT_FOUND' });
+ * error instanceof ApiNotFoundError; // true
+ * ```
+ */
+export function createApiError(
+  status: number,
+  message: string,
+  body?: Partial<ApiErrorResponse> | null,
+  headers?: Headers
+): ApiError {
+  const options: ApiErrorOptions = {
+    status,
+    errorName: body?.error_name || undefined,
+    extra: body?.extra,
+  };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ApiValidationError(message, options);
+    case 401:
+      return new ApiAuthError(message, options);
+    case 403:
+      return new ApiPermissionError(message, options);
+    case 404:
+      return new ApiNotFoundError(message, options);
+    case 409:
+      return new ApiConflictError(message, options);
+    case 412:
+      return new ApiPreconditionFailedError(message, options);
+    case 429:
+      return new ApiRateLimitError(message, {
+        ...options,
+        retryAfter: parseRetryAfterSeconds(headers?.get('Retry-After')),
+      });
+    default:
+      return new ApiError(message, options);
+  }
+}
+
+/**
+ * Parses a `Retry-After` header value into seconds
+ *
+ * Supports both delta-seconds and HTTP-date formats.
+ *
+ * @param value - Raw header value
+ * @returns Number of seconds to wait, or undefined if absent/invalid
+ */
+export function parseRetryAfterSeconds(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts field-level messages from the backend `extra` payload
+ *
+ * Handles both a `{ field: message | message[] }` map and a list of
+ * `{ loc: [...], msg }` entries as produced by schema validation.
+ *
+ * @param extra - The `extra` value from an error response
+ * @returns Map of field name to its first error message
+ */
+function extractFieldErrors(extra: unknown): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+
+  if (Array.isArray(extra)) {
+    extra.forEach(item => {
+      if (item && typeof item === 'object' && 'loc' in item && 'msg' in item) {
+        const loc = (item as { loc: unknown }).loc;
+        const field = Array.isArray(loc) ? loc[loc.length - 1] : loc;
+        if (field !== undefined && !(String(field) in fieldErrors)) {
+          fieldErrors[String(field)] = String((item as { msg: unknown }).msg);
+        }
+      }
+    });
+    return fieldErrors;
+  }
+
+  if (extra && typeof extra === 'object') {
+    Object.entries(extra as Record<string, unknown>).forEach(([field, value]) => {
+      if (typeof value === 'string') {
+        fieldErrors[field] = value;
+      } else if (Array.isArray(value) && typeof value[0] === 'string') {
+        fieldErrors[field] = value[0];
+      }
+    });
+  }
+
+  return fieldErrors;
+}
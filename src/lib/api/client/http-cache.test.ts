@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearHttpCache, httpCacheMiddleware, invalidateHttpCache } from './http-cache';
+import type { ApiRequestContext } from './middleware';
+import { env } from '@/lib/env';
+
+const ASSET_URL = `${env.NEXT_PUBLIC_BACKEND_URL}/assets/1/`;
+
+function createContext(
+  url = ASSET_URL,
+  init: Partial<RequestInit> = {},
+  token?: string
+): ApiRequestContext {
+  return {
+    url,
+    init: { method: 'GET', ...init, headers: new Headers({ 'Accept-Language': 'en' }) },
+    token,
+    options: {},
+    meta: {},
+  };
+}
+
+function respond(body: string, headers: Record<string, string> = {}, status = 200): Response {
+  return new Response(status === 304 ? null : body, { status, headers });
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', {});
+});
+
+afterEach(() => {
+  clearHttpCache();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('httpCacheMiddleware', () => {
+  it('revalidates with the ETag and answers a 304 from the cache', async () => {
+    const next = vi.fn()
+      .mockResolvedValueOnce(respond('{"id":1}', { ETag: '"v1"', 'Content-Type': 'application/json' }))
+      .mockResolvedValueOnce(respond('', {}, 304));
+
+    await httpCacheMiddleware(createContext(), next);
+    const context = createContext();
+    const response = await httpCacheMiddleware(context, next);
+
+    expect(next.mock.calls[1][0].init.headers.get('If-None-Match')).toBe('"v1"');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('{"id":1}');
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(context.meta.cache).toBe('revalidated');
+  });
+
+  it('sends If-Modified-Since for Last-Modified responses', async () => {
+    const lastModified = 'Mon, 19 Oct 2026 12:00:00 GMT';
+    const next = vi.fn()
+      .mockResolvedValueOnce(respond('{}', { 'Last-Modified': lastModified }))
+      .mockResolvedValueOnce(respond('', {}, 304));
+
+    await httpCacheMiddleware(createContext(), next);
+    await httpCacheMiddleware(createContext(), next);
+
+    expect(next.mock.calls[1][0].init.headers.get('If-Modified-Since')).toBe(lastModified);
+  });
+
+  it('serves fresh max-age responses without a request', async () => {
+    vi.useFakeTimers();
+    const next = vi.fn().mockImplementation(async () => respond('{"id":1}', { 'Cache-Control': 'max-age=60' }));
+
+    await httpCacheMiddleware(createContext(), next);
+    const context = createContext();
+    await httpCacheMiddleware(context, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(context.meta.cache).toBe('hit');
+
+    vi.advanceTimersByTime(61_000);
+    await httpCacheMiddleware(createContext(), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('never keeps no-store responses', async () => {
+    const next = vi.fn().mockImplementation(async () => respond('{}', { ETag: '"v1"', 'Cache-Control': 'no-store' }));
+
+    await httpCacheMiddleware(createContext(), next);
+    await httpCacheMiddleware(createContext(), next);
+
+    expect(next.mock.calls[1][0].init.headers.has('If-None-Match')).toBe(false);
+  });
+
+  it('bypasses the cache for requests with cache: no-store', async () => {
+    const next = vi.fn().mockImplementation(async () => respond('{}', { 'Cache-Control': 'max-age=60' }));
+
+    await httpCacheMiddleware(createContext(), next);
+    await httpCacheMiddleware(createContext(ASSET_URL, { cache: 'no-store' }), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps signed-in and anonymous responses apart', async () => {
+    const next = vi.fn().mockImplementation(async () => respond('{}', { 'Cache-Control': 'max-age=60' }));
+
+    await httpCacheMiddleware(createContext(), next);
+    await httpCacheMiddleware(createContext(ASSET_URL, {}, 'token'), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops cached responses for a URL after a successful mutation', async () => {
+    const next = vi.fn().mockImplementation(async () => respond('{}', { 'Cache-Control': 'max-age=60' }));
+
+    await httpCacheMiddleware(createContext(), next);
+    await httpCacheMiddleware(createContext(ASSET_URL, { method: 'PATCH' }), next);
+    await httpCacheMiddleware(createContext(), next);
+
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+
+  it('is not active on the server', async () => {
+    vi.unstubAllGlobals();
+    const next = vi.fn().mockImplementation(async () => respond('{}', { 'Cache-Control': 'max-age=60' }));
+
+    await httpCacheMiddleware(createContext(), next);
+    await httpCacheMiddleware(createContext(), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('invalidateHttpCache', () => {
+  it('removes entries under the endpoint prefix', async () => {
+    const next = vi.fn().mockImplementation(async () => respond('{}', { 'Cache-Control': 'max-age=60' }));
+    const listUrl = `${env.NEXT_PUBLIC_BACKEND_URL}/assets/?page=2`;
+    const otherUrl = `${env.NEXT_PUBLIC_BACKEND_URL}/resources/1/`;
+    await httpCacheMiddleware(createContext(listUrl), next);
+    await httpCacheMiddleware(createContext(otherUrl), next);
+
+    invalidateHttpCache('/assets/');
+    await httpCacheMiddleware(createContext(listUrl), next);
+    await httpCacheMiddleware(createContext(otherUrl), next);
+
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * HTTP Response Cache
+ *
+ * This file contains the conditional request middleware used by `apiRequest`.
+ * Successful GET responses carrying an `ETag` or `Last-Modified` validator
+ * are kept in memory per URL. Later requests for the same URL send
+ * `If-None-Match` / `If-Modified-Since`, and a `304 Not Modified` is answered
+ * from the stored body instead of downloading it again.
+ *
+ * The backend's `Cache-Control` is respected: `no-store` responses are never
+ * kept, `max-age` responses are served without a request while fresh, and
+ * `no-cache` responses are always revalidated. A request's own `cache` option
+ * (`'no-store'`, `'reload'`, `'no-cache'`) bypasses or revalidates the cache.
+ *
+ * The cache is per browser tab and only active in the browser; on the server
+ * it would be shared between users.
+ */
+
+import { env } from '@/lib/env';
+import type { ApiMiddleware } from './middleware';
+
+/**
+ * Maximum number of responses kept; the least recently used are evicted first
+ */
+const MAX_ENTRIES = 200;
+
+/**
+ * Response headers kept with a cached body
+ */
+const STORED_HEADERS = ['content-type', 'etag', 'last-modified', 'cache-control'];
+
+interface HttpCacheEntry {
+  /** Request URL without the variant prefix */
+  url: string;
+  body: string;
+  headers: [string, string][];
+  etag: string | null;
+  lastModified: string | null;
+
+  /** Time until which the response may be used without revalidating */
+  freshUntil: number;
+}
+
+interface CacheControl {
+  noStore: boolean;
+  noCache: boolean;
+  maxAge: number | null;
+}
+
+const entries = new Map<string, HttpCacheEntry>();
+
+function parseCacheControl(value: string | null): CacheControl {
+  const directives = (value || '').toLowerCase().split(',').map(directive => directive.trim());
+  const maxAge = directives.find(directive => directive.startsWith('max-age='));
+  const seconds = maxAge ? Number(maxAge.slice('max-age='.length)) : NaN;
+
+  return {
+    noStore: directives.includes('no-store'),
+    noCache: directives.includes('no-cache'),
+    maxAge: Number.isFinite(seconds) ? seconds : null,
+  };
+}
+
+function getFreshUntil(response: Response): number {
+  const { noCache, maxAge } = parseCacheControl(response.headers.get('Cache-Control'));
+  if (noCache || maxAge === null) {
+    return 0;
+  }
+
+  const age = Number(response.headers.get('Age')) || 0;
+  return Date.now() + Math.max(0, maxAge - age) * 1000;
+}
+
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+function toResponse(entry: HttpCacheEntry): Response {
+  return new Response(entry.body, { status: 200, headers: entry.headers });
+}
+
+/**
+ * Answers GET requests from the cache or with a conditional request
+ *
+ * Records `context.meta.cache` as `'hit'` (served without a request) or
+ * `'revalidated'` (served after a 304) for logging.
+ */
+export const httpCacheMiddleware: ApiMiddleware = async (context, next) => {
+  if (typeof window === 'undefined') {
+    return next(context);
+  }
+
+  const method = (context.init.method || 'GET').toUpperCase();
+  if (method !== 'GET') {
+    const response = await next(context);
+    // The mutated resource is out of date
+    if (response.ok) {
+      invalidateHttpCache(stripQuery(context.url));
+    }
+    return response;
+  }
+
+  const requestCache = context.init.cache;
+  if (requestCache === 'no-store' || requestCache === 'reload') {
+    return next(context);
+  }
+
+  // Responses differ by language and by whether the user is signed in
+  const key = `${context.init.headers.get('Accept-Language') || ''} ${context.token ? 'user' : 'anonymous'} ${context.url}`;
+  const entry = entries.get(key);
+
+  if (entry) {
+    // Mark as most recently used
+    entries.delete(key);
+    entries.set(key, entry);
+
+    if (requestCache !== 'no-cache' && entry.freshUntil > Date.now()) {
+      context.meta.cache = 'hit';
+      return toResponse(entry);
+    }
+    if (entry.etag) {
+      context.init.headers.set('If-None-Match', entry.etag);
+    }
+    if (entry.lastModified) {
+      context.init.headers.set('If-Modified-Since', entry.lastModified);
+    }
+  }
+
+  const response = await next(context);
+
+  if (response.status === 304 && entry) {
+    context.meta.cache = 'revalidated';
+    entry.freshUntil = getFreshUntil(response);
+    return toResponse(entry);
+  }
+
+  if (!response.ok || parseCacheControl(response.headers.get('Cache-Control')).noStore) {
+    entries.delete(key);
+    return response;
+  }
+
+  const etag = response.headers.get('ETag');
+  const lastModified = response.headers.get('Last-Modified');
+  const freshUntil = getFreshUntil(response);
+  if (!etag && !lastModified && freshUntil === 0) {
+    return response;
+  }
+
+  const body = await response.clone().text();
+  entries.set(key, {
+    url: context.url,
+    body,
+    headers: STORED_HEADERS.flatMap(name => {
+      const value = response.headers.get(name);
+      return value === null ? [] : [[name, value] as [string, string]];
+    }),
+    etag,
+    lastModified,
+    freshUntil,
+  });
+
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value as string);
+  }
+
+  return response;
+};
+
+/**
+ * Removes cached responses after a mutation
+ *
+ * Entries are matched by URL prefix, so invalidating `/resources/` also
+ * drops cached resource details and filtered listings.
+ *
+ * @param endpoints - Endpoint paths (relative to the base URL) or absolute URLs
+ *
+ * @example
+ * ```typescript
+ * await apiPatch(`/resources/${id}/`, changes, token);
+ * invalidateHttpCache(['/resources/', '/assets/']);
+ * ```
+ */
+export function invalidateHttpCache(endpoints: string | string[]): void {
+  const prefixes = (Array.isArray(endpoints) ? endpoints : [endpoints]).map(endpoint =>
+    endpoint.startsWith('http') ? endpoint : `${env.NEXT_PUBLIC_BACKEND_URL}${endpoint}`
+  );
+
+  entries.forEach((entry, key) => {
+    if (prefixes.some(prefix => entry.url.startsWith(prefix))) {
+      entries.delete(key);
+    }
+  });
+}
+
+/**
+ * Removes every cached response (e.g. on logout)
+ */
+export function clearHttpCache(): void {
+  entries.clear();
+}
@@ -16,11 +16,14 @@ export {
   apiPut,
   apiPatch,
   apiDelete,
+  apiUpload,
   buildUrlWithParams,
 } from './base';
 
 export type {
   ApiRequestOptions,
+  RequestControlOptions,
+  ResponseValidationOptions,
 } from './base';
 
 export {
@@ -28,7 +31,97 @@ export {
   handleApiResponse,
   parseErrorResponse,
   isNetworkError,
+  isAbortError,
   isAuthError,
   getErrorMessage,
 } from './error-handler';
 
+export {
+  ApiError,
+  ApiValidationError,
+  ApiAuthError,
+  ApiPermissionError,
+  ApiNotFoundError,
+  ApiConflictError,
+  ApiPreconditionFailedError,
+  ApiRateLimitError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  ApiContractError,
+  createApiError,
+} from './errors';
+
+export {
+  setContractViolationReporter,
+} from './validation';
+
+export type {
+  ContractViolation,
+  ContractViolationReporter,
+} from './validation';
+
+export type {
+  ApiErrorOptions,
+} from './errors';
+
+export {
+  configureTokenRefresh,
+  refreshAccessToken,
+  notifySessionExpired,
+} from './token-refresh';
+
+export type {
+  TokenRefreshConfig,
+} from './token-refresh';
+
+export {
+  registerApiMiddleware,
+} from './middleware';
+
+export {
+  REQUEST_ID_HEADER,
+  getNetworkLog,
+  subscribeNetworkLog,
+  clearNetworkLog,
+} from './network-log';
+
+export type {
+  NetworkLogEntry,
+} from './network-log';
+
+export {
+  SESSION_PROXY_PATH,
+  SESSION_PROXY_PARAM,
+} from './session-proxy';
+
+export {
+  invalidateHttpCache,
+  clearHttpCache,
+} from './http-cache';
+
+export {
+  buildFormData,
+  toUploadProgress,
+} from './upload';
+
+export type {
+  UploadProgress,
+  UploadProgressHandler,
+  FormDataValue,
+} from './upload';
+
+export {
+  DEFAULT_RETRY_POLICY,
+  createIdempotencyKey,
+} from './retry';
+
+export type {
+  RetryPolicy,
+} from './retry';
+
+export type {
+  ApiMiddleware,
+  ApiNext,
+  ApiRequestContext,
+} from './middleware';
+
@@ -0,0 +1,288 @@
+/**
+ * API Request Middleware
+ *
+ * This file contains the request/response middleware pipeline used by
+ * `apiRequest`. Each middleware receives the request context and a `next`
+ * function, and may modify the request, inspect or replace the response,
+ * or call `next` more than once (e.g. to replay a request).
+ *
+ * The pipeline does not depend on browser globals, so the same chain runs in
+ * client components, server components and route handlers.
+ */
+
+import { isDevelopment } from '@/lib/env';
+import { getLocalizedError } from '@/lib/error-messages';
+import { getCurrentLocaleForHeaders } from '@/lib/utils';
+import {
+  getPendingTokenRefresh,
+  notifySessionExpired,
+  resolveTokenAfterUnauthorized,
+} from './token-refresh';
+import { ApiTimeoutError } from './errors';
+import { httpCacheMiddleware } from './http-cache';
+import { networkLogMiddleware, requestIdMiddleware } from './network-log';
+import { retryMiddleware } from './retry';
+import { toSessionProxyUrl } from './session-proxy';
+import type { ApiRequestOptions } from './base';
+
+/**
+ * Context passed through the middleware chain for a single request
+ */
+export interface ApiRequestContext {
+  /** Fully resolved request URL */
+  url: string;
+
+  /** Fetch options; headers are always a Headers instance */
+  init: RequestInit & { headers: Headers };
+
+  /** Access token to authenticate the request with */
+  token?: string;
+
+  /** Locale to send as Accept-Language (defaults to the current locale) */
+  locale?: string;
+
+  /** Original options passed to apiRequest */
+  options: ApiRequestOptions;
+
+  /** Scratch space for middlewares to share per-request data */
+  meta: Record<string, unknown>;
+}
+
+/**
+ * Continues the chain with the given context
+ */
+export type ApiNext = (context: ApiRequestContext) => Promise<Response>;
+
+/**
+ * A request/response middleware
+ *
+ * @example
+ * ```typescript
+ * const tenantMiddleware: ApiMiddleware = async (context, next) => {
+ *   context.init.headers.set('X-Tenant', 'itqan');
+ *   return next(context);
+ * };
+ * ```
+ */
+export type ApiMiddleware = (context: ApiRequestContext, next: ApiNext) => Promise<Response>;
+
+const registeredMiddlewares: ApiMiddleware[] = [];
+
+/**
+ * Registers an application middleware for every API request
+ *
+ * Registered middlewares run after the built-in ones, in registration order,
+ * so they see the final headers and the raw response.
+ *
+ * @param middleware - Middleware to add to the chain
+ * @returns Function that removes the middleware again
+ *
+ * @example
+ * ```typescript
+ * const unregister = registerApiMiddleware(async (context, next) => {
+ *   const response = await next(context);
+ *   analytics.track('api_call', { url: context.url, status: response.status });
+ *   return response;
+ * });
+ * ```
+ */
+export function registerApiMiddleware(middleware: ApiMiddleware): () => void {
+  registeredMiddlewares.push(middleware);
+
+  return () => {
+    const index = registeredMiddlewares.indexOf(middleware);
+    if (index !== -1) {
+      registeredMiddlewares.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Returns the currently registered application middlewares
+ */
+export function getRegisteredMiddlewares(): ApiMiddleware[] {
+  return [...registeredMiddlewares];
+}
+
+/**
+ * Runs a request through a middleware chain
+ *
+ * @param middlewares - Middlewares in outer-to-inner order
+ * @param context - Request context
+ * @param send - Terminal handler that performs the actual request
+ * @returns Promise resolving to the final response
+ */
+export function runMiddlewareChain(
+  middlewares: ApiMiddleware[],
+  context: ApiRequestContext,
+  send: ApiNext
+): Promise<Response> {
+  const dispatch = (index: number, currentContext: ApiRequestContext): Promise<Response> => {
+    const middleware = middlewares[index];
+    if (!middleware) {
+      return send(currentContext);
+    }
+    return middleware(currentContext, nextContext => dispatch(index + 1, nextContext));
+  };
+
+  return dispatch(0, context);
+}
+
+// ============================================================================
+// Built-in Middlewares
+// ============================================================================
+
+/**
+ * Logs each request with its status, duration, size and request ID in development
+ */
+export const loggingMiddleware: ApiMiddleware = async (context, next) => {
+  if (!isDevelopment) {
+    return next(context);
+  }
+
+  const method = context.init.method || 'GET';
+  try {
+    const response = await next(context);
+    const size = context.meta.responseSize !== undefined ? `, ${context.meta.responseSize} B` : '';
+    const cache = context.meta.cache ? ` [cache ${context.meta.cache}]` : '';
+    console.debug(
+      `[api] ${method} ${context.url} → ${response.status} (${context.meta.durationMs}ms${size})${cache} [${context.meta.requestId}]`
+    );
+    return response;
+  } catch (error) {
+    console.debug(`[api] ${method} ${context.url} failed (${context.meta.durationMs}ms) [${context.meta.requestId}]`, error);
+    throw error;
+  }
+};
+
+/**
+ * Records the request duration in `context.meta.durationMs`
+ */
+export const timingMiddleware: ApiMiddleware = async (context, next) => {
+  const startedAt = Date.now();
+  try {
+    return await next(context);
+  } finally {
+    context.meta.durationMs = Date.now() - startedAt;
+  }
+};
+
+/**
+ * Aborts the request (including retries) after `options.timeoutMs`
+ *
+ * The caller's signal still cancels the request; only the timeout
+ * surfaces as ApiTimeoutError.
+ */
+export const timeoutMiddleware: ApiMiddleware = async (context, next) => {
+  const { timeoutMs } = context.options;
+  if (!timeoutMs) {
+    return next(context);
+  }
+
+  const controller = new AbortController();
+  const callerSignal = context.init.signal;
+  const timeoutError = new ApiTimeoutError(getLocalizedError('errors.requestTimeout', context.locale), { timeoutMs });
+
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+  const timer = setTimeout(() => controller.abort(timeoutError), timeoutMs);
+
+  try {
+    return await next({ ...context, init: { ...context.init, signal: controller.signal } });
+  } catch (error) {
+    throw controller.signal.reason === timeoutError ? timeoutError : error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+};
+
+/**
+ * Sets the Accept-Language header from the request or current locale
+ */
+export const localeMiddleware: ApiMiddleware = (context, next) => {
+  if (!context.init.headers.has('Accept-Language')) {
+    context.init.headers.set('Accept-Language', context.locale || getCurrentLocaleForHeaders());
+  }
+  return next(context);
+};
+
+/**
+ * Refreshes the access token on 401 and replays the request once
+ *
+ * Ends the session when the token cannot be refreshed.
+ */
+export const unauthorizedMiddleware: ApiMiddleware = async (context, next) => {
+  const response = await next(context);
+
+  if (response.status !== 401 || !context.token || context.options.skipAuthRefresh) {
+    return response;
+  }
+
+  let refreshedToken: string;
+  try {
+    refreshedToken = await resolveTokenAfterUnauthorized(context.token);
+  } catch (error) {
+    // The session is over - surface the original 401
+    notifySessionExpired(error);
+    return response;
+  }
+
+  return next({
+    ...context,
+    token: refreshedToken,
+    init: { ...context.init, headers: new Headers(context.init.headers) },
+  });
+};
+
+/**
+ * Sets the Authorization header, waiting for any refresh in flight
+ *
+ * In the browser, authenticated backend calls are sent through the session
+ * proxy instead, which adds the header from the session cookie (see
+ * `./session-proxy`).
+ */
+export const authHeaderMiddleware: ApiMiddleware = async (context, next) => {
+  let token = context.token;
+
+  // Queue behind a refresh that is already in flight
+  const pendingRefresh = getPendingTokenRefresh();
+  if (token && pendingRefresh && !context.options.skipAuthRefresh) {
+    try {
+      token = await pendingRefresh;
+    } catch {
+      // Refresh failed - send with the original token and surface its 401
+    }
+  }
+
+  const proxyUrl = token ? toSessionProxyUrl(context.url) : null;
+  if (proxyUrl) {
+    return next({ ...context, token, url: proxyUrl });
+  }
+
+  if (token) {
+    context.init.headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  return next({ ...context, token });
+};
+
+/**
+ * Built-in middlewares in outer-to-inner order
+ */
+export const BUILT_IN_MIDDLEWARES: ApiMiddleware[] = [
+  requestIdMiddleware,
+  loggingMiddleware,
+  networkLogMiddleware,
+  timingMiddleware,
+  timeoutMiddleware,
+  localeMiddleware,
+  httpCacheMiddleware,
+  retryMiddleware,
+  unauthorizedMiddleware,
+  authHeaderMiddleware,
+];
@@ -0,0 +1,315 @@
+/**
+ * Request Correlation and Network Log
+ *
+ * This file contains the middlewares that give every API call a request ID
+ * (sent as `X-Request-ID` when the call is preflighted anyway) and, in
+ * development, keep a log of recent calls for the network inspector panel.
+ *
+ * The request ID is generated once per `apiRequest` call (retries and the
+ * replay after a token refresh reuse it) and is attached to any `ApiError`
+ * the call throws, so a failure reported by a user can be matched with the
+ * backend logs.
+ */
+
+import { isDevelopment } from '@/lib/env';
+import { parseErrorResponse } from './error-handler';
+import { createIdempotencyKey } from './retry';
+import type { ApiMiddleware, ApiRequestContext } from './middleware';
+
+/**
+ * Header carrying the request ID
+ */
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+/**
+ * Maximum number of calls kept in the log
+ */
+const MAX_ENTRIES = 100;
+
+/**
+ * Longest body kept in the log, in characters
+ */
+const MAX_BODY_LENGTH = 20_000;
+
+/**
+ * Request headers never shown in the log
+ */
+const REDACTED_HEADERS = ['authorization', 'cookie'];
+
+/**
+ * JSON body fields never shown in the log
+ */
+const REDACTED_FIELD_PATTERN = /password/i;
+
+/**
+ * A single API call recorded in development
+ */
+export interface NetworkLogEntry {
+  /** Request ID sent as `X-Request-ID` */
+  requestId: string;
+
+  method: string;
+  url: string;
+
+  /** Time the call started (ms since epoch) */
+  startedAt: number;
+
+  /** Total duration including retries, once finished */
+  durationMs?: number;
+
+  /** `pending` until the call finishes; `error` for failed responses and thrown errors */
+  state: 'pending' | 'success' | 'error';
+
+  /** HTTP status (0 when no response was received) */
+  status?: number;
+
+  /** Response body size in bytes */
+  size?: number;
+
+  /** HTTP cache outcome (`hit` or `revalidated`), if any */
+  cache?: string;
+
+  /** Number of retries that were needed */
+  retryCount?: number;
+
+  request: {
+    headers: [string, string][];
+    body?: string;
+  };
+
+  response?: {
+    statusText: string;
+    headers: [string, string][];
+    body: unknown;
+  };
+
+  /** Error thrown instead of a response (network failure, timeout, cancellation) */
+  error?: {
+    name: string;
+    message: string;
+  };
+}
+
+let entries: NetworkLogEntry[] = [];
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+function updateEntry(requestId: string, changes: Partial<NetworkLogEntry>): void {
+  entries = entries.map(entry => (entry.requestId === requestId ? { ...entry, ...changes } : entry));
+  notify();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}…` : text;
+}
+
+function describeBody(body: BodyInit | null | undefined): string | undefined {
+  if (body === null || body === undefined) return undefined;
+  if (typeof body === 'string') return truncate(redactJson(body));
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return `[FormData: ${Array.from(body.keys()).join(', ')}]`;
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return `[Blob: ${body.size} bytes]`;
+  }
+  return `[${Object.prototype.toString.call(body).slice(8, -1)}]`;
+}
+
+function redactJson(text: string): string {
+  try {
+    return JSON.stringify(
+      JSON.parse(text),
+      (key, value) => (REDACTED_FIELD_PATTERN.test(key) ? '[redacted]' : value),
+      2
+    );
+  } catch {
+    return text;
+  }
+}
+
+function toHeaderList(headers: Headers, redact = false): [string, string][] {
+  return Array.from(headers.entries()).map(([name, value]) => [
+    name,
+    redact && REDACTED_HEADERS.includes(name) ? '[redacted]' : value,
+  ]);
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return truncate(text);
+  }
+}
+
+/**
+ * Methods a cross-origin request can use without a CORS preflight
+ */
+const SIMPLE_METHODS = ['GET', 'HEAD', 'POST'];
+
+/**
+ * Request headers a cross-origin request can send without a CORS preflight
+ * (`Content-Type` only with the values in `SIMPLE_CONTENT_TYPES`)
+ */
+const SIMPLE_HEADERS = ['accept', 'accept-language', 'content-language', 'content-type'];
+
+const SIMPLE_CONTENT_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'];
+
+/**
+ * Whether the browser sends a CORS preflight for the request anyway
+ *
+ * Same-origin requests and requests made on the server never preflight, so
+ * any header can be added to them. The `Authorization` header is added later
+ * in the chain, so a request with a token counts as preflighted.
+ */
+function isPreflighted(context: ApiRequestContext): boolean {
+  if (typeof window === 'undefined' || new URL(context.url, window.location.href).origin === window.location.origin) {
+    return true;
+  }
+
+  if (context.token || !SIMPLE_METHODS.includes((context.init.method || 'GET').toUpperCase())) {
+    return true;
+  }
+
+  let preflighted = false;
+  context.init.headers.forEach((value, key) => {
+    const contentType = value.split(';')[0].trim().toLowerCase();
+    if (!SIMPLE_HEADERS.includes(key) || (key === 'content-type' && !SIMPLE_CONTENT_TYPES.includes(contentType))) {
+      preflighted = true;
+    }
+  });
+  return preflighted;
+}
+
+/**
+ * Sets `context.meta.requestId` and, where it costs no extra round trip, the
+ * `X-Request-ID` header
+ *
+ * The header makes a cross-origin request non-simple, so adding it to an
+ * otherwise simple request (e.g. an anonymous GET of a public listing) would
+ * cost a CORS preflight. It is only sent on requests that are preflighted
+ * anyway; the others still get an ID for logging and `ApiError.requestId`.
+ *
+ * A request ID passed in `customHeaders` is kept (and always sent).
+ */
+export const requestIdMiddleware: ApiMiddleware = (context, next) => {
+  const requestId = context.init.headers.get(REQUEST_ID_HEADER) || createIdempotencyKey();
+  if (isPreflighted(context)) {
+    context.init.headers.set(REQUEST_ID_HEADER, requestId);
+  }
+  context.meta.requestId = requestId;
+  return next(context);
+};
+
+/**
+ * Records each call in the network log (development, browser only)
+ *
+ * Also records the response size in `context.meta.responseSize` for logging.
+ * Error bodies are read with `parseErrorResponse`; bodies are read from
+ * clones, so the caller still receives the untouched response.
+ */
+export const networkLogMiddleware: ApiMiddleware = async (context, next) => {
+  if (!isDevelopment || typeof window === 'undefined') {
+    return next(context);
+  }
+
+  const requestId = String(context.meta.requestId);
+  const startedAt = Date.now();
+  entries = [
+    {
+      requestId,
+      method: (context.init.method || 'GET').toUpperCase(),
+      url: context.url,
+      startedAt,
+      state: 'pending' as const,
+      request: { headers: [], body: describeBody(context.init.body) },
+    },
+    ...entries,
+  ].slice(0, MAX_ENTRIES);
+  notify();
+
+  let response: Response;
+  try {
+    response = await next(context);
+  } catch (error) {
+    updateEntry(requestId, {
+      state: 'error',
+      status: 0,
+      durationMs: Date.now() - startedAt,
+      retryCount: context.meta.retryCount as number | undefined,
+      request: { headers: toHeaderList(context.init.headers, true), body: describeBody(context.init.body) },
+      error: {
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+
+  let body: unknown = null;
+  let size: number | undefined;
+  try {
+    if (response.ok) {
+      const text = await response.clone().text();
+      size = new Blob([text]).size;
+      body = parseBody(text);
+    } else {
+      const [details, blob] = await Promise.all([parseErrorResponse(response.clone()), response.clone().blob()]);
+      body = details.body;
+      size = blob.size;
+    }
+  } catch {
+    // Body could not be read - log the call without it
+  }
+  const contentLength = Number(response.headers.get('Content-Length'));
+  size ??= Number.isFinite(contentLength) && contentLength > 0 ? contentLength : undefined;
+  context.meta.responseSize = size;
+
+  updateEntry(requestId, {
+    state: response.ok || response.status === 304 ? 'success' : 'error',
+    status: response.status,
+    size,
+    durationMs: Date.now() - startedAt,
+    cache: context.meta.cache as string | undefined,
+    retryCount: context.meta.retryCount as number | undefined,
+    request: { headers: toHeaderList(context.init.headers, true), body: describeBody(context.init.body) },
+    response: {
+      statusText: response.statusText,
+      headers: toHeaderList(response.headers),
+      body,
+    },
+  });
+
+  return response;
+};
+
+/**
+ * Returns the recorded calls, most recent first
+ */
+export function getNetworkLog(): NetworkLogEntry[] {
+  return entries;
+}
+
+/**
+ * Subscribes to changes of the network log
+ *
+ * @param listener - Called whenever an entry is added or updated
+ * @returns Function that removes the listener
+ */
+export function subscribeNetworkLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Removes every recorded call
+ */
+export function clearNetworkLog(): void {
+  entries = [];
+  notify();
+}
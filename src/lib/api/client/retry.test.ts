@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiNetworkError } from './errors';
+import type { ApiRequestContext } from './middleware';
+import { DEFAULT_RETRY_POLICY, computeRetryDelay, resolveRetryPolicy, retryMiddleware } from './retry';
+
+function createContext(method = 'GET', options: ApiRequestContext['options'] = {}): ApiRequestContext {
+  return {
+    url: 'https://api.example.com/assets/',
+    init: { method, headers: new Headers() },
+    options,
+    meta: {},
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('computeRetryDelay', () => {
+  it('grows exponentially up to the maximum delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+
+    expect(computeRetryDelay(0, DEFAULT_RETRY_POLICY)).toBe(300);
+    expect(computeRetryDelay(1, DEFAULT_RETRY_POLICY)).toBe(600);
+    expect(computeRetryDelay(2, DEFAULT_RETRY_POLICY)).toBe(1200);
+    expect(computeRetryDelay(10, DEFAULT_RETRY_POLICY)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+
+  it('applies full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    expect(computeRetryDelay(3, DEFAULT_RETRY_POLICY)).toBe(0);
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('merges overrides into the default policy', () => {
+    expect(resolveRetryPolicy({ retries: 5 })).toEqual({ ...DEFAULT_RETRY_POLICY, retries: 5 });
+  });
+
+  it('disables retries with false', () => {
+    expect(resolveRetryPolicy(false)).toBeNull();
+  });
+});
+
+describe('retryMiddleware', () => {
+  it('retries transient statuses until the request succeeds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const context = createContext();
+    const next = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    const response = await retryMiddleware(context, next);
+
+    expect(response.status).toBe(200);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(context.meta.retryCount).toBe(1);
+  });
+
+  it('returns the last response once the retries are used up', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const next = vi.fn().mockImplementation(async () => new Response(null, { status: 502 }));
+
+    const response = await retryMiddleware(createContext(), next);
+
+    expect(response.status).toBe(502);
+    expect(next).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.retries + 1);
+  });
+
+  it('waits for Retry-After', async () => {
+    vi.useFakeTimers();
+    const next = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '2' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    const pending = retryMiddleware(createContext(), next);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).status).toBe(200);
+  });
+
+  it('gives up when Retry-After exceeds the policy', async () => {
+    const next = vi.fn().mockResolvedValue(new Response(null, { status: 503, headers: { 'Retry-After': '120' } }));
+
+    const response = await retryMiddleware(createContext(), next);
+
+    expect(response.status).toBe(503);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries network errors', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const next = vi.fn()
+      .mockRejectedValueOnce(new ApiNetworkError('Network error'))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+    expect((await retryMiddleware(createContext(), next)).status).toBe(200);
+  });
+
+  it('does not retry mutations without an idempotency key', async () => {
+    const next = vi.fn().mockResolvedValue(new Response(null, { status: 503 }));
+
+    await retryMiddleware(createContext('POST'), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries mutations with an idempotency key and sends it', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const context = createContext('POST', { idempotencyKey: 'key-1' });
+    const next = vi.fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 201 }));
+
+    expect((await retryMiddleware(context, next)).status).toBe(201);
+    expect(context.init.headers.get('Idempotency-Key')).toBe('key-1');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Request Retry Policy
+ *
+ * This file contains the retry middleware used by `apiRequest`. Transient
+ * failures (dropped connections, 5xx gateway errors, rate limiting) are retried
+ * with jittered exponential backoff, honouring `Retry-After` when the backend
+ * sends it.
+ *
+ * Only idempotent methods (GET/HEAD) are retried by default. Mutations opt in
+ * by passing an `idempotencyKey`, which is sent as the `Idempotency-Key` header
+ * so the backend can safely deduplicate replayed requests.
+ */
+
+import { ApiNetworkError, parseRetryAfterSeconds } from './errors';
+import type { ApiMiddleware } from './middleware';
+
+/**
+ * Controls when and how often a request is retried
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt */
+  retries: number;
+
+  /** Base delay for the exponential backoff, in milliseconds */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay, in milliseconds */
+  maxDelayMs: number;
+
+  /** Longest `Retry-After` the client is willing to wait, in milliseconds */
+  maxRetryAfterMs: number;
+
+  /** HTTP methods retried without an idempotency key */
+  methods: string[];
+
+  /** Response statuses considered transient */
+  statuses: number[];
+
+  /** Whether to retry when no response was received */
+  retryOnNetworkError: boolean;
+}
+
+/**
+ * Default retry policy applied to every request
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 30000,
+  methods: ['GET', 'HEAD'],
+  statuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+/**
+ * Statuses whose `Retry-After` header is honoured
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Resolves the effective retry policy for a request
+ *
+ * @param override - Per-request overrides, or false to disable retries
+ * @returns The merged policy, or null if retries are disabled
+ */
+export function resolveRetryPolicy(override?: Partial<RetryPolicy> | false): RetryPolicy | null {
+  if (override === false) {
+    return null;
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...override };
+}
+
+/**
+ * Computes the backoff delay before a retry using full jitter
+ *
+ * @param attempt - Zero-based retry number
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Generates a key identifying one logical mutation across retries
+ *
+ * @returns A unique idempotency key
+ *
+ * @example
+ * ```typescript
+ * await apiRequest('/assets/1/request-access/', {
+ *   method: 'POST',
+ *   body: JSON.stringify(data),
+ *   idempotencyKey: createIdempotencyKey(),
+ * });
+ * ```
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Waits for the given delay, rejecting early if the request is aborted
+ */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Retries transient failures according to `options.retry`
+ *
+ * Sets the `Idempotency-Key` header when `options.idempotencyKey` is given,
+ * which also makes non-idempotent methods eligible for retries.
+ */
+export const retryMiddleware: ApiMiddleware = async (context, next) => {
+  const { idempotencyKey, retry } = context.options;
+
+  if (idempotencyKey) {
+    context.init.headers.set('Idempotency-Key', idempotencyKey);
+  }
+
+  const policy = resolveRetryPolicy(retry);
+  const method = (context.init.method || 'GET').toUpperCase();
+  if (!policy || (!idempotencyKey && !policy.methods.includes(method))) {
+    return next(context);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < policy.retries;
+    let delay = computeRetryDelay(attempt, policy);
+
+    try {
+      const response = await next(context);
+
+      if (!canRetry || !policy.statuses.includes(response.status)) {
+        return response;
+      }
+
+      if (RETRY_AFTER_STATUSES.includes(response.status)) {
+        const retryAfter = parseRetryAfterSeconds(response.headers.get('Retry-After'));
+        if (retryAfter !== undefined) {
+          // Waiting longer than the policy allows - surface the response instead
+          if (retryAfter * 1000 > policy.maxRetryAfterMs) {
+            return response;
+          }
+          delay = retryAfter * 1000;
+        }
+      }
+    } catch (error) {
+      if (!canRetry || !policy.retryOnNetworkError || !(error instanceof ApiNetworkError)) {
+        throw error;
+      }
+    }
+
+    await wait(delay, context.init.signal);
+    context.meta.retryCount = attempt + 1;
+  }
+};
@@ -0,0 +1,50 @@
+/**
+ * Session Proxy
+ *
+ * In the browser, authenticated backend calls are sent through the app's
+ * `/api/backend` route handler, which attaches the access token from the
+ * httpOnly `auth_token` cookie. The session routes only give the browser the
+ * token's claims without its signature (see `@/lib/auth-session`): enough to
+ * tell tokens apart and schedule refreshes, but useless as a credential, so a
+ * script injected into the page cannot take the token elsewhere.
+ *
+ * Anonymous calls still go straight to the backend. Calls to the mock
+ * backend are answered in the browser and are not proxied either.
+ */
+
+import { env, isApiMocking } from '@/lib/env';
+
+/**
+ * Path of the proxy route handler
+ */
+export const SESSION_PROXY_PATH = '/api/backend';
+
+/**
+ * Query parameter carrying the backend path (and query) of a proxied call
+ *
+ * A query parameter rather than a path segment, since Next.js would strip
+ * the trailing slash the backend's paths end with.
+ */
+export const SESSION_PROXY_PARAM = 'path';
+
+/**
+ * Returns the proxy URL for an authenticated backend call
+ *
+ * @param url - Fully resolved backend URL
+ * @returns The URL to send the call to instead, or null if it goes to the backend directly
+ *
+ * @example
+ * ```typescript
+ * toSessionProxyUrl(`${API_BASE_URL}/assets/1/download/`);
+ * // => 'https://cms.example.com/api/backend?path=%2Fassets%2F1%2Fdownload%2F'
+ * ```
+ */
+export function toSessionProxyUrl(url: string): string | null {
+  const baseUrl = env.NEXT_PUBLIC_BACKEND_URL;
+  if (typeof window === 'undefined' || isApiMocking || !url.startsWith(`${baseUrl}/`)) {
+    return null;
+  }
+
+  const backendPath = url.slice(baseUrl.length);
+  return `${window.location.origin}${SESSION_PROXY_PATH}?${SESSION_PROXY_PARAM}=${encodeURIComponent(backendPath)}`;
+}
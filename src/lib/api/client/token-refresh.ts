@@ -0,0 +1,133 @@
+/**
+ * Access Token Refresh
+ *
+ * This file coordinates transparent access-token refresh for the API client.
+ * A single refresh runs at a time: concurrent requests that hit a 401 (or that
+ * start while a refresh is in flight) wait for the same refresh and replay
+ * with the new access token.
+ *
+ * The client layer does not know where tokens are stored, so the auth layer
+ * registers its storage hooks through `configureTokenRefresh`. When the
+ * refresh token lives in an httpOnly cookie, `getRefreshToken` is omitted and
+ * `refresh` is called without one.
+ */
+
+import type { RefreshTokenOut } from '@/lib/types/api/auth.types';
+import { ApiAuthError } from './errors';
+
+/**
+ * Hooks used by the API client to refresh the access token
+ */
+export interface TokenRefreshConfig {
+  /** Returns the current access token, if any */
+  getAccessToken: () => string | null;
+
+  /** Returns the stored refresh token, if any; omit when the refresh token is not readable (e.g. an httpOnly cookie) */
+  getRefreshToken?: () => string | null;
+
+  /** Exchanges the refresh token for a new access token */
+  refresh: (refreshToken?: string) => Promise<RefreshTokenOut>;
+
+  /** Persists the newly issued tokens */
+  onTokenRefreshed: (tokens: RefreshTokenOut) => void;
+
+  /** Called when a 401 cannot be recovered by refreshing and the session is over */
+  onSessionExpired: (error: unknown) => void;
+}
+
+let refreshConfig: TokenRefreshConfig | null = null;
+let pendingRefresh: Promise<string> | null = null;
+
+/**
+ * Registers (or clears) the token refresh hooks
+ *
+ * @param config - Refresh hooks, or null to disable transparent refresh
+ *
+ * @example
+ * ```typescript
+ * configureTokenRefresh({
+ *   getAccessToken: tokenStorage.getToken,
+ *   refresh: () => refreshSession(),
+ *   onTokenRefreshed: (tokens) => tokenStorage.setToken(tokens.access),
+ *   onSessionExpired: () => logout(),
+ * });
+ * ```
+ */
+export function configureTokenRefresh(config: TokenRefreshConfig | null): void {
+  refreshConfig = config;
+}
+
+/**
+ * Whether a refresh token is available to recover from a 401
+ */
+export function canRefreshToken(): boolean {
+  if (!refreshConfig) return false;
+  return refreshConfig.getRefreshToken ? !!refreshConfig.getRefreshToken() : true;
+}
+
+/**
+ * Returns the refresh currently in flight, if any
+ */
+export function getPendingTokenRefresh(): Promise<string> | null {
+  return pendingRefresh;
+}
+
+/**
+ * Refreshes the access token, sharing a single in-flight refresh
+ *
+ * @returns Promise resolving to the new access token
+ * @throws ApiAuthError if no refresh token is available, or the refresh error
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (pendingRefresh) {
+    return pendingRefresh;
+  }
+
+  const config = refreshConfig;
+  if (!config || !canRefreshToken()) {
+    return Promise.reject(new ApiAuthError('No refresh token available', { status: 401 }));
+  }
+
+  pendingRefresh = config
+    .refresh(config.getRefreshToken?.() ?? undefined)
+    .then(tokens => {
+      config.onTokenRefreshed(tokens);
+      return tokens.access;
+    })
+    .finally(() => {
+      pendingRefresh = null;
+    });
+
+  return pendingRefresh;
+}
+
+/**
+ * Resolves a valid access token after a request failed with 401
+ *
+ * If the token was already replaced by another request's refresh, the
+ * current token is returned without refreshing again.
+ *
+ * @param rejectedToken - The access token the backend rejected
+ * @returns Promise resolving to the access token to replay with
+ */
+export function resolveTokenAfterUnauthorized(rejectedToken: string): Promise<string> {
+  const currentToken = refreshConfig?.getAccessToken();
+  if (!pendingRefresh && currentToken && currentToken !== rejectedToken) {
+    return Promise.resolve(currentToken);
+  }
+  return refreshAccessToken();
+}
+
+/**
+ * Ends the session after an unrecoverable 401
+ *
+ * Only notifies while a session still exists, so concurrent failing
+ * requests trigger a single logout.
+ *
+ * @param error - The error that prevented the refresh
+ */
+export function notifySessionExpired(error: unknown): void {
+  if (refreshConfig?.getAccessToken()) {
+    refreshConfig.onSessionExpired(error);
+  }
+}
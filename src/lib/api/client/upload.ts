@@ -0,0 +1,162 @@
+/**
+ * API Upload Transport
+ *
+ * This file contains the pieces behind `apiUpload`: progress types, a
+ * `FormData` builder and an XMLHttpRequest transport. `fetch` cannot report
+ * upload progress, so requests with an `onUploadProgress` handler are sent
+ * through XHR at the end of the middleware chain and converted back to a
+ * `Response`, keeping auth, token refresh, timeouts and logging unchanged.
+ */
+
+import type { ApiRequestContext } from './middleware';
+
+/**
+ * Upload progress snapshot
+ */
+export interface UploadProgress {
+  /** Bytes sent so far */
+  loaded: number;
+
+  /** Total bytes to send, or null if unknown */
+  total: number | null;
+
+  /** Percentage sent (0-100), or null if the total is unknown */
+  percent: number | null;
+}
+
+/**
+ * Receives upload progress events
+ */
+export type UploadProgressHandler = (progress: UploadProgress) => void;
+
+/**
+ * Values accepted by buildFormData
+ */
+export type FormDataValue = string | number | boolean | Blob | null | undefined;
+
+/**
+ * Builds a FormData body from plain fields and files
+ *
+ * Null and undefined values are skipped; arrays are appended once per item.
+ *
+ * @param fields - Field names mapped to values, files or arrays of either
+ * @returns FormData ready to pass to `apiUpload`
+ *
+ * @example
+ * ```typescript
+ * const body = buildFormData({ name: 'Tafsir', publisher_id: 3, file });
+ * ```
+ */
+export function buildFormData(fields: Record<string, FormDataValue | FormDataValue[]>): FormData {
+  const formData = new FormData();
+
+  Object.entries(fields).forEach(([key, value]) => {
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach(item => {
+      if (item === null || item === undefined) return;
+      if (item instanceof Blob) {
+        formData.append(key, item, item instanceof File ? item.name : undefined);
+      } else {
+        formData.append(key, String(item));
+      }
+    });
+  });
+
+  return formData;
+}
+
+/**
+ * Whether a request body is sent as-is rather than JSON
+ *
+ * Such bodies must not get a JSON Content-Type: the browser sets the
+ * multipart boundary (FormData) or the blob's own type.
+ */
+export function isRawBody(body: unknown): boolean {
+  return (
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof URLSearchParams
+  );
+}
+
+/**
+ * Creates a progress snapshot
+ *
+ * @param loaded - Bytes sent so far
+ * @param total - Total bytes, or null if unknown
+ */
+export function toUploadProgress(loaded: number, total: number | null): UploadProgress {
+  return {
+    loaded,
+    total,
+    percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : null,
+  };
+}
+
+function parseResponseHeaders(rawHeaders: string): Headers {
+  const headers = new Headers();
+  rawHeaders.trim().split(/[\r\n]+/).forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  });
+  return headers;
+}
+
+/**
+ * Sends a request with XMLHttpRequest, reporting upload progress
+ *
+ * Resolves with a `Response` like `fetch` does, rejects with a TypeError on
+ * connection failure and with the signal's reason when aborted.
+ *
+ * @param context - Request context at the end of the middleware chain
+ * @param onProgress - Receives upload progress events
+ * @returns Promise resolving to the response
+ */
+export function sendWithXhr(context: ApiRequestContext, onProgress: UploadProgressHandler): Promise<Response> {
+  const { init } = context;
+  const signal = init.signal;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', context.url);
+    xhr.withCredentials = init.credentials === 'include';
+    init.headers.forEach((value, key) => xhr.setRequestHeader(key, value));
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = event => {
+      onProgress(toUploadProgress(event.loaded, event.lengthComputable ? event.total : null));
+    };
+
+    xhr.onload = () => {
+      cleanup();
+      const hasBody = ![101, 204, 205, 304].includes(xhr.status);
+      resolve(new Response(hasBody ? xhr.responseText : null, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    };
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * API Response Validation
+ *
+ * This file checks successful response bodies against their runtime schemas
+ * (see `@/lib/api/schemas`) to detect drift between the backend contract and
+ * the TypeScript types.
+ *
+ * In development and tests a mismatch throws an `ApiContractError` describing
+ * every offending field. In production the data is passed through unchanged,
+ * a warning is logged and the violation is handed to the configured reporter
+ * so it can be sent to telemetry.
+ */
+
+import { isProduction } from '@/lib/env';
+import { validate } from '../schemas/core';
+import type { Schema, SchemaIssue } from '../schemas/core';
+import { ApiContractError } from './errors';
+
+/**
+ * A response that did not match its schema
+ */
+export interface ContractViolation {
+  /** URL of the request */
+  url: string;
+
+  /** HTTP status of the response */
+  status: number;
+
+  /** Name of the expected response type */
+  expected: string;
+
+  /** Every mismatch found */
+  issues: SchemaIssue[];
+}
+
+/**
+ * Receives contract violations in production (e.g. to forward them to telemetry)
+ */
+export type ContractViolationReporter = (violation: ContractViolation) => void;
+
+let reporter: ContractViolationReporter | null = null;
+
+/**
+ * Sets the function that receives contract violations in production
+ *
+ * @param nextReporter - The reporter, or null to only log warnings
+ *
+ * @example
+ * ```typescript
+ * setContractViolationReporter(violation => {
+ *   analytics.track('api_contract_violation', violation);
+ * });
+ * ```
+ */
+export function setContractViolationReporter(nextReporter: ContractViolationReporter | null): void {
+  reporter = nextReporter;
+}
+
+function formatIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map(issue => `  - ${issue.path || '(root)'}: expected ${issue.expected}, received ${issue.received}`)
+    .join('\n');
+}
+
+/**
+ * Checks a parsed response body against its schema
+ *
+ * @param schema - Schema of the expected response
+ * @param data - Parsed response body
+ * @param response - The response the body came from
+ * @param url - URL of the request (mocked responses have no `response.url`)
+ * @returns The data, typed by the schema
+ * @throws ApiContractError outside production when the data does not match
+ */
+export function validateResponseData<T>(
+  schema: Schema<T>,
+  data: unknown,
+  response: Response,
+  url = response.url
+): T {
+  const issues = validate(schema, data);
+  if (issues.length === 0) {
+    return data as T;
+  }
+
+  const violation: ContractViolation = {
+    url,
+    status: response.status,
+    expected: schema.description,
+    issues,
+  };
+  const message = `Response from ${url} does not match ${schema.description}:\n${formatIssues(issues)}`;
+
+  if (!isProduction) {
+    throw new ApiContractError(message, { status: response.status, issues, url });
+  }
+
+  console.warn(message);
+  try {
+    reporter?.(violation);
+  } catch {
+    // A failing reporter must never break the request
+  }
+
+  return data as T;
+}
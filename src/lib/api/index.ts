@@ -22,17 +22,60 @@ export {
   apiPut,
   apiPatch,
   apiDelete,
+  apiUpload,
+  buildFormData,
   buildUrlWithParams,
   handleApiError,
   handleApiResponse,
   parseErrorResponse,
   isNetworkError,
+  isAbortError,
   isAuthError,
   getErrorMessage,
+  ApiError,
+  ApiValidationError,
+  ApiAuthError,
+  ApiPermissionError,
+  ApiNotFoundError,
+  ApiConflictError,
+  ApiPreconditionFailedError,
+  ApiRateLimitError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  ApiContractError,
+  createApiError,
+  setContractViolationReporter,
+  configureTokenRefresh,
+  refreshAccessToken,
+  notifySessionExpired,
+  registerApiMiddleware,
+  invalidateHttpCache,
+  clearHttpCache,
+  REQUEST_ID_HEADER,
+  getNetworkLog,
+  subscribeNetworkLog,
+  clearNetworkLog,
+  DEFAULT_RETRY_POLICY,
+  createIdempotencyKey,
+  toUploadProgress,
 } from './client';
 
 export type {
   ApiRequestOptions,
+  RequestControlOptions,
+  ResponseValidationOptions,
+  ContractViolation,
+  ContractViolationReporter,
+  UploadProgress,
+  UploadProgressHandler,
+  FormDataValue,
+  ApiErrorOptions,
+  TokenRefreshConfig,
+  ApiMiddleware,
+  ApiNext,
+  ApiRequestContext,
+  RetryPolicy,
+  NetworkLogEntry,
 } from './client';
 
 // Re-export all API services
@@ -44,18 +87,44 @@ export {
   refreshToken,
   getUserProfile,
   updateUserProfile,
+  requestPasswordReset,
+  confirmPasswordReset,
+  verifyEmail,
+  resendVerificationEmail,
+  changePassword,
+  changeEmail,
+  deleteAccount,
+  cancelAccountDeletion,
+  startOAuth,
+  completeOAuth,
+  reauthenticateWithOAuth,
   startGoogleOAuth,
   startGitHubOAuth,
   
+  // Session services
+  loginSession,
+  registerSession,
+  refreshSession,
+  getSession,
+  endSession,
+  oauthSession,
+  
   // Assets services
   getAssets,
+  iterateAssets,
   getAssetDetails,
   getAssetAccessStatus,
   requestAssetAccess,
   downloadAsset,
   getResources,
+  iterateResources,
   getResourceDetails,
   createResource,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+  completeUpload,
+  uploadResourceOriginal,
   updateResource,
   partialUpdateResource,
   deleteResource,
@@ -63,3 +132,71 @@ export {
   getPublisherDetails,
 } from './services';
 
+
+// Re-export the client-side query cache
+export {
+  DEFAULT_STALE_TIME,
+  hashQueryKey,
+  getQueryState,
+  getQueryData,
+  setQueryData,
+  subscribeQuery,
+  fetchQuery,
+  prefetchQuery,
+  invalidateQueries,
+  clearQueryCache,
+} from './query-cache';
+
+export type {
+  QueryKey,
+  QueryFetcher,
+  QueryState,
+  FetchQueryOptions,
+} from './query-cache';
+
+export { queryKeys } from './query-keys';
+
+// Re-export resumable upload state helpers
+export {
+  DEFAULT_CHUNK_SIZE,
+  getPendingUploads,
+  clearUploadState,
+} from './resumable-upload';
+
+export type { PersistedUpload } from './resumable-upload';
+
+// Re-export pagination helpers
+export {
+  iteratePages,
+  iterateItems,
+  collectAll,
+} from './pagination';
+
+export type {
+  PageFetcher,
+  PageLinkFetcher,
+  IteratePagesOptions,
+  CollectAllOptions,
+} from './pagination';
+
+// Re-export the offline outbox
+export {
+  accessRequestMutation,
+  enqueueMutation,
+  sendOrQueue,
+  replayOutbox,
+  retryOutboxItem,
+  dismissOutboxItem,
+  clearOutbox,
+  getOutboxItems,
+  subscribeOutbox,
+} from './outbox';
+
+export type {
+  OutboxMutation,
+  OutboxMutationType,
+  OutboxStatus,
+  OutboxItem,
+  OutboxSession,
+  SendOrQueueResult,
+} from './outbox';
@@ -0,0 +1,285 @@
+/**
+ * Mock Backend Fixtures
+ *
+ * Seed data for the mock backend: users, publishers, resources, assets and
+ * access requests. `createMockDatabase` returns a fresh copy that the
+ * handlers are free to mutate.
+ */
+
+import type { UserProfileSchema } from '@/lib/types/api/auth.types';
+import type {
+  AccessGrantOut,
+  AccessRequestOut,
+  DetailAssetOut,
+  DetailPublisherOut,
+  ResourceOut,
+  UploadSessionOut,
+} from '@/lib/types/api/assets.types';
+
+/**
+ * User record, including the password the mock login checks against
+ */
+export interface MockUser extends UserProfileSchema {
+  password: string;
+
+  /** Addresses the user changed away from, still named by tokens issued before the change */
+  former_emails?: string[];
+}
+
+/**
+ * Asset record with the fields needed for filtering and access checks
+ */
+export interface MockAsset extends DetailAssetOut {
+  /** Whether access requests need a publisher's approval */
+  requires_approval: boolean;
+
+  /** Creation timestamp, used for ordering */
+  created_at: string;
+}
+
+/**
+ * Access request record
+ */
+export interface MockAccessRequest extends AccessRequestOut {
+  user_id: string;
+
+  /** Idempotency key the request was submitted with, if any */
+  idempotency_key?: string;
+}
+
+/**
+ * Access grant record
+ */
+export interface MockAccessGrant extends AccessGrantOut {
+  user_id: string;
+}
+
+/**
+ * Chunked upload session record
+ */
+export interface MockUploadSession extends UploadSessionOut {
+  user_id: string;
+  content_type: string;
+
+  /** SHA-256 of each received chunk, by index */
+  checksums: Record<number, string>;
+
+  /** Resource the upload was linked to on completion */
+  resource_id: number | null;
+}
+
+/**
+ * Password reset link record
+ */
+export interface MockPasswordReset {
+  token: string;
+  email: string;
+
+  /** Account the link resets, or null if the email is not registered */
+  user_id: string | null;
+  created_at: string;
+  expires_at: string;
+  used: boolean;
+}
+
+/**
+ * Verification email record, kept to rate-limit resends
+ */
+export interface MockVerificationEmail {
+  user_id: string;
+  sent_at: string;
+}
+
+/**
+ * Re-authentication through a social sign-in provider, valid for a few minutes
+ */
+export interface MockReauthentication {
+  token: string;
+  user_id: string;
+  expires_at: string;
+}
+
+/**
+ * Complete mutable state of the mock backend
+ */
+export interface MockDatabase {
+  users: MockUser[];
+  publishers: DetailPublisherOut[];
+  resources: ResourceOut[];
+  assets: MockAsset[];
+  accessRequests: MockAccessRequest[];
+  accessGrants: MockAccessGrant[];
+  uploads: MockUploadSession[];
+  passwordResets: MockPasswordReset[];
+  verificationEmails: MockVerificationEmail[];
+  reauthentications: MockReauthentication[];
+
+  /** Refresh token ids invalidated by logout or rotation */
+  revokedTokens: string[];
+
+  /** Next id per collection */
+  sequences: Record<'resources' | 'accessRequests' | 'accessGrants' | 'uploads', number>;
+}
+
+/**
+ * Credentials of the seeded demo account
+ */
+export const MOCK_DEMO_CREDENTIALS = {
+  email: 'demo@itqan.dev',
+  password: 'Password123!',
+};
+
+const SEED_TIMESTAMP = '2024-01-15T09:00:00Z';
+
+const publishers: DetailPublisherOut[] = [
+  {
+    id: 1,
+    name: 'Itqan Foundation',
+    slug: 'itqan-foundation',
+    description: 'A non-profit foundation curating open Quranic datasets for developers and researchers.',
+    address: 'Riyadh, Saudi Arabia',
+    website: 'https://itqan.dev',
+    is_verified: true,
+    contact_email: 'contact@itqan.dev',
+    icon_url: '/logo.svg',
+  },
+  {
+    id: 2,
+    name: 'Al-Bayan Tafsir Institute',
+    slug: 'al-bayan-tafsir-institute',
+    description: 'Scholars digitising classical and contemporary tafsir works.',
+    address: 'Cairo, Egypt',
+    website: 'https://example.org/al-bayan',
+    is_verified: true,
+    contact_email: 'info@al-bayan.example.org',
+    icon_url: null,
+  },
+  {
+    id: 3,
+    name: 'Tilawa Audio Lab',
+    slug: 'tilawa-audio-lab',
+    description: 'Studio-quality recitation recordings with verse-level timings.',
+    address: 'Kuala Lumpur, Malaysia',
+    website: 'https://example.org/tilawa',
+    is_verified: false,
+    contact_email: 'hello@tilawa.example.org',
+    icon_url: null,
+  },
+];
+
+const resources: ResourceOut[] = [
+  { id: 1, category: 'mushaf', name: 'Uthmani Mushaf Text', slug: 'uthmani-mushaf-text', description: 'Complete Uthmani script text with verse markers.', status: 'ready', publisher_id: 1, created_at: '2024-01-10T08:00:00Z', updated_at: '2024-03-02T10:30:00Z' },
+  { id: 2, category: 'mushaf', name: 'Indopak Mushaf Text', slug: 'indopak-mushaf-text', description: 'Indopak script text encoded in Unicode.', status: 'ready', publisher_id: 1, created_at: '2024-02-01T08:00:00Z', updated_at: '2024-02-20T12:00:00Z' },
+  { id: 3, category: 'tafsir', name: 'Tafsir Al-Muyassar', slug: 'tafsir-al-muyassar', description: 'Concise contemporary tafsir, verse by verse.', status: 'ready', publisher_id: 2, created_at: '2024-01-20T08:00:00Z', updated_at: '2024-04-11T09:15:00Z' },
+  { id: 4, category: 'tafsir', name: 'Tafsir Ibn Kathir (Abridged)', slug: 'tafsir-ibn-kathir-abridged', description: 'Abridged edition of the classical tafsir.', status: 'draft', publisher_id: 2, created_at: '2024-05-05T08:00:00Z', updated_at: '2024-05-05T08:00:00Z' },
+  { id: 5, category: 'recitation', name: 'Murattal Recitation Set', slug: 'murattal-recitation-set', description: 'Full murattal recitation in 114 surah files.', status: 'ready', publisher_id: 3, created_at: '2024-03-12T08:00:00Z', updated_at: '2024-03-30T16:45:00Z' },
+];
+
+interface AssetSeed {
+  name: string;
+  category: 'mushaf' | 'tafsir' | 'recitation';
+  license: string;
+  resourceId: number;
+  requiresApproval: boolean;
+  description: string;
+}
+
+const assetSeeds: AssetSeed[] = [
+  { name: 'Uthmani Text (JSON)', category: 'mushaf', license: 'CC0', resourceId: 1, requiresApproval: false, description: 'Verse-by-verse Uthmani text as JSON.' },
+  { name: 'Uthmani Text (SQLite)', category: 'mushaf', license: 'CC-BY', resourceId: 1, requiresApproval: false, description: 'Uthmani text packaged as a SQLite database.' },
+  { name: 'Uthmani Word Segmentation', category: 'mushaf', license: 'CC-BY-SA', resourceId: 1, requiresApproval: true, description: 'Word-level segmentation with positions.' },
+  { name: 'Indopak Text (JSON)', category: 'mushaf', license: 'CC-BY', resourceId: 2, requiresApproval: false, description: 'Indopak script text as JSON.' },
+  { name: 'Indopak Page Layout', category: 'mushaf', license: 'CC-BY-ND', resourceId: 2, requiresApproval: true, description: 'Line and page layout data for 15-line mushafs.' },
+  { name: 'Tafsir Al-Muyassar (Arabic)', category: 'tafsir', license: 'CC-BY-NC', resourceId: 3, requiresApproval: true, description: 'Arabic text of Tafsir Al-Muyassar.' },
+  { name: 'Tafsir Al-Muyassar (English)', category: 'tafsir', license: 'CC-BY-NC-SA', resourceId: 3, requiresApproval: true, description: 'English translation of Tafsir Al-Muyassar.' },
+  { name: 'Tafsir Al-Muyassar (Markdown)', category: 'tafsir', license: 'CC-BY', resourceId: 3, requiresApproval: false, description: 'Tafsir Al-Muyassar as one Markdown file per surah.' },
+  { name: 'Tafsir Ibn Kathir Excerpts', category: 'tafsir', license: 'CC-BY-NC-ND', resourceId: 4, requiresApproval: true, description: 'Selected excerpts for educational use.' },
+  { name: 'Murattal MP3 (128 kbps)', category: 'recitation', license: 'CC-BY-NC', resourceId: 5, requiresApproval: true, description: 'Surah-level MP3 files at 128 kbps.' },
+  { name: 'Murattal Opus (64 kbps)', category: 'recitation', license: 'CC-BY', resourceId: 5, requiresApproval: false, description: 'Bandwidth-friendly Opus encoding.' },
+  { name: 'Murattal Verse Timings', category: 'recitation', license: 'CC0', resourceId: 5, requiresApproval: false, description: 'Verse start and end timestamps for every surah.' },
+  { name: 'Murattal FLAC Masters', category: 'recitation', license: 'CC-BY-NC-ND', resourceId: 5, requiresApproval: true, description: 'Lossless FLAC masters for archival use.' },
+];
+
+function buildAssets(): MockAsset[] {
+  return assetSeeds.map((seed, index) => {
+    const resource = resources.find(item => item.id === seed.resourceId)!;
+    const publisher = publishers.find(item => item.id === resource.publisher_id)!;
+    const createdAt = new Date(Date.parse(resource.created_at) + index * 86400000).toISOString();
+
+    return {
+      id: index + 1,
+      category: seed.category,
+      name: seed.name,
+      description: seed.description,
+      long_description: `${seed.description} Part of "${resource.name}" published by ${publisher.name}.`,
+      thumbnail_url: '/logo.svg',
+      publisher: {
+        id: publisher.id,
+        name: publisher.name,
+        description: publisher.description,
+      },
+      resource: { id: resource.id },
+      license: seed.license,
+      snapshots: [
+        { image_url: '/file.svg', title: `${seed.name} preview`, description: 'Sample of the file contents.' },
+      ],
+      requires_approval: seed.requiresApproval,
+      created_at: createdAt,
+    };
+  });
+}
+
+const users: MockUser[] = [
+  {
+    id: '1',
+    email: MOCK_DEMO_CREDENTIALS.email,
+    password: MOCK_DEMO_CREDENTIALS.password,
+    name: 'Demo User',
+    phone: null,
+    is_active: true,
+    is_profile_completed: true,
+    role: 'publisher',
+    bio: 'Developer exploring Quranic datasets.',
+    project_summary: 'A Quran study app for students.',
+    project_url: 'https://example.org/quran-app',
+    job_title: 'Software Engineer',
+    created_at: SEED_TIMESTAMP,
+    updated_at: SEED_TIMESTAMP,
+  },
+];
+
+/**
+ * Creates a fresh copy of the seed data
+ *
+ * @returns A new mock database
+ */
+export function createMockDatabase(): MockDatabase {
+  const database: MockDatabase = {
+    users,
+    publishers,
+    resources,
+    assets: buildAssets(),
+    accessRequests: [
+      {
+        id: 1,
+        user_id: '1',
+        asset_id: 1,
+        purpose: 'Building a Quran reader',
+        intended_use: 'non-commercial',
+        status: 'approved',
+        created_at: SEED_TIMESTAMP,
+      },
+    ],
+    accessGrants: [
+      { id: 1, user_id: '1', asset_id: 1, expires_at: null, is_active: true },
+    ],
+    uploads: [],
+    passwordResets: [],
+    verificationEmails: [],
+    reauthentications: [],
+    revokedTokens: [],
+    sequences: { resources: resources.length + 1, accessRequests: 2, accessGrants: 2, uploads: 1 },
+  };
+
+  return structuredClone(database);
+}
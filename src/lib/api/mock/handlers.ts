@@ -0,0 +1,1320 @@
+/**
+ * Mock Backend Handlers
+ *
+ * Request handlers implementing every endpoint the service layer calls, on
+ * top of the fixtures in `./fixtures`. Responses follow the real backend's
+ * shapes, including `ApiErrorResponse` bodies, pagination links and the
+ * access request workflow.
+ *
+ * In the browser the state is persisted to localStorage, so registered users
+ * and access requests survive reloads. The auth route handlers run on the
+ * server with their own in-memory state, so a valid token for a user this
+ * state does not know yet adds that user from the token claims.
+ */
+
+import type { ApiErrorResponse, PagedResponse } from '@/lib/types/api/common.types';
+import type { UserProfileSchema } from '@/lib/types/api/auth.types';
+import type {
+  DetailAssetOut,
+  DetailResourceOut,
+  DownloadResponseOut,
+  ListAssetOut,
+  ListResourceOut,
+  ResourceOut,
+} from '@/lib/types/api/assets.types';
+import { env } from '@/lib/env';
+import { toUploadProgress } from '../client/upload';
+import type { UploadProgressHandler } from '../client/upload';
+import { sha256Hex } from '../resumable-upload';
+import { createMockDatabase } from './fixtures';
+import type { MockAsset, MockDatabase, MockUploadSession, MockUser } from './fixtures';
+import { decodeMockToken, issueMockToken, verifyMockToken } from './tokens';
+import type { MockTokenClaims } from './tokens';
+
+/**
+ * Simulated network latency, in milliseconds
+ */
+const MOCK_LATENCY_MS = 150;
+
+/**
+ * Simulated upload speed (about 2 MB/s) and the cap on simulated upload time
+ */
+const MOCK_UPLOAD_BYTES_PER_MS = 2000;
+const MOCK_MAX_UPLOAD_MS = 3000;
+
+/**
+ * Chunk size bounds and lifetime of chunked upload sessions
+ */
+const MIN_CHUNK_SIZE = 64 * 1024;
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+const UPLOAD_SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lifetime of password reset links
+ */
+const PASSWORD_RESET_LIFETIME_MS = 60 * 60 * 1000;
+
+/**
+ * How many emails of one kind (reset links, verification links) may be sent to an address within the window
+ */
+const EMAIL_RATE_LIMIT = 3;
+const EMAIL_RATE_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * How long a re-authentication through a social sign-in provider is accepted
+ */
+const REAUTHENTICATION_LIFETIME_MS = 5 * 60 * 1000;
+
+/**
+ * How long a deleted account can still be restored
+ */
+const ACCOUNT_DELETION_GRACE_PERIOD_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * localStorage key of the persisted mock state
+ */
+const STORAGE_KEY = 'itqan_mock_backend';
+
+const CATEGORIES = ['mushaf', 'tafsir', 'recitation'];
+const STATUSES = ['draft', 'ready'];
+const INTENDED_USES = ['commercial', 'non-commercial'];
+
+interface MockRequestContext {
+  request: Request;
+  url: URL;
+  params: Record<string, string>;
+  body: Record<string, unknown>;
+  db: MockDatabase;
+  user: MockUser | null;
+}
+
+type MockRouteHandler = (context: MockRequestContext) => Response | Promise<Response>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  requiresAuth: boolean;
+  handler: MockRouteHandler;
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+let database: MockDatabase | null = null;
+
+function getDatabase(): MockDatabase {
+  if (database) return database;
+
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      try {
+        // Collections added since the state was saved start from their seed
+        const defaults = createMockDatabase();
+        const parsed = JSON.parse(stored) as Partial<MockDatabase>;
+        database = { ...defaults, ...parsed, sequences: { ...defaults.sequences, ...parsed.sequences } };
+        return database;
+      } catch {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    }
+  }
+
+  database = createMockDatabase();
+  return database;
+}
+
+function persistDatabase(): void {
+  if (database && typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(database));
+  }
+}
+
+/**
+ * Restores the mock backend to its seed data
+ */
+export function resetMockBackend(): void {
+  database = null;
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+// ============================================================================
+// Response Helpers
+// ============================================================================
+
+function json(status: number, data: unknown, headers?: HeadersInit): Response {
+  const responseHeaders = new Headers(headers);
+  responseHeaders.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(data), { status, headers: responseHeaders });
+}
+
+function error(status: number, errorName: string, message: string, extra?: unknown): Response {
+  const body: ApiErrorResponse = { error_name: errorName, message };
+  if (extra !== undefined) {
+    body.extra = extra;
+  }
+  return json(status, body);
+}
+
+function validationError(fieldErrors: Record<string, string[]>): Response {
+  return error(422, 'VALIDATION_ERROR', 'Invalid input data', fieldErrors);
+}
+
+function tooManyRequests(message: string, retryAfterSeconds: number): Response {
+  const body: ApiErrorResponse = { error_name: 'RATE_LIMITED', message };
+  return json(429, body, { 'Retry-After': String(retryAfterSeconds) });
+}
+
+function notFound(entity: string): Response {
+  return error(404, 'NOT_FOUND', `${entity} not found`);
+}
+
+/**
+ * Adds an ETag (unless the handler set one) to a GET response and answers matching conditional requests with 304
+ */
+async function withEntityTag(request: Request, response: Response): Promise<Response> {
+  const body = await response.arrayBuffer();
+  const etag = response.headers.get('ETag') ?? `"${(await sha256Hex(body)).slice(0, 16)}"`;
+
+  const headers = new Headers(response.headers);
+  headers.set('ETag', etag);
+  headers.set('Cache-Control', 'private, no-cache');
+
+  if (request.headers.get('If-None-Match') === etag) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(body, { status: response.status, headers });
+}
+
+function paginate<T>(items: T[], url: URL): PagedResponse<T> {
+  const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+  const pageSize = Math.max(1, Number(url.searchParams.get('page_size')) || 20);
+  const start = (page - 1) * pageSize;
+
+  const pageUrl = (target: number) => {
+    const link = new URL(url);
+    link.searchParams.set('page', String(target));
+    return link.toString();
+  };
+
+  return {
+    results: items.slice(start, start + pageSize),
+    count: items.length,
+    next: start + pageSize < items.length ? pageUrl(page + 1) : null,
+    previous: page > 1 ? pageUrl(page - 1) : null,
+  };
+}
+
+function applyOrdering<T>(items: T[], ordering: string | null, fallback: keyof T): T[] {
+  const field = (ordering?.replace(/^-/, '') || fallback) as keyof T;
+  const direction = ordering?.startsWith('-') ? -1 : 1;
+  return [...items].sort((a, b) => {
+    const left = a[field];
+    const right = b[field];
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left ?? '').localeCompare(String(right ?? ''));
+    return order * direction;
+  });
+}
+
+function matchesSearch(search: string | null, ...values: string[]): boolean {
+  if (!search) return true;
+  const query = search.toLowerCase();
+  return values.some(value => value.toLowerCase().includes(query));
+}
+
+function toProfile(user: MockUser): UserProfileSchema {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { password, former_emails, ...profile } = user;
+  return { ...profile, deletion_scheduled_at: profile.deletion_scheduled_at ?? null };
+}
+
+function toListAsset(asset: MockAsset): ListAssetOut {
+  return {
+    id: asset.id,
+    category: asset.category,
+    name: asset.name,
+    description: asset.description,
+    publisher: { id: asset.publisher.id, name: asset.publisher.name },
+    license: asset.license,
+  };
+}
+
+function toDetailAsset(asset: MockAsset): DetailAssetOut {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { requires_approval, created_at, ...detail } = asset;
+  return detail;
+}
+
+function toListResource(resource: ResourceOut, db: MockDatabase): ListResourceOut {
+  const publisher = db.publishers.find(item => item.id === resource.publisher_id);
+  return {
+    id: resource.id,
+    category: resource.category,
+    name: resource.name,
+    description: resource.description,
+    status: resource.status,
+    publisher: { id: resource.publisher_id, name: publisher?.name ?? '' },
+    created_at: resource.created_at,
+    updated_at: resource.updated_at,
+  };
+}
+
+function toDetailResource(resource: ResourceOut, db: MockDatabase): DetailResourceOut {
+  const publisher = db.publishers.find(item => item.id === resource.publisher_id);
+  return {
+    ...toListResource(resource, db),
+    slug: resource.slug,
+    publisher: {
+      id: resource.publisher_id,
+      name: publisher?.name ?? '',
+      description: publisher?.description ?? '',
+    },
+  };
+}
+
+function issueTokens(user: MockUser) {
+  return {
+    access: issueMockToken(user, 'access'),
+    refresh: issueMockToken(user, 'refresh'),
+  };
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+async function fileDownload(fileName: string, content: string): Promise<DownloadResponseOut> {
+  const text = `${fileName}\n\n${content}\n`;
+  return {
+    download_url: `data:text/plain;charset=utf-8,${encodeURIComponent(text)}`,
+    checksum_sha256: await sha256Hex(new TextEncoder().encode(text).buffer as ArrayBuffer),
+  };
+}
+
+// ============================================================================
+// Auth Handlers
+// ============================================================================
+
+/**
+ * Rejects users who have not verified their email yet
+ */
+function requireVerifiedEmail(user: MockUser): Response | null {
+  return user.is_active
+    ? null
+    : error(403, 'EMAIL_NOT_VERIFIED', 'Verify your email address before continuing');
+}
+
+function sendVerificationEmail(user: MockUser, db: MockDatabase): void {
+  db.verificationEmails.push({ user_id: user.id, sent_at: new Date().toISOString() });
+  // Stands in for the email the backend would send
+  const token = issueMockToken(user, 'email_verification');
+  console.info(`[mock] Email verification link for ${user.email}: /auth/verify-email?token=${token}`);
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const register: MockRouteHandler = ({ body, db }) => {
+  const email = String(body.email ?? '').trim().toLowerCase();
+  const password = String(body.password ?? '');
+
+  const fieldErrors: Record<string, string[]> = {};
+  if (!EMAIL_PATTERN.test(email)) {
+    fieldErrors.email = ['Enter a valid email address.'];
+  }
+  if (password.length < 8) {
+    fieldErrors.password = ['Password must be at least 8 characters long.'];
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    return validationError(fieldErrors);
+  }
+
+  if (db.users.some(user => user.email === email)) {
+    return error(409, 'CONFLICT', 'A user with this email already exists');
+  }
+
+  const now = new Date().toISOString();
+  const user: MockUser = {
+    id: String(Math.max(0, ...db.users.map(item => Number(item.id))) + 1),
+    email,
+    password,
+    name: String(body.name ?? ''),
+    phone: body.phone ? String(body.phone) : null,
+    is_active: false,
+    is_profile_completed: false,
+    role: 'user',
+    bio: '',
+    project_summary: '',
+    project_url: '',
+    job_title: String(body.job_title ?? ''),
+    created_at: now,
+    updated_at: now,
+  };
+  db.users.push(user);
+  sendVerificationEmail(user, db);
+
+  return json(201, { ...issueTokens(user), user: toProfile(user) });
+};
+
+const login: MockRouteHandler = ({ body, db }) => {
+  const email = String(body.email ?? '').trim().toLowerCase();
+  const password = String(body.password ?? '');
+
+  if (!email || !password) {
+    return validationError({
+      ...(email ? {} : { email: ['This field is required.'] }),
+      ...(password ? {} : { password: ['This field is required.'] }),
+    });
+  }
+
+  const user = db.users.find(item => item.email === email && item.password === password);
+  if (!user) {
+    return error(401, 'AUTHENTICATION_ERROR', 'Invalid email or password');
+  }
+
+  return json(200, { ...issueTokens(user), user: toProfile(user) });
+};
+
+const oauthReauthenticate: MockRouteHandler = ({ params, body, db, user }) => {
+  const currentUser = user!;
+  const email = checkOAuthCode(params.provider, body);
+  if (email instanceof Response) return email;
+
+  // The provider account has to be the one the user signs in with
+  if (currentUser.email !== email && !currentUser.former_emails?.includes(email)) {
+    return error(403, 'REAUTHENTICATION_FAILED', 'This account is not linked to the signed-in user');
+  }
+
+  const reauthentication = {
+    token: `${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`,
+    user_id: currentUser.id,
+    expires_at: new Date(Date.now() + REAUTHENTICATION_LIFETIME_MS).toISOString(),
+  };
+  db.reauthentications = [
+    ...db.reauthentications.filter(item => Date.parse(item.expires_at) > Date.now()),
+    reauthentication,
+  ];
+  return json(200, { reauthentication_token: reauthentication.token, expires_at: reauthentication.expires_at });
+};
+
+const logout: MockRouteHandler = ({ body, db }) => {
+  const claims = typeof body.refresh === 'string' ? verifyMockToken(body.refresh, 'refresh') : null;
+  if (claims) {
+    db.revokedTokens.push(claims.jti);
+  }
+  return json(200, { message: 'Logged out successfully' });
+};
+
+const refresh: MockRouteHandler = ({ body, db }) => {
+  const claims = typeof body.refresh === 'string' ? verifyMockToken(body.refresh, 'refresh') : null;
+  const user = claims && !db.revokedTokens.includes(claims.jti)
+    ? db.users.find(item => item.id === claims.sub)
+    : undefined;
+
+  if (!claims || !user) {
+    return error(401, 'AUTHENTICATION_ERROR', 'Token is invalid or expired');
+  }
+
+  // Rotate the refresh token
+  db.revokedTokens.push(claims.jti);
+  return json(200, issueTokens(user));
+};
+
+const requestPasswordReset: MockRouteHandler = ({ body, db }) => {
+  const email = String(body.email ?? '').trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    return validationError({ email: ['Enter a valid email address.'] });
+  }
+
+  const now = Date.now();
+  const recent = db.passwordResets.filter(item =>
+    item.email === email && now - Date.parse(item.created_at) < EMAIL_RATE_WINDOW_MS
+  );
+  if (recent.length >= EMAIL_RATE_LIMIT) {
+    const retryAfter = Math.ceil((Date.parse(recent[0].created_at) + EMAIL_RATE_WINDOW_MS - now) / 1000);
+    return tooManyRequests('Too many password reset requests. Try again later.', retryAfter);
+  }
+
+  const user = db.users.find(item => item.email === email);
+  const reset = {
+    token: `${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`,
+    email,
+    user_id: user?.id ?? null,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + PASSWORD_RESET_LIFETIME_MS).toISOString(),
+    used: false,
+  };
+  db.passwordResets.push(reset);
+
+  if (user) {
+    // Stands in for the email the backend would send
+    console.info(`[mock] Password reset link for ${email}: /auth/reset-password?token=${reset.token}`);
+  }
+
+  // The same response for unknown emails, so registered ones cannot be discovered
+  return json(200, { message: 'If an account exists for this email, a password reset link has been sent' });
+};
+
+const confirmPasswordReset: MockRouteHandler = ({ body, db }) => {
+  const reset = db.passwordResets.find(item => item.token === String(body.token ?? ''));
+  const user = reset?.user_id ? db.users.find(item => item.id === reset.user_id) : undefined;
+
+  if (!reset || reset.used || !user) {
+    return error(400, 'RESET_TOKEN_INVALID', 'This password reset link is invalid or has already been used');
+  }
+  if (Date.parse(reset.expires_at) <= Date.now()) {
+    return error(400, 'RESET_TOKEN_EXPIRED', 'This password reset link has expired');
+  }
+
+  const password = String(body.password ?? '');
+  if (password.length < 8) {
+    return validationError({ password: ['Password must be at least 8 characters long.'] });
+  }
+
+  user.password = password;
+  user.updated_at = new Date().toISOString();
+  // Other links issued for the account stop working too
+  db.passwordResets.forEach(item => {
+    if (item.user_id === user.id) {
+      item.used = true;
+    }
+  });
+
+  return json(200, { message: 'Password has been reset' });
+};
+
+const verifyEmail: MockRouteHandler = ({ body, db }) => {
+  const claims = decodeMockToken(String(body.token ?? ''));
+  if (claims?.token_type !== 'email_verification') {
+    return error(400, 'VERIFICATION_TOKEN_INVALID', 'This verification link is invalid');
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    return error(400, 'VERIFICATION_TOKEN_EXPIRED', 'This verification link has expired');
+  }
+
+  const user = findOrCreateUser(claims, db);
+
+  // Opening the link again is harmless
+  if (!user.is_active) {
+    user.is_active = true;
+    user.updated_at = new Date().toISOString();
+  }
+  return json(200, { message: 'Email verified' });
+};
+
+const resendVerificationEmail: MockRouteHandler = ({ db, user }) => {
+  const currentUser = user!;
+  if (currentUser.is_active) {
+    return json(200, { message: 'Email is already verified' });
+  }
+
+  const now = Date.now();
+  const recent = db.verificationEmails.filter(item =>
+    item.user_id === currentUser.id && now - Date.parse(item.sent_at) < EMAIL_RATE_WINDOW_MS
+  );
+  if (recent.length >= EMAIL_RATE_LIMIT) {
+    const retryAfter = Math.ceil((Date.parse(recent[0].sent_at) + EMAIL_RATE_WINDOW_MS - now) / 1000);
+    return tooManyRequests('Too many verification emails. Try again later.', retryAfter);
+  }
+
+  sendVerificationEmail(currentUser, db);
+  return json(200, { message: 'Verification email sent' });
+};
+
+/**
+ * Re-authenticates a security-sensitive request
+ *
+ * Accepts the current password, or a `reauthentication_token` from a fresh
+ * sign-in with the account's social provider. Accounts without a password
+ * (social sign-ins, and users this database only knows from their token, see
+ * `findOrCreateUser`) can only use the token.
+ */
+function checkReauthentication(user: MockUser, body: Record<string, unknown>, db: MockDatabase): Response | null {
+  if (body.reauthentication_token !== undefined) {
+    const reauthentication = db.reauthentications.find(item =>
+      item.token === String(body.reauthentication_token) && item.user_id === user.id
+    );
+    if (!reauthentication || Date.parse(reauthentication.expires_at) <= Date.now()) {
+      return error(400, 'REAUTHENTICATION_EXPIRED', 'Your confirmation has expired. Confirm with your sign-in provider again.');
+    }
+    return null;
+  }
+
+  const currentPassword = String(body.current_password ?? '');
+  if (!currentPassword) {
+    return validationError({ current_password: ['This field is required.'] });
+  }
+  if (!user.password) {
+    return error(400, 'REAUTHENTICATION_REQUIRED', 'This account has no password. Confirm with your sign-in provider instead.');
+  }
+  if (user.password !== currentPassword) {
+    return validationError({ current_password: ['The password is incorrect.'] });
+  }
+  return null;
+}
+
+const changePassword: MockRouteHandler = ({ body, db, user }) => {
+  const currentUser = user!;
+  const rejected = checkReauthentication(currentUser, body, db);
+  if (rejected) return rejected;
+
+  const newPassword = String(body.new_password ?? '');
+  if (newPassword.length < 8) {
+    return validationError({ new_password: ['Password must be at least 8 characters long.'] });
+  }
+
+  currentUser.password = newPassword;
+  currentUser.updated_at = new Date().toISOString();
+  return json(200, { message: 'Password changed' });
+};
+
+const changeEmail: MockRouteHandler = ({ body, db, user }) => {
+  const currentUser = user!;
+  const rejected = checkReauthentication(currentUser, body, db);
+  if (rejected) return rejected;
+
+  const newEmail = String(body.new_email ?? '').trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(newEmail)) {
+    return validationError({ new_email: ['Enter a valid email address.'] });
+  }
+  if (newEmail === currentUser.email) {
+    return validationError({ new_email: ['This is already your email address.'] });
+  }
+  if (db.users.some(item => item.email === newEmail)) {
+    return error(409, 'CONFLICT', 'A user with this email already exists');
+  }
+
+  currentUser.former_emails = [...(currentUser.former_emails ?? []), currentUser.email];
+  currentUser.email = newEmail;
+  currentUser.is_active = false;
+  currentUser.updated_at = new Date().toISOString();
+  sendVerificationEmail(currentUser, db);
+  return json(200, toProfile(currentUser));
+};
+
+const deleteAccount: MockRouteHandler = ({ body, db, user }) => {
+  const currentUser = user!;
+  const rejected = checkReauthentication(currentUser, body, db);
+  if (rejected) return rejected;
+
+  // Asking again keeps the original date
+  currentUser.deletion_scheduled_at ??= new Date(Date.now() + ACCOUNT_DELETION_GRACE_PERIOD_MS).toISOString();
+  return json(200, { deletion_scheduled_at: currentUser.deletion_scheduled_at });
+};
+
+const cancelAccountDeletion: MockRouteHandler = ({ user }) => {
+  user!.deletion_scheduled_at = null;
+  return json(200, { message: 'Account deletion cancelled' });
+};
+
+const getProfile: MockRouteHandler = ({ user }) => json(200, toProfile(user!));
+
+const updateProfile: MockRouteHandler = ({ body, user }) => {
+  const profile = user!;
+  const fields = ['name', 'phone', 'bio', 'project_summary', 'project_url', 'job_title'] as const;
+
+  fields.forEach(field => {
+    if (body[field] !== undefined) {
+      (profile as unknown as Record<string, unknown>)[field] = body[field];
+    }
+  });
+  profile.is_profile_completed = !!(profile.bio && profile.project_summary);
+  profile.updated_at = new Date().toISOString();
+
+  return json(200, toProfile(profile));
+};
+
+const OAUTH_DISPLAY_NAMES: Record<string, string> = {
+  google: 'Google Demo',
+  github: 'GitHub Demo',
+};
+
+const oauthAuthorize: MockRouteHandler = ({ params, url }) => {
+  const state = Math.random().toString(36).slice(2);
+  const authorizeUrls: Record<string, string> = {
+    google: 'https://accounts.google.com/o/oauth2/v2/auth',
+    github: 'https://github.com/login/oauth/authorize',
+  };
+
+  // There is no provider to consent at, so redirect straight back with a code
+  const redirectUri = url.searchParams.get('redirect_uri');
+  if (redirectUri) {
+    const callbackUrl = new URL(redirectUri);
+    callbackUrl.searchParams.set('code', `mock-${params.provider}-${state}`);
+    callbackUrl.searchParams.set('state', state);
+    return json(200, { authorization_url: callbackUrl.toString(), state });
+  }
+
+  return json(200, {
+    authorization_url: `${authorizeUrls[params.provider]}?client_id=itqan-mock&state=${state}`,
+    state,
+  });
+};
+
+/**
+ * Checks the code the mock provider redirected back with
+ *
+ * @returns The email of the provider's demo account, or an error response
+ */
+function checkOAuthCode(provider: string, body: Record<string, unknown>): string | Response {
+  const state = String(body.state ?? '');
+  if (!OAUTH_DISPLAY_NAMES[provider]) {
+    return error(404, 'NOT_FOUND', 'Not found');
+  }
+  if (!state || body.code !== `mock-${provider}-${state}`) {
+    return error(401, 'AUTHENTICATION_ERROR', 'Invalid or expired authorization code');
+  }
+  // One demo account per provider
+  return `${provider}.demo@itqan.dev`;
+}
+
+const oauthCallback: MockRouteHandler = ({ params, body, db }) => {
+  const email = checkOAuthCode(params.provider, body);
+  if (email instanceof Response) return email;
+
+  // Created on first sign-in
+  let user = db.users.find(item => item.email === email);
+  if (!user) {
+    const now = new Date().toISOString();
+    user = {
+      id: String(Math.max(0, ...db.users.map(item => Number(item.id))) + 1),
+      email,
+      password: '',
+      name: OAUTH_DISPLAY_NAMES[params.provider],
+      phone: null,
+      is_active: true,
+      is_profile_completed: false,
+      role: 'user',
+      bio: '',
+      project_summary: '',
+      project_url: '',
+      job_title: '',
+      created_at: now,
+      updated_at: now,
+    };
+    db.users.push(user);
+  }
+
+  return json(200, { ...issueTokens(user), user: toProfile(user) });
+};
+
+// ============================================================================
+// Asset Handlers
+// ============================================================================
+
+function findAsset(db: MockDatabase, id: string): MockAsset | undefined {
+  return db.assets.find(asset => asset.id === Number(id));
+}
+
+function hasAccess(db: MockDatabase, userId: string, assetId: number): boolean {
+  return db.accessGrants.some(grant => grant.user_id === userId && grant.asset_id === assetId && grant.is_active);
+}
+
+const listAssets: MockRouteHandler = ({ url, db }) => {
+  const categories = url.searchParams.getAll('category');
+  const licenses = url.searchParams.getAll('license_code');
+  const publisherId = url.searchParams.get('publisher_id');
+  const search = url.searchParams.get('search');
+
+  const assets = db.assets.filter(asset =>
+    (categories.length === 0 || categories.includes(asset.category)) &&
+    (licenses.length === 0 || licenses.includes(asset.license)) &&
+    (!publisherId || asset.publisher.id === Number(publisherId)) &&
+    matchesSearch(search, asset.name, asset.description)
+  );
+
+  const ordered = applyOrdering(assets, url.searchParams.get('ordering'), 'id');
+  return json(200, paginate(ordered.map(toListAsset), url));
+};
+
+const getAsset: MockRouteHandler = ({ params, db }) => {
+  const asset = findAsset(db, params.id);
+  return asset ? json(200, toDetailAsset(asset)) : notFound('Asset');
+};
+
+const getAccessStatus: MockRouteHandler = ({ params, db, user }) => {
+  const asset = findAsset(db, params.id);
+  if (!asset) return notFound('Asset');
+
+  return json(200, {
+    has_access: hasAccess(db, user!.id, asset.id),
+    requires_approval: asset.requires_approval,
+  });
+};
+
+const requestAccess: MockRouteHandler = ({ request, params, body, db, user }) => {
+  const asset = findAsset(db, params.id);
+  if (!asset) return notFound('Asset');
+
+  const currentUser = user!;
+  const unverified = requireVerifiedEmail(currentUser);
+  if (unverified) return unverified;
+
+  const idempotencyKey = request.headers.get('Idempotency-Key') || undefined;
+
+  const respond = (status: number, requestId: number) => {
+    const accessRequest = db.accessRequests.find(item => item.id === requestId)!;
+    const grant = db.accessGrants.find(item => item.user_id === currentUser.id && item.asset_id === asset.id);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { user_id, idempotency_key, ...requestOut } = accessRequest;
+    return json(status, {
+      request: requestOut,
+      access: grant ? { id: grant.id, asset_id: grant.asset_id, expires_at: grant.expires_at, is_active: grant.is_active } : null,
+    });
+  };
+
+  // A replay of an earlier submission returns the original result
+  const replayed = idempotencyKey
+    ? db.accessRequests.find(item => item.user_id === currentUser.id && item.idempotency_key === idempotencyKey)
+    : undefined;
+  if (replayed) {
+    return respond(201, replayed.id);
+  }
+
+  const fieldErrors: Record<string, string[]> = {};
+  if (!String(body.purpose ?? '').trim()) {
+    fieldErrors.purpose = ['This field is required.'];
+  }
+  if (!INTENDED_USES.includes(String(body.intended_use))) {
+    fieldErrors.intended_use = [`Choose one of: ${INTENDED_USES.join(', ')}.`];
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    return validationError(fieldErrors);
+  }
+
+  const existing = db.accessRequests.find(item =>
+    item.user_id === currentUser.id && item.asset_id === asset.id && item.status !== 'rejected'
+  );
+  if (existing) {
+    return error(409, 'CONFLICT', 'You have already requested access to this asset');
+  }
+
+  const status = asset.requires_approval ? 'pending' : 'approved';
+  const accessRequest = {
+    id: db.sequences.accessRequests++,
+    user_id: currentUser.id,
+    asset_id: asset.id,
+    purpose: String(body.purpose),
+    intended_use: String(body.intended_use),
+    status,
+    created_at: new Date().toISOString(),
+    idempotency_key: idempotencyKey,
+  };
+  db.accessRequests.push(accessRequest);
+
+  if (status === 'approved') {
+    db.accessGrants.push({
+      id: db.sequences.accessGrants++,
+      user_id: currentUser.id,
+      asset_id: asset.id,
+      expires_at: null,
+      is_active: true,
+    });
+  }
+
+  return respond(201, accessRequest.id);
+};
+
+const downloadAsset: MockRouteHandler = async ({ params, db, user }) => {
+  const asset = findAsset(db, params.id);
+  if (!asset) return notFound('Asset');
+
+  const unverified = requireVerifiedEmail(user!);
+  if (unverified) return unverified;
+
+  if (!hasAccess(db, user!.id, asset.id)) {
+    return error(403, 'PERMISSION_DENIED', 'You do not have access to this asset');
+  }
+
+  return json(200, await fileDownload(asset.name, asset.long_description));
+};
+
+// ============================================================================
+// Resource Handlers
+// ============================================================================
+
+function findResource(db: MockDatabase, id: string): ResourceOut | undefined {
+  return db.resources.find(resource => resource.id === Number(id));
+}
+
+function validateResourceFields(body: Record<string, unknown>, partial: boolean): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+
+  if ((!partial || body.name != null) && !String(body.name ?? '').trim()) {
+    fieldErrors.name = ['This field is required.'];
+  }
+  if ((!partial || body.category != null) && !CATEGORIES.includes(String(body.category))) {
+    fieldErrors.category = [`Choose one of: ${CATEGORIES.join(', ')}.`];
+  }
+  if (body.status != null && !STATUSES.includes(String(body.status))) {
+    fieldErrors.status = [`Choose one of: ${STATUSES.join(', ')}.`];
+  }
+
+  return fieldErrors;
+}
+
+const listResources: MockRouteHandler = ({ url, db }) => {
+  const categories = url.searchParams.getAll('category');
+  const statuses = url.searchParams.getAll('status');
+  const publisherIds = url.searchParams.getAll('publisher_id').map(Number);
+  const search = url.searchParams.get('search');
+
+  const resources = db.resources.filter(resource =>
+    (categories.length === 0 || categories.includes(resource.category)) &&
+    (statuses.length === 0 || statuses.includes(resource.status)) &&
+    (publisherIds.length === 0 || publisherIds.includes(resource.publisher_id)) &&
+    matchesSearch(search, resource.name, resource.description)
+  );
+
+  const ordered = applyOrdering(resources, url.searchParams.get('ordering'), 'id');
+  return json(200, paginate(ordered.map(resource => toListResource(resource, db)), url));
+};
+
+/**
+ * Resource version used as its ETag and checked against If-Match
+ */
+function resourceEntityTag(resource: ResourceOut): string {
+  return `"${resource.updated_at}"`;
+}
+
+const getResource: MockRouteHandler = ({ params, db }) => {
+  const resource = findResource(db, params.id);
+  if (!resource) return notFound('Resource');
+
+  return json(200, toDetailResource(resource, db), { ETag: resourceEntityTag(resource) });
+};
+
+const createResource: MockRouteHandler = ({ body, db }) => {
+  const fieldErrors = validateResourceFields(body, false);
+  if (!db.publishers.some(publisher => publisher.id === Number(body.publisher_id))) {
+    fieldErrors.publisher_id = ['Publisher does not exist.'];
+  }
+  // Multipart submissions may attach the original file
+  if (body.file !== undefined && (!(body.file instanceof Blob) || body.file.size === 0)) {
+    fieldErrors.file = ['The submitted file is empty.'];
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    return validationError(fieldErrors);
+  }
+
+  const now = new Date().toISOString();
+  const resource: ResourceOut = {
+    id: db.sequences.resources++,
+    category: String(body.category),
+    name: String(body.name),
+    slug: slugify(String(body.name)),
+    description: String(body.description ?? ''),
+    status: 'draft',
+    publisher_id: Number(body.publisher_id),
+    created_at: now,
+    updated_at: now,
+  };
+  db.resources.push(resource);
+
+  return json(201, resource);
+};
+
+const updateResource: MockRouteHandler = ({ request, params, body, db }) => {
+  const resource = findResource(db, params.id);
+  if (!resource) return notFound('Resource');
+
+  const ifMatch = request.headers.get('If-Match');
+  if (ifMatch && ifMatch !== '*' && ifMatch !== resourceEntityTag(resource)) {
+    return error(412, 'PRECONDITION_FAILED', 'The resource was changed by someone else');
+  }
+
+  const fieldErrors = validateResourceFields(body, request.method === 'PATCH');
+  if (Object.keys(fieldErrors).length > 0) {
+    return validationError(fieldErrors);
+  }
+
+  (['name', 'description', 'category', 'status'] as const).forEach(field => {
+    if (body[field] != null) {
+      resource[field] = String(body[field]);
+    }
+  });
+  if (body.name != null) {
+    resource.slug = slugify(resource.name);
+  }
+  resource.updated_at = new Date().toISOString();
+
+  return json(200, resource, { ETag: resourceEntityTag(resource) });
+};
+
+const deleteResource: MockRouteHandler = ({ params, db }) => {
+  const resource = findResource(db, params.id);
+  if (!resource) return notFound('Resource');
+
+  db.resources = db.resources.filter(item => item.id !== resource.id);
+  return json(200, { message: 'Resource deleted successfully' });
+};
+
+const downloadResource: MockRouteHandler = async ({ params, db, user }) => {
+  const resource = findResource(db, params.id);
+  if (!resource) return notFound('Resource');
+
+  const unverified = requireVerifiedEmail(user!);
+  if (unverified) return unverified;
+
+  return json(200, await fileDownload(resource.name, resource.description));
+};
+
+// ============================================================================
+// Chunked Upload Handlers
+// ============================================================================
+
+function toUploadSession(session: MockUploadSession) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { user_id, content_type, checksums, resource_id, ...sessionOut } = session;
+  return sessionOut;
+}
+
+function findUploadSession(db: MockDatabase, id: string, user: MockUser): MockUploadSession | undefined {
+  return db.uploads.find(session =>
+    session.id === id && session.user_id === user.id && Date.parse(session.expires_at) > Date.now()
+  );
+}
+
+const createUploadSession: MockRouteHandler = ({ body, db, user }) => {
+  const fileSize = Number(body.file_size);
+  const fieldErrors: Record<string, string[]> = {};
+  if (!String(body.file_name ?? '').trim()) {
+    fieldErrors.file_name = ['This field is required.'];
+  }
+  if (!Number.isInteger(fileSize) || fileSize <= 0) {
+    fieldErrors.file_size = ['Enter a positive whole number of bytes.'];
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    return validationError(fieldErrors);
+  }
+
+  const chunkSize = Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, Number(body.chunk_size) || MAX_CHUNK_SIZE));
+  const session: MockUploadSession = {
+    id: `upl_${db.sequences.uploads++}`,
+    file_name: String(body.file_name),
+    file_size: fileSize,
+    chunk_size: chunkSize,
+    total_chunks: Math.ceil(fileSize / chunkSize),
+    received_chunks: [],
+    status: 'active',
+    expires_at: new Date(Date.now() + UPLOAD_SESSION_LIFETIME_MS).toISOString(),
+    user_id: user!.id,
+    content_type: String(body.content_type || 'application/octet-stream'),
+    checksums: {},
+    resource_id: null,
+  };
+  db.uploads.push(session);
+
+  return json(201, toUploadSession(session));
+};
+
+const getUploadSession: MockRouteHandler = ({ params, db, user }) => {
+  const session = findUploadSession(db, params.id, user!);
+  return session ? json(200, toUploadSession(session)) : notFound('Upload session');
+};
+
+const uploadChunk: MockRouteHandler = async ({ request, params, db, user }) => {
+  const session = findUploadSession(db, params.id, user!);
+  if (!session) return notFound('Upload session');
+  if (session.status !== 'active') {
+    return error(409, 'CONFLICT', 'Upload session is already completed');
+  }
+
+  const index = Number(params.index);
+  if (!Number.isInteger(index) || index < 0 || index >= session.total_chunks) {
+    return validationError({ index: [`Chunk index must be between 0 and ${session.total_chunks - 1}.`] });
+  }
+
+  const data = await request.arrayBuffer();
+  const expectedSize = Math.min(session.chunk_size, session.file_size - index * session.chunk_size);
+  if (data.byteLength !== expectedSize) {
+    return validationError({ chunk: [`Expected ${expectedSize} bytes, received ${data.byteLength}.`] });
+  }
+
+  const checksum = await sha256Hex(data);
+  if (checksum !== request.headers.get('X-Chunk-SHA256')) {
+    return validationError({ checksum: ['Chunk checksum does not match its contents.'] });
+  }
+
+  session.checksums[index] = checksum;
+  if (!session.received_chunks.includes(index)) {
+    session.received_chunks = [...session.received_chunks, index].sort((a, b) => a - b);
+  }
+
+  return json(200, { index, checksum_sha256: checksum });
+};
+
+const completeUpload: MockRouteHandler = ({ params, body, db, user }) => {
+  const session = findUploadSession(db, params.id, user!);
+  if (!session) return notFound('Upload session');
+
+  const resource = findResource(db, String(body.resource_id));
+  if (!resource) {
+    return validationError({ resource_id: ['Resource does not exist.'] });
+  }
+
+  const missing = Array.from({ length: session.total_chunks }, (_, index) => index)
+    .filter(index => !session.received_chunks.includes(index));
+  if (missing.length > 0) {
+    return error(409, 'CONFLICT', `${missing.length} chunk(s) have not been received`, { missing_chunks: missing });
+  }
+
+  session.status = 'completed';
+  session.resource_id = resource.id;
+  resource.updated_at = new Date().toISOString();
+
+  return json(200, resource);
+};
+
+// ============================================================================
+// Publisher Handlers
+// ============================================================================
+
+const getPublisher: MockRouteHandler = ({ params, db }) => {
+  const publisher = db.publishers.find(item => item.id === Number(params.id));
+  return publisher ? json(200, publisher) : notFound('Publisher');
+};
+
+// ============================================================================
+// Routing
+// ============================================================================
+
+function route(method: string, path: string, handler: MockRouteHandler, requiresAuth = false): MockRoute {
+  const paramNames: string[] = [];
+  const pattern = new RegExp(
+    `^${path.replace(/:(\w+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    })}$`
+  );
+  return { method, pattern, paramNames, requiresAuth, handler };
+}
+
+const routes: MockRoute[] = [
+  route('POST', '/auth/register/', register),
+  route('POST', '/auth/login/', login),
+  route('POST', '/auth/logout/', logout),
+  route('POST', '/auth/token/refresh/', refresh),
+  route('POST', '/auth/password/reset/', requestPasswordReset),
+  route('POST', '/auth/password/reset/confirm/', confirmPasswordReset),
+  route('POST', '/auth/email/verify/', verifyEmail),
+  route('POST', '/auth/email/verify/resend/', resendVerificationEmail, true),
+  route('POST', '/auth/password/change/', changePassword, true),
+  route('POST', '/auth/email/change/', changeEmail, true),
+  route('POST', '/auth/account/delete/', deleteAccount, true),
+  route('POST', '/auth/account/delete/cancel/', cancelAccountDeletion, true),
+  route('GET', '/auth/profile/', getProfile, true),
+  route('PUT', '/auth/profile/', updateProfile, true),
+  route('GET', '/auth/oauth/:provider/authorize/', oauthAuthorize),
+  route('POST', '/auth/oauth/:provider/callback/', oauthCallback),
+  route('POST', '/auth/oauth/:provider/reauthenticate/', oauthReauthenticate, true),
+
+  route('GET', '/assets/', listAssets),
+  route('GET', '/assets/:id/', getAsset),
+  route('GET', '/assets/:id/access-status/', getAccessStatus, true),
+  route('POST', '/assets/:id/request-access/', requestAccess, true),
+  route('GET', '/assets/:id/download/', downloadAsset, true),
+
+  route('POST', '/resources/uploads/', createUploadSession, true),
+  route('GET', '/resources/uploads/:id/', getUploadSession, true),
+  route('PUT', '/resources/uploads/:id/chunks/:index/', uploadChunk, true),
+  route('POST', '/resources/uploads/:id/complete/', completeUpload, true),
+
+  route('GET', '/resources/', listResources),
+  route('POST', '/resources/', createResource, true),
+  route('GET', '/resources/:id/', getResource),
+  route('PUT', '/resources/:id/', updateResource, true),
+  route('PATCH', '/resources/:id/', updateResource, true),
+  route('DELETE', '/resources/:id/', deleteResource, true),
+  route('GET', '/resources/:id/download/', downloadResource, true),
+
+  route('GET', '/publishers/:id/', getPublisher),
+];
+
+/**
+ * Endpoint path of a request, relative to the configured backend URL
+ */
+function getEndpointPath(url: URL): string {
+  const basePath = new URL(env.NEXT_PUBLIC_BACKEND_URL).pathname.replace(/\/$/, '');
+  return basePath && url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname;
+}
+
+function authenticate(request: Request, db: MockDatabase): MockUser | null {
+  const authorization = request.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) return null;
+
+  const claims = verifyMockToken(authorization.slice('Bearer '.length), 'access');
+  if (!claims) return null;
+
+  const user = findOrCreateUser(claims, db);
+
+  // Past the grace period the account is gone
+  if (user.deletion_scheduled_at && Date.parse(user.deletion_scheduled_at) <= Date.now()) {
+    return null;
+  }
+  return user;
+}
+
+/**
+ * User a token was issued for
+ *
+ * Tokens issued by the server-side mock behind the auth route handlers name
+ * users this database has not seen yet, so they are created from the claims.
+ */
+function findOrCreateUser(claims: MockTokenClaims, db: MockDatabase): MockUser {
+  const existing = db.users.find(user =>
+    user.id === claims.sub && (user.email === claims.email || user.former_emails?.includes(claims.email))
+  );
+  if (existing) return existing;
+
+  const now = new Date().toISOString();
+  const user: MockUser = {
+    id: claims.sub,
+    email: claims.email,
+    password: '',
+    name: claims.name ?? '',
+    phone: null,
+    is_active: claims.email_verified ?? true,
+    is_profile_completed: false,
+    role: 'user',
+    bio: '',
+    project_summary: '',
+    project_url: '',
+    job_title: '',
+    created_at: now,
+    updated_at: now,
+  };
+  db.users.push(user);
+  return user;
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+
+    if (signal.aborted) {
+      abort();
+    } else {
+      signal.addEventListener('abort', abort, { once: true });
+    }
+  });
+}
+
+/**
+ * Simulates sending the request body, reporting progress along the way
+ */
+async function simulateUpload(request: Request, onProgress: UploadProgressHandler): Promise<void> {
+  const total = (await request.clone().arrayBuffer()).byteLength;
+  const duration = Math.min(MOCK_MAX_UPLOAD_MS, Math.max(MOCK_LATENCY_MS, total / MOCK_UPLOAD_BYTES_PER_MS));
+  const steps = 10;
+
+  for (let step = 1; step <= steps; step++) {
+    await delay(duration / steps, request.signal);
+    onProgress(toUploadProgress(Math.round((total * step) / steps), total));
+  }
+}
+
+async function parseBody(request: Request): Promise<Record<string, unknown> | null> {
+  const contentType = request.headers.get('Content-Type') || '';
+  // Binary bodies are read by the handler itself
+  if (contentType.includes('application/octet-stream')) {
+    return {};
+  }
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    return Object.fromEntries(formData.entries());
+  }
+
+  const text = await request.text();
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Handles a request against the mock backend
+ *
+ * Behaves like `fetch`: resolves with a Response for every handled request
+ * (including error statuses) and rejects only when the request is aborted.
+ * The request's `X-Request-ID` is echoed back in the response.
+ *
+ * @param request - The request to handle
+ * @param options - Optional upload progress handler
+ * @returns Promise resolving to the mock response
+ */
+export async function handleMockRequest(
+  request: Request,
+  options: { onUploadProgress?: UploadProgressHandler } = {}
+): Promise<Response> {
+  const response = await routeRequest(request, options);
+
+  const requestId = request.headers.get('X-Request-ID');
+  if (requestId) {
+    response.headers.set('X-Request-ID', requestId);
+  }
+  return response;
+}
+
+async function routeRequest(
+  request: Request,
+  options: { onUploadProgress?: UploadProgressHandler }
+): Promise<Response> {
+  if (options.onUploadProgress && request.body) {
+    await simulateUpload(request, options.onUploadProgress);
+  } else {
+    await delay(MOCK_LATENCY_MS, request.signal);
+  }
+
+  const url = new URL(request.url);
+  const method = request.method.toUpperCase();
+  const db = getDatabase();
+
+  const path = getEndpointPath(url);
+  const pathMatches = routes.filter(item => item.pattern.test(path));
+  const matched = pathMatches.find(item => item.method === method);
+  if (!matched) {
+    return pathMatches.length > 0
+      ? error(405, 'METHOD_NOT_ALLOWED', `Method ${method} not allowed`)
+      : error(404, 'NOT_FOUND', 'Endpoint not found');
+  }
+
+  const user = authenticate(request, db);
+  if (matched.requiresAuth && !user) {
+    return error(401, 'AUTHENTICATION_ERROR', 'Authentication credentials were not provided or are invalid');
+  }
+
+  const values = path.match(matched.pattern)!.slice(1);
+  const params = Object.fromEntries(matched.paramNames.map((name, index) => [name, decodeURIComponent(values[index])]));
+
+  let body: Record<string, unknown> = {};
+  if (method !== 'GET' && method !== 'HEAD') {
+    const parsed = await parseBody(request);
+    if (!parsed) {
+      return error(400, 'PARSE_ERROR', 'Request body is not valid JSON');
+    }
+    body = parsed;
+  }
+
+  const response = await matched.handler({ request, url, params, body, db, user });
+
+  if (method !== 'GET' && method !== 'HEAD') {
+    persistDatabase();
+    return response;
+  }
+
+  return response.status === 200 ? withEntityTag(request, response) : response;
+}
@@ -0,0 +1,29 @@
+/**
+ * Mock Backend
+ *
+ * A local stand-in for the Itqan CMS backend, used when
+ * `NEXT_PUBLIC_API_MOCKING=true`. `apiRequest` routes every request here
+ * instead of the network, so the app runs fully offline.
+ */
+
+export { handleMockRequest, resetMockBackend } from './handlers';
+export { createMockDatabase, MOCK_DEMO_CREDENTIALS } from './fixtures';
+export type {
+  MockAccessGrant,
+  MockAccessRequest,
+  MockAsset,
+  MockDatabase,
+  MockPasswordReset,
+  MockUploadSession,
+  MockUser,
+  MockVerificationEmail,
+} from './fixtures';
+export {
+  issueMockToken,
+  decodeMockToken,
+  verifyMockToken,
+  ACCESS_TOKEN_LIFETIME,
+  REFRESH_TOKEN_LIFETIME,
+  EMAIL_VERIFICATION_TOKEN_LIFETIME,
+} from './tokens';
+export type { MockTokenClaims } from './tokens';
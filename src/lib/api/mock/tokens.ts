@@ -0,0 +1,136 @@
+/**
+ * Mock Backend Tokens
+ *
+ * JWT-shaped tokens issued by the mock backend. They are not signed, but have
+ * the same structure and claims as the real tokens so client code that decodes
+ * them (e.g. to read the expiry) behaves the same against both backends.
+ */
+
+/**
+ * Claims carried by mock tokens
+ */
+export interface MockTokenClaims {
+  /** User id */
+  sub: string;
+
+  /** User email */
+  email: string;
+
+  /** User display name */
+  name?: string;
+
+  /** Whether the user has verified their email */
+  email_verified?: boolean;
+
+  /** Token kind */
+  token_type: 'access' | 'refresh' | 'email_verification';
+
+  /** Unique token id */
+  jti: string;
+
+  /** Issued-at time (seconds since epoch) */
+  iat: number;
+
+  /** Expiry time (seconds since epoch) */
+  exp: number;
+}
+
+/**
+ * Lifetime of access tokens, in seconds
+ */
+export const ACCESS_TOKEN_LIFETIME = 5 * 60;
+
+/**
+ * Lifetime of refresh tokens, in seconds
+ */
+export const REFRESH_TOKEN_LIFETIME = 24 * 60 * 60;
+
+/**
+ * Lifetime of email verification links, in seconds
+ */
+export const EMAIL_VERIFICATION_TOKEN_LIFETIME = 24 * 60 * 60;
+
+const TOKEN_LIFETIMES: Record<MockTokenClaims['token_type'], number> = {
+  access: ACCESS_TOKEN_LIFETIME,
+  refresh: REFRESH_TOKEN_LIFETIME,
+  email_verification: EMAIL_VERIFICATION_TOKEN_LIFETIME,
+};
+
+function base64UrlEncode(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+let tokenCounter = 0;
+
+/**
+ * Issues a mock token for a user
+ *
+ * @param user - The user the token belongs to
+ * @param tokenType - Access or refresh token
+ * @returns JWT-shaped token string
+ */
+export function issueMockToken(
+  user: { id: string; email: string; name?: string; is_active?: boolean },
+  tokenType: MockTokenClaims['token_type']
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: MockTokenClaims = {
+    sub: user.id,
+    email: user.email,
+    name: user.name,
+    email_verified: user.is_active,
+    token_type: tokenType,
+    jti: `${now.toString(36)}-${(tokenCounter++).toString(36)}`,
+    iat: now,
+    exp: now + TOKEN_LIFETIMES[tokenType],
+  };
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  return `${header}.${base64UrlEncode(JSON.stringify(claims))}.mock`;
+}
+
+/**
+ * Decodes a mock token without checking its kind or expiry
+ *
+ * @param token - Token string
+ * @returns The token claims, or null if the token is malformed
+ */
+export function decodeMockToken(token: string): MockTokenClaims | null {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+
+  try {
+    return JSON.parse(base64UrlDecode(payload)) as MockTokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes and validates a mock token
+ *
+ * @param token - Token string
+ * @param tokenType - Expected token kind
+ * @returns The token claims, or null if the token is malformed, of the wrong kind or expired
+ */
+export function verifyMockToken(
+  token: string,
+  tokenType: MockTokenClaims['token_type']
+): MockTokenClaims | null {
+  const claims = decodeMockToken(token);
+  if (!claims || claims.token_type !== tokenType || claims.exp * 1000 <= Date.now()) {
+    return null;
+  }
+  return claims;
+}
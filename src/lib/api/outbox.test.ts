@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestAssetAccess, updateUserProfile } from './services';
+import type { AccessRequestResponseOut } from '@/lib/types/api/assets.types';
+import type { UserProfileSchema } from '@/lib/types/api/auth.types';
+
+vi.mock('./services', () => ({
+  requestAssetAccess: vi.fn(),
+  updateUserProfile: vi.fn(),
+}));
+
+const ALICE = { userId: 'alice', token: 'alice-token' };
+const BOB = { userId: 'bob', token: 'bob-token' };
+
+const accessRequest = { purpose: 'Research', intended_use: 'non-commercial' as const };
+const profileUpdate = { name: 'Alice', bio: '', project_summary: 'Tafsir app', project_url: '' };
+
+/**
+ * Loads a fresh copy of the outbox, as after a page load, with the error
+ * classes it checks errors against
+ */
+async function loadOutbox() {
+  vi.resetModules();
+  const outbox = await import('./outbox');
+  return { ...outbox, errors: await import('./client/errors') };
+}
+
+function setOnline(onLine: boolean): void {
+  vi.stubGlobal('navigator', { onLine });
+}
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  setOnline(true);
+  vi.mocked(requestAssetAccess).mockResolvedValue({} as AccessRequestResponseOut);
+  vi.mocked(updateUserProfile).mockResolvedValue({} as UserProfileSchema);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.clearAllMocks();
+});
+
+describe('sendOrQueue', () => {
+  it('sends the mutation when online', async () => {
+    const { accessRequestMutation, getOutboxItems, sendOrQueue } = await loadOutbox();
+
+    const outcome = await sendOrQueue(accessRequestMutation(1, accessRequest), ALICE);
+
+    expect(outcome.status).toBe('sent');
+    expect(requestAssetAccess).toHaveBeenCalledWith(1, accessRequest, 'alice-token', expect.any(Object));
+    expect(getOutboxItems()).toEqual([]);
+  });
+
+  it('queues without a request when offline', async () => {
+    setOnline(false);
+    const { accessRequestMutation, sendOrQueue } = await loadOutbox();
+
+    const outcome = await sendOrQueue(accessRequestMutation(1, accessRequest), ALICE, 'Tafsir');
+
+    expect(outcome.status).toBe('queued');
+    expect(requestAssetAccess).not.toHaveBeenCalled();
+  });
+
+  it('queues without a request before the session has a token', async () => {
+    const { accessRequestMutation, sendOrQueue } = await loadOutbox();
+
+    const outcome = await sendOrQueue(accessRequestMutation(1, accessRequest), { userId: 'alice', token: null });
+
+    expect(outcome.status).toBe('queued');
+    expect(requestAssetAccess).not.toHaveBeenCalled();
+  });
+
+  it('queues when the request fails with a network error', async () => {
+    const { errors, getOutboxItems, sendOrQueue } = await loadOutbox();
+    vi.mocked(updateUserProfile).mockRejectedValueOnce(new errors.ApiNetworkError('Network error'));
+
+    const outcome = await sendOrQueue({ type: 'updateUserProfile', data: profileUpdate }, ALICE);
+
+    expect(outcome.status).toBe('queued');
+    expect(getOutboxItems()).toHaveLength(1);
+  });
+
+  it('throws other errors', async () => {
+    const { errors, sendOrQueue } = await loadOutbox();
+    const error = new errors.ApiValidationError('Invalid', { status: 400 });
+    vi.mocked(updateUserProfile).mockRejectedValueOnce(error);
+
+    await expect(sendOrQueue({ type: 'updateUserProfile', data: profileUpdate }, ALICE)).rejects.toBe(error);
+  });
+
+  it('does not submit an access request that is already queued', async () => {
+    setOnline(false);
+    const { accessRequestMutation, sendOrQueue } = await loadOutbox();
+    const first = await sendOrQueue(accessRequestMutation(1, accessRequest), ALICE);
+
+    setOnline(true);
+    const second = await sendOrQueue(accessRequestMutation(1, accessRequest), ALICE);
+
+    expect(second).toEqual(first);
+    expect(requestAssetAccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('enqueueMutation', () => {
+  it('replaces an older queued profile update of the same user', async () => {
+    const { enqueueMutation, getOutboxItems } = await loadOutbox();
+
+    enqueueMutation({ type: 'updateUserProfile', data: { ...profileUpdate, bio: 'Old' } }, 'alice');
+    enqueueMutation({ type: 'updateUserProfile', data: { ...profileUpdate, bio: 'New' } }, 'alice');
+
+    expect(getOutboxItems().map(item => item.mutation)).toEqual([
+      { type: 'updateUserProfile', data: { ...profileUpdate, bio: 'New' } },
+    ]);
+  });
+
+  it('keeps the same mutation queued by different users apart', async () => {
+    const { accessRequestMutation, enqueueMutation, getOutboxItems } = await loadOutbox();
+
+    enqueueMutation(accessRequestMutation(1, accessRequest), 'alice');
+    enqueueMutation(accessRequestMutation(1, accessRequest), 'bob');
+
+    expect(getOutboxItems().map(item => item.userId)).toEqual(['alice', 'bob']);
+  });
+
+  it('persists items across page loads', async () => {
+    const first = await loadOutbox();
+    first.enqueueMutation({ type: 'updateUserProfile', data: profileUpdate }, 'alice');
+
+    const { getOutboxItems } = await loadOutbox();
+
+    expect(getOutboxItems()).toMatchObject([{ userId: 'alice', status: 'queued' }]);
+  });
+});
+
+describe('replayOutbox', () => {
+  it('sends the user\'s queued mutations with the stored idempotency key', async () => {
+    const { accessRequestMutation, enqueueMutation, getOutboxItems, replayOutbox } = await loadOutbox();
+    const mutation = accessRequestMutation(1, accessRequest);
+    enqueueMutation(mutation, 'alice');
+
+    await replayOutbox(ALICE);
+
+    expect(requestAssetAccess).toHaveBeenCalledWith(1, accessRequest, 'alice-token', {
+      idempotencyKey: mutation.idempotencyKey,
+    });
+    expect(getOutboxItems()).toMatchObject([{ status: 'sent' }]);
+  });
+
+  it('leaves other users\' mutations alone', async () => {
+    const { enqueueMutation, getOutboxItems, replayOutbox } = await loadOutbox();
+    enqueueMutation({ type: 'updateUserProfile', data: profileUpdate }, 'alice');
+
+    await replayOutbox(BOB);
+
+    expect(updateUserProfile).not.toHaveBeenCalled();
+    expect(getOutboxItems()).toMatchObject([{ userId: 'alice', status: 'queued' }]);
+  });
+
+  it('stops at the first network error', async () => {
+    const { accessRequestMutation, enqueueMutation, errors, getOutboxItems, replayOutbox } = await loadOutbox();
+    vi.mocked(requestAssetAccess).mockRejectedValueOnce(new errors.ApiNetworkError('Network error'));
+    enqueueMutation(accessRequestMutation(1, accessRequest), 'alice');
+    enqueueMutation(accessRequestMutation(2, accessRequest), 'alice');
+
+    await replayOutbox(ALICE);
+
+    expect(requestAssetAccess).toHaveBeenCalledTimes(1);
+    expect(getOutboxItems().map(item => item.status)).toEqual(['queued', 'queued']);
+  });
+
+  it('counts an access request that already exists as sent', async () => {
+    const { accessRequestMutation, enqueueMutation, errors, getOutboxItems, replayOutbox } = await loadOutbox();
+    vi.mocked(requestAssetAccess).mockRejectedValueOnce(new errors.ApiConflictError('Exists', { status: 409 }));
+    enqueueMutation(accessRequestMutation(1, accessRequest), 'alice');
+
+    await replayOutbox(ALICE);
+
+    expect(getOutboxItems()).toMatchObject([{ status: 'sent' }]);
+  });
+
+  it('marks rejected mutations as failed', async () => {
+    const { enqueueMutation, errors, getOutboxItems, replayOutbox } = await loadOutbox();
+    vi.mocked(updateUserProfile).mockRejectedValueOnce(new errors.ApiValidationError('Bio is too long', { status: 400 }));
+    enqueueMutation({ type: 'updateUserProfile', data: profileUpdate }, 'alice');
+
+    await replayOutbox(ALICE);
+
+    expect(getOutboxItems()).toMatchObject([{ status: 'failed', error: 'Bio is too long' }]);
+  });
+});
+
+describe('clearOutbox', () => {
+  it('only removes the given user\'s items', async () => {
+    const { clearOutbox, enqueueMutation, getOutboxItems } = await loadOutbox();
+    enqueueMutation({ type: 'updateUserProfile', data: profileUpdate }, 'alice');
+    enqueueMutation({ type: 'updateUserProfile', data: profileUpdate }, 'bob');
+
+    clearOutbox('alice');
+
+    expect(getOutboxItems().map(item => item.userId)).toEqual(['bob']);
+  });
+});
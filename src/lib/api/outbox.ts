@@ -0,0 +1,387 @@
+/**
+ * Offline Outbox
+ *
+ * Mutations that cannot reach the backend because the user is offline are
+ * kept in a persisted outbox and replayed once connectivity returns, instead
+ * of being lost with a "Network error". Only mutations that are safe to
+ * replay are supported: access requests carry an idempotency key that is
+ * stored with them, and profile updates are full replacements.
+ *
+ * Duplicates are guarded against: a second access request for an asset that
+ * is already queued is not queued (or sent) again, and a newer profile update
+ * replaces a queued one. Replays run one at a time and never concurrently.
+ *
+ * Every item belongs to the user who queued it and is only shown to and
+ * replayed for that user, so a session that ends on its own (expiry or
+ * inactivity) keeps it for when the same user signs in again. Logging out
+ * on purpose discards the user's items. Components read the outbox through
+ * `useOutbox`.
+ */
+
+import { ApiConflictError, ApiError, ApiNetworkError, createIdempotencyKey } from './client';
+import { invalidateQueries } from './query-cache';
+import { queryKeys } from './query-keys';
+import { requestAssetAccess, updateUserProfile } from './services';
+import type { AccessRequestResponseOut, RequestAccessIn } from '@/lib/types/api/assets.types';
+import type { UserProfileSchema, UserUpdateSchema } from '@/lib/types/api/auth.types';
+
+const STORAGE_KEY = 'api_outbox';
+
+/**
+ * Mutations that can be queued, keyed by type
+ */
+interface OutboxMutations {
+  requestAssetAccess: { assetId: number; data: RequestAccessIn; idempotencyKey: string };
+  updateUserProfile: { data: UserUpdateSchema };
+}
+
+/**
+ * Results of the queueable mutations, keyed by type
+ */
+interface OutboxResults {
+  requestAssetAccess: AccessRequestResponseOut;
+  updateUserProfile: UserProfileSchema;
+}
+
+export type OutboxMutationType = keyof OutboxMutations;
+
+/**
+ * A mutation that can be queued
+ */
+export type OutboxMutation = {
+  [K in OutboxMutationType]: { type: K } & OutboxMutations[K];
+}[OutboxMutationType];
+
+/**
+ * Lifecycle of a queued mutation
+ *
+ * `queued` items are sent on the next replay, `failed` ones were rejected by
+ * the backend and wait for the user to retry or discard them, and `sent`
+ * ones are kept (in memory only) until dismissed so the UI can confirm them.
+ */
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+/**
+ * Signed-in user sending or replaying mutations
+ */
+export interface OutboxSession {
+  /** ID of the signed-in user */
+  userId: string;
+  /**
+   * Access token for authentication; null while the session has not been
+   * restored (e.g. after reloading the page offline)
+   */
+  token: string | null;
+}
+
+/**
+ * A queued mutation
+ */
+export interface OutboxItem {
+  /** Unique identifier */
+  id: string;
+
+  /** ID of the user who queued the mutation */
+  userId: string;
+
+  mutation: OutboxMutation;
+
+  /** Human-readable subject shown in the UI (e.g. the asset title) */
+  label?: string;
+
+  status: OutboxStatus;
+
+  /** When the mutation was queued */
+  queuedAt: string;
+
+  /** Error message from the backend when `status` is `failed` */
+  error?: string;
+}
+
+/**
+ * Outcome of sendOrQueue
+ */
+export type SendOrQueueResult<T> =
+  | { status: 'sent'; result: T }
+  | { status: 'queued'; item: OutboxItem };
+
+let items: OutboxItem[] | null = null;
+let pendingReplay: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const NO_ITEMS: OutboxItem[] = [];
+
+function getItems(): OutboxItem[] {
+  if (items === null) {
+    items = loadItems();
+  }
+  return items;
+}
+
+function loadItems(): OutboxItem[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? (JSON.parse(stored) as OutboxItem[]) : [];
+    return parsed
+      // Items queued before they had an owner cannot be attributed to anyone
+      .filter(item => !!item.userId)
+      // A replay interrupted by a reload is sent again (the mutations are safe to replay)
+      .map(item => (item.status === 'sending' ? { ...item, status: 'queued' as const } : item));
+  } catch {
+    return [];
+  }
+}
+
+function setItems(next: OutboxItem[]): void {
+  items = next;
+  if (typeof window !== 'undefined') {
+    const persisted = next.filter(item => item.status !== 'sent');
+    if (persisted.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+  listeners.forEach(listener => listener());
+}
+
+function updateItem(id: string, changes: Partial<OutboxItem>): void {
+  setItems(getItems().map(item => (item.id === id ? { ...item, ...changes } : item)));
+}
+
+/**
+ * Key identifying mutations that must not be queued twice
+ */
+function getDedupeKey(mutation: OutboxMutation): string {
+  return mutation.type === 'requestAssetAccess' ? `${mutation.type}:${mutation.assetId}` : mutation.type;
+}
+
+function isSameSubject(item: OutboxItem, mutation: OutboxMutation, userId: string): boolean {
+  return item.userId === userId && getDedupeKey(item.mutation) === getDedupeKey(mutation);
+}
+
+/**
+ * Whether a newer mutation of the user for the same subject makes the item obsolete
+ */
+function isSupersededBy(item: OutboxItem, mutation: OutboxMutation, userId: string): boolean {
+  return (item.status === 'queued' || item.status === 'failed') && isSameSubject(item, mutation, userId);
+}
+
+/**
+ * Finds the user's queued or sending item for the same subject as the mutation
+ */
+function findPending(mutation: OutboxMutation, userId: string): OutboxItem | undefined {
+  return getItems().find(
+    item => (item.status === 'queued' || item.status === 'sending') && isSameSubject(item, mutation, userId)
+  );
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+async function execute(mutation: OutboxMutation, token: string): Promise<OutboxResults[OutboxMutationType]> {
+  if (mutation.type === 'requestAssetAccess') {
+    const result = await requestAssetAccess(mutation.assetId, mutation.data, token, {
+      idempotencyKey: mutation.idempotencyKey,
+    });
+    invalidateQueries(queryKeys.assets.detail(mutation.assetId));
+    invalidateQueries(queryKeys.assets.accessStatus(mutation.assetId));
+    return result;
+  }
+
+  const result = await updateUserProfile(token, mutation.data);
+  invalidateQueries(queryKeys.profile);
+  return result;
+}
+
+/**
+ * Creates an access request mutation with a fresh idempotency key
+ *
+ * @param assetId - Asset to request access to
+ * @param data - Access request details
+ * @returns Mutation to pass to sendOrQueue
+ */
+export function accessRequestMutation(
+  assetId: number,
+  data: RequestAccessIn
+): Extract<OutboxMutation, { type: 'requestAssetAccess' }> {
+  return { type: 'requestAssetAccess', assetId, data, idempotencyKey: createIdempotencyKey() };
+}
+
+/**
+ * Queues a mutation for the next replay
+ *
+ * An access request for an asset that is already queued returns the queued
+ * item; otherwise the mutation replaces the user's queued or failed ones for
+ * the same subject (e.g. an older profile update).
+ *
+ * @param mutation - Mutation to queue
+ * @param userId - ID of the signed-in user
+ * @param label - Subject shown in the UI
+ * @returns The queued item
+ */
+export function enqueueMutation(mutation: OutboxMutation, userId: string, label?: string): OutboxItem {
+  const pending = findPending(mutation, userId);
+  if (pending && mutation.type === 'requestAssetAccess') {
+    return pending;
+  }
+
+  const item: OutboxItem = {
+    id: createIdempotencyKey(),
+    userId,
+    mutation,
+    label,
+    status: 'queued',
+    queuedAt: new Date().toISOString(),
+  };
+  setItems([...getItems().filter(other => !isSupersededBy(other, mutation, userId)), item]);
+  return item;
+}
+
+/**
+ * Sends a mutation, queueing it instead if the user is offline
+ *
+ * The mutation is queued without a request when the browser reports being
+ * offline or there is no access token yet, and when the request fails with
+ * ApiNetworkError. Other errors (validation, permissions, conflicts,
+ * timeouts) are thrown as usual.
+ *
+ * @param mutation - Mutation to send
+ * @param session - Signed-in user and their access token
+ * @param label - Subject shown in the UI if the mutation is queued
+ * @returns Promise resolving to the result, or to the queued item
+ *
+ * @example
+ * ```typescript
+ * const outcome = await sendOrQueue(accessRequestMutation(asset.id, data), { userId: user.id, token }, asset.title);
+ * if (outcome.status === 'queued') {
+ *   showMessage(t('outbox.queued'));
+ * }
+ * ```
+ */
+export async function sendOrQueue<M extends OutboxMutation>(
+  mutation: M,
+  session: OutboxSession,
+  label?: string
+): Promise<SendOrQueueResult<OutboxResults[M['type']]>> {
+  const { userId, token } = session;
+  const queued = findPending(mutation, userId);
+
+  // Already waiting to be sent - don't submit it twice
+  if (queued && mutation.type === 'requestAssetAccess') {
+    return { status: 'queued', item: queued };
+  }
+
+  if (isOffline() || !token) {
+    return { status: 'queued', item: enqueueMutation(mutation, userId, label) };
+  }
+
+  try {
+    const result = (await execute(mutation, token)) as OutboxResults[M['type']];
+    // Older queued or failed versions (e.g. of a profile update) are obsolete now
+    if (getItems().some(item => isSupersededBy(item, mutation, userId))) {
+      setItems(getItems().filter(item => !isSupersededBy(item, mutation, userId)));
+    }
+    return { status: 'sent', result };
+  } catch (error) {
+    if (error instanceof ApiNetworkError) {
+      return { status: 'queued', item: enqueueMutation(mutation, userId, label) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sends every mutation the user queued, oldest first
+ *
+ * Other users' items are left alone. Stops at the first network failure
+ * (the user is still offline). An access request rejected with 409 already
+ * exists and counts as sent; other rejections mark the item as failed. Calls
+ * made while a replay is running wait for it instead of starting another.
+ *
+ * @param session - Signed-in user and their access token
+ * @returns Promise resolving when the replay is finished
+ */
+export function replayOutbox(session: OutboxSession & { token: string }): Promise<void> {
+  if (pendingReplay) {
+    return pendingReplay;
+  }
+
+  const { userId, token } = session;
+  pendingReplay = (async () => {
+    for (const item of getItems().filter(other => other.status === 'queued' && other.userId === userId)) {
+      updateItem(item.id, { status: 'sending' });
+      try {
+        await execute(item.mutation, token);
+        updateItem(item.id, { status: 'sent' });
+      } catch (error) {
+        if (error instanceof ApiNetworkError) {
+          updateItem(item.id, { status: 'queued' });
+          break;
+        }
+        if (error instanceof ApiConflictError && item.mutation.type === 'requestAssetAccess') {
+          updateItem(item.id, { status: 'sent' });
+          continue;
+        }
+        updateItem(item.id, {
+          status: 'failed',
+          error: error instanceof ApiError ? error.message : String(error),
+        });
+      }
+    }
+  })().finally(() => {
+    pendingReplay = null;
+  });
+
+  return pendingReplay;
+}
+
+/**
+ * Queues a failed mutation again for the next replay
+ *
+ * @param id - Item to retry
+ */
+export function retryOutboxItem(id: string): void {
+  updateItem(id, { status: 'queued', error: undefined });
+}
+
+/**
+ * Removes an item (a confirmed or failed mutation) from the outbox
+ *
+ * @param id - Item to remove
+ */
+export function dismissOutboxItem(id: string): void {
+  setItems(getItems().filter(item => item.id !== id));
+}
+
+/**
+ * Removes every mutation a user queued (when they log out on purpose)
+ *
+ * @param userId - ID of the user whose items are removed
+ */
+export function clearOutbox(userId: string): void {
+  setItems(getItems().filter(item => item.userId !== userId));
+}
+
+/**
+ * Returns the outbox items of every user, oldest first
+ */
+export function getOutboxItems(): OutboxItem[] {
+  return typeof window === 'undefined' ? NO_ITEMS : getItems();
+}
+
+/**
+ * Subscribes to changes of the outbox
+ *
+ * @param listener - Called whenever an item is added, updated or removed
+ * @returns Function that removes the listener
+ */
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from 'vitest';
+import { collectAll, iterateItems, iteratePages } from './pagination';
+import type { PageFetcher, PageLinkFetcher } from './pagination';
+import type { PagedResponse } from '@/lib/types/api/common.types';
+
+const PAGE_SIZE = 10;
+
+/**
+ * Builds page `number` of a listing of `count` numbered items
+ */
+function buildPage(number: number, count: number): PagedResponse<number> {
+  const start = (number - 1) * PAGE_SIZE;
+  const results = Array.from({ length: Math.max(0, Math.min(PAGE_SIZE, count - start)) }, (_, i) => start + i);
+  return {
+    count,
+    next: start + PAGE_SIZE < count ? `page=${number + 1}` : null,
+    previous: number > 1 ? `page=${number - 1}` : null,
+    results,
+  };
+}
+
+function createLinkFetcher(count: number) {
+  return vi.fn<PageLinkFetcher<number>>(async pageUrl =>
+    buildPage(pageUrl ? Number(pageUrl.slice('page='.length)) : 1, count)
+  );
+}
+
+function createPageFetcher(count: number) {
+  return vi.fn<PageFetcher<number>>(async page => buildPage(page, count));
+}
+
+describe('iteratePages', () => {
+  it('follows next links until the last page', async () => {
+    const fetchPage = createLinkFetcher(25);
+    const pages: number[] = [];
+
+    for await (const page of iteratePages(fetchPage)) {
+      pages.push(page.results.length);
+    }
+
+    expect(pages).toEqual([10, 10, 5]);
+  });
+
+  it('stops after maxPages', async () => {
+    const fetchPage = createLinkFetcher(100);
+
+    for await (const page of iteratePages(fetchPage, { maxPages: 2 })) {
+      expect(page.results).toHaveLength(PAGE_SIZE);
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('iterateItems', () => {
+  it('stops fetching when the loop breaks', async () => {
+    const fetchPage = createLinkFetcher(100);
+
+    for await (const item of iterateItems(fetchPage)) {
+      if (item === 4) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('yields at most limit items', async () => {
+    const items: number[] = [];
+    for await (const item of iterateItems(createLinkFetcher(100), { limit: 12 })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual(Array.from({ length: 12 }, (_, i) => i));
+  });
+});
+
+describe('collectAll', () => {
+  describe('with an iterable', () => {
+    it('collects every item', async () => {
+      expect(await collectAll(iterateItems(createLinkFetcher(25)))).toHaveLength(25);
+    });
+
+    it('does not fetch another page once the limit is reached', async () => {
+      const fetchPage = createLinkFetcher(100);
+
+      const items = await collectAll(iterateItems(fetchPage), { limit: PAGE_SIZE });
+
+      expect(items).toHaveLength(PAGE_SIZE);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('fetches nothing with a limit of 0', async () => {
+      const fetchPage = createLinkFetcher(100);
+
+      expect(await collectAll(iterateItems(fetchPage), { limit: 0 })).toEqual([]);
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with a page fetcher', () => {
+    it('keeps the listing order with parallel requests', async () => {
+      const fetchPage = vi.fn<PageFetcher<number>>(async page => {
+        // Later pages answer first
+        await new Promise(resolve => setTimeout(resolve, (5 - page) * 5));
+        return buildPage(page, 45);
+      });
+
+      const items = await collectAll(fetchPage, { concurrency: 3 });
+
+      expect(items).toEqual(Array.from({ length: 45 }, (_, i) => i));
+      expect(fetchPage).toHaveBeenCalledTimes(5);
+    });
+
+    it('only fetches the pages needed for the limit', async () => {
+      const fetchPage = createPageFetcher(100);
+
+      const items = await collectAll(fetchPage, { limit: 15, concurrency: 4 });
+
+      expect(items).toHaveLength(15);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports progress against the expected total', async () => {
+      const onProgress = vi.fn();
+
+      await collectAll(createPageFetcher(25), { onProgress });
+
+      expect(onProgress.mock.calls).toEqual([[10, 25], [20, 25], [25, 25]]);
+    });
+
+    it('cancels the other requests and rethrows when a page fails', async () => {
+      const signals: AbortSignal[] = [];
+      const failure = new Error('Page 2 failed');
+      const fetchPage = vi.fn<PageFetcher<number>>(async (page, options) => {
+        if (options.signal) signals.push(options.signal);
+        if (page === 2) throw failure;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return buildPage(page, 100);
+      });
+
+      await expect(collectAll(fetchPage, { concurrency: 3 })).rejects.toBe(failure);
+      expect(signals.length).toBeGreaterThan(0);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * API Pagination Helpers
+ *
+ * This file provides helpers for walking paginated list endpoints
+ * (`PagedResponse<T>`). Iterators follow the `next` links returned by the
+ * backend one page at a time; `collectAll` gathers a whole listing, fetching
+ * pages in parallel when given a page-number fetcher.
+ *
+ * @example
+ * ```typescript
+ * for await (const asset of iterateAssets(token, { category: ['tafsir'] })) {
+ *   console.log(asset.name);
+ * }
+ *
+ * const resources = await collectAll(
+ *   (page, options) => getResources(token, { publisher_id: [publisherId], page, page_size: 100 }, options),
+ *   { concurrency: 3 }
+ * );
+ * ```
+ */
+
+import type { RequestControlOptions } from './client';
+import type { PagedResponse } from '@/lib/types/api/common.types';
+
+/**
+ * Fetches a page by the link returned in `next` (null for the first page)
+ */
+export type PageLinkFetcher<T> = (
+  pageUrl: string | null,
+  options: RequestControlOptions
+) => Promise<PagedResponse<T>>;
+
+/**
+ * Fetches a page by its 1-based number
+ */
+export type PageFetcher<T> = (page: number, options: RequestControlOptions) => Promise<PagedResponse<T>>;
+
+/**
+ * Options for the pagination iterators
+ */
+export interface IteratePagesOptions extends RequestControlOptions {
+  /** Stop after yielding this many items */
+  limit?: number;
+
+  /** Stop after fetching this many pages */
+  maxPages?: number;
+}
+
+/**
+ * Options for collectAll
+ */
+export interface CollectAllOptions extends RequestControlOptions {
+  /** Collect at most this many items */
+  limit?: number;
+
+  /** Pages fetched in parallel (page fetchers only, default 1) */
+  concurrency?: number;
+
+  /** Called as items are collected, with the expected total when known */
+  onProgress?: (loaded: number, total: number | null) => void;
+}
+
+/**
+ * Iterates over the pages of a listing by following `next` links
+ *
+ * @param fetchPage - Fetches the first page (null) or the page at a `next` link
+ * @param options - Limits, abort signal and per-request timeout
+ * @returns Async iterator of pages
+ *
+ * @example
+ * ```typescript
+ * for await (const page of iteratePages(fetchAssetPage)) {
+ *   console.log(`${page.results.length} of ${page.count}`);
+ * }
+ * ```
+ */
+export async function* iteratePages<T>(
+  fetchPage: PageLinkFetcher<T>,
+  options: IteratePagesOptions = {}
+): AsyncGenerator<PagedResponse<T>> {
+  const { limit = Infinity, maxPages = Infinity, ...requestOptions } = options;
+
+  let pageUrl: string | null = null;
+  let pages = 0;
+  let items = 0;
+
+  while (pages < maxPages && items < limit) {
+    const page: PagedResponse<T> = await fetchPage(pageUrl, requestOptions);
+    pages++;
+    items += page.results.length;
+    yield page;
+
+    if (!page.next || page.results.length === 0) return;
+    pageUrl = page.next;
+  }
+}
+
+/**
+ * Iterates over the items of a listing across all of its pages
+ *
+ * Pages are fetched lazily, so breaking out of the loop stops further requests.
+ *
+ * @param fetchPage - Fetches the first page (null) or the page at a `next` link
+ * @param options - Limits, abort signal and per-request timeout
+ * @returns Async iterator of items
+ */
+export async function* iterateItems<T>(
+  fetchPage: PageLinkFetcher<T>,
+  options: IteratePagesOptions = {}
+): AsyncGenerator<T> {
+  const { limit = Infinity } = options;
+  let yielded = 0;
+
+  for await (const page of iteratePages(fetchPage, options)) {
+    for (const item of page.results) {
+      if (yielded >= limit) return;
+      yielded++;
+      yield item;
+    }
+  }
+}
+
+/**
+ * Collects every item of a listing into an array
+ *
+ * Accepts either an async iterable (e.g. `iterateAssets(...)`), read
+ * sequentially, or a page-number fetcher. With a fetcher the first page
+ * determines the page count and the remaining pages are fetched with up to
+ * `concurrency` requests in flight. Results keep the listing order. If any
+ * page fails the other requests are cancelled and the error is rethrown.
+ *
+ * @param source - Async iterable of items, or a function fetching a page by number
+ * @param options - Limit, concurrency, progress callback, abort signal and per-request timeout
+ * @returns Promise resolving to the collected items
+ *
+ * @example
+ * ```typescript
+ * // Sequential, following next links
+ * const firstHundred = await collectAll(iterateAssets(token), { limit: 100 });
+ *
+ * // Parallel, by page number
+ * const all = await collectAll(
+ *   (page, options) => getAssets(token, { page, page_size: 50 }, options),
+ *   { concurrency: 4 }
+ * );
+ * ```
+ */
+export async function collectAll<T>(
+  source: AsyncIterable<T> | PageFetcher<T>,
+  options: CollectAllOptions = {}
+): Promise<T[]> {
+  const { limit = Infinity, concurrency = 1, onProgress, ...requestOptions } = options;
+
+  if (typeof source !== 'function') {
+    const items: T[] = [];
+    if (limit <= 0) return items;
+
+    for await (const item of source) {
+      items.push(item);
+      onProgress?.(items.length, null);
+      // Stop before the iterator fetches another page
+      if (items.length >= limit) break;
+    }
+    return items;
+  }
+
+  const firstPage = await source(1, requestOptions);
+  const pageSize = firstPage.results.length;
+  const total = Math.min(firstPage.count, limit);
+  onProgress?.(Math.min(pageSize, total), total);
+
+  if (!firstPage.next || pageSize === 0 || pageSize >= total) {
+    return firstPage.results.slice(0, total);
+  }
+
+  const pageCount = Math.ceil(total / pageSize);
+  const pages: T[][] = [firstPage.results];
+  let loaded = pageSize;
+
+  // Cancels the remaining requests when one fails or the caller aborts
+  const controller = new AbortController();
+  const callerSignal = requestOptions.signal;
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  let nextPage = 2;
+  const worker = async () => {
+    while (nextPage <= pageCount) {
+      const page = nextPage++;
+      const response = await source(page, { ...requestOptions, signal: controller.signal });
+      pages[page - 1] = response.results;
+      loaded += response.results.length;
+      onProgress?.(Math.min(loaded, total), total);
+    }
+  };
+
+  try {
+    const workers = Array.from({ length: Math.max(1, Math.min(concurrency, pageCount - 1)) }, () =>
+      worker().catch(error => {
+        controller.abort(error);
+        throw error;
+      })
+    );
+    await Promise.all(workers);
+  } finally {
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+
+  return pages.flat().slice(0, total);
+}
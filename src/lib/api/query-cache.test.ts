@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearQueryCache,
+  fetchQuery,
+  getQueryData,
+  getQueryState,
+  hashQueryKey,
+  invalidateQueries,
+  setQueryData,
+  subscribeQuery,
+} from './query-cache';
+
+afterEach(() => {
+  clearQueryCache();
+  vi.useRealTimers();
+});
+
+describe('hashQueryKey', () => {
+  it('ignores the order of object keys', () => {
+    expect(hashQueryKey(['assets', { page: 1, category: ['tafsir'] }])).toBe(
+      hashQueryKey(['assets', { category: ['tafsir'], page: 1 }])
+    );
+  });
+
+  it('keeps the order of array items', () => {
+    expect(hashQueryKey(['assets', 1, 2])).not.toBe(hashQueryKey(['assets', 2, 1]));
+  });
+});
+
+describe('fetchQuery', () => {
+  it('shares an in-flight request', async () => {
+    const fetcher = vi.fn(async () => 'asset');
+
+    const [first, second] = await Promise.all([
+      fetchQuery(['assets', 1], fetcher),
+      fetchQuery(['assets', 1], fetcher),
+    ]);
+
+    expect(first).toBe('asset');
+    expect(second).toBe('asset');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves fresh data from the cache', async () => {
+    const fetcher = vi.fn(async () => 'asset');
+
+    await fetchQuery(['assets', 1], fetcher);
+    await fetchQuery(['assets', 1], fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches stale data', async () => {
+    vi.useFakeTimers();
+    const fetcher = vi.fn(async () => 'asset');
+
+    await fetchQuery(['assets', 1], fetcher, { staleTime: 1000 });
+    vi.advanceTimersByTime(1001);
+    await fetchQuery(['assets', 1], fetcher, { staleTime: 1000 });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('stores errors on the entry', async () => {
+    const error = new Error('Not found');
+
+    await expect(fetchQuery(['assets', 1], async () => { throw error; })).rejects.toBe(error);
+
+    expect(getQueryState(['assets', 1]).error).toBe(error);
+  });
+});
+
+describe('subscribeQuery', () => {
+  it('notifies subscribers of changes', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeQuery(['profile'], listener);
+
+    setQueryData(['profile'], { name: 'Alice' });
+    unsubscribe();
+    setQueryData(['profile'], { name: 'Bob' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the fetch when the last subscriber leaves', async () => {
+    let signal: AbortSignal | undefined;
+    const unsubscribe = subscribeQuery(['assets', 1], () => {});
+    const pending = fetchQuery(['assets', 1], options => {
+      signal = options.signal;
+      return new Promise(() => {});
+    });
+
+    unsubscribe();
+
+    expect(signal?.aborted).toBe(true);
+    expect(getQueryState(['assets', 1]).isFetching).toBe(false);
+    void pending;
+  });
+});
+
+describe('invalidateQueries', () => {
+  it('marks queries under the prefix as stale', () => {
+    setQueryData(['resources', 1], 'first');
+    setQueryData(['resources', 2], 'second');
+    setQueryData(['assets', 1], 'asset');
+
+    invalidateQueries(['resources']);
+
+    expect(getQueryState(['resources', 1]).isInvalidated).toBe(true);
+    expect(getQueryState(['resources', 2]).isInvalidated).toBe(true);
+    expect(getQueryState(['assets', 1]).isInvalidated).toBe(false);
+  });
+
+  it('refetches queries in use', async () => {
+    const fetcher = vi.fn(async () => 'updated');
+    const unsubscribe = subscribeQuery(['resources', 1], () => {});
+    await fetchQuery(['resources', 1], fetcher);
+
+    invalidateQueries(['resources']);
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalledTimes(2));
+
+    unsubscribe();
+  });
+});
+
+describe('clearQueryCache', () => {
+  it('removes unused queries', () => {
+    setQueryData(['profile'], { name: 'Alice' });
+
+    clearQueryCache();
+
+    expect(getQueryData(['profile'])).toBeUndefined();
+  });
+
+  it('drops the data of queries in use and refetches them', async () => {
+    const fetcher = vi.fn(async () => ({ name: 'Bob' }));
+    const unsubscribe = subscribeQuery(['profile'], () => {});
+    await fetchQuery(['profile'], async () => ({ name: 'Alice' }));
+    await fetchQuery(['profile'], fetcher, { force: true });
+
+    clearQueryCache();
+
+    expect(getQueryData(['profile'])).toBeUndefined();
+    await vi.waitFor(() => expect(getQueryData(['profile'])).toEqual({ name: 'Bob' }));
+    unsubscribe();
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * API Query Cache
+ *
+ * This file contains the client-side cache behind `useApiQuery`. Results are
+ * stored by query key, concurrent fetches of the same key share one request,
+ * and stale entries keep being served while they revalidate in the background.
+ *
+ * The cache has no React dependency, so it can also be used to prefetch data
+ * or invalidate entries from event handlers and services.
+ */
+
+import { isAbortError } from './client';
+
+/**
+ * Identifies a cached query, e.g. `['assets', 'list', filters]`
+ *
+ * Keys are compared structurally; invalidation matches by key prefix.
+ */
+export type QueryKey = readonly unknown[];
+
+/**
+ * Loads the data for a query
+ */
+export type QueryFetcher<T> = (options: { signal: AbortSignal }) => Promise<T>;
+
+/**
+ * Snapshot of a cached query
+ */
+export interface QueryState<T = unknown> {
+  /** Last successfully fetched data */
+  data?: T;
+
+  /** Error from the last fetch, cleared on success */
+  error?: unknown;
+
+  /** Whether a fetch is in flight */
+  isFetching: boolean;
+
+  /** When the data was last fetched (0 if never) */
+  updatedAt: number;
+
+  /** Whether the entry was invalidated and must be refetched */
+  isInvalidated: boolean;
+}
+
+/**
+ * Options for fetching a query
+ */
+export interface FetchQueryOptions {
+  /** How long fetched data is considered fresh, in milliseconds */
+  staleTime?: number;
+
+  /** Fetch even if the cached data is still fresh */
+  force?: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  listeners: Set<() => void>;
+  fetcher?: QueryFetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Default time fetched data stays fresh
+ */
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+/**
+ * Time an unused entry stays cached before being removed
+ */
+const GC_TIME = 5 * 60 * 1000;
+
+const EMPTY_STATE: QueryState = {
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+};
+
+const entries = new Map<string, QueryEntry>();
+
+/**
+ * Serializes a query key, sorting object keys so equal filters hash equally
+ *
+ * @param key - Query key
+ * @returns Stable string hash of the key
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, name) => {
+          sorted[name] = value[name];
+          return sorted;
+        }, {});
+    }
+    return value;
+  });
+}
+
+function getEntry(key: QueryKey): QueryEntry {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, listeners: new Set() };
+    entries.set(hash, entry);
+    scheduleGc(hash, entry);
+  }
+  return entry;
+}
+
+function setState(entry: QueryEntry, update: Partial<QueryState>): void {
+  entry.state = { ...entry.state, ...update };
+  entry.listeners.forEach(listener => listener());
+}
+
+function scheduleGc(hash: string, entry: QueryEntry): void {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = setTimeout(() => {
+    if (entry.listeners.size === 0 && !entry.promise) {
+      entries.delete(hash);
+    }
+  }, GC_TIME);
+}
+
+function cancelFetch(entry: QueryEntry): void {
+  if (!entry.promise) return;
+  entry.controller?.abort();
+  entry.promise = undefined;
+  entry.controller = undefined;
+  setState(entry, { isFetching: false });
+}
+
+function isStale(state: QueryState, staleTime: number): boolean {
+  return state.isInvalidated || state.updatedAt === 0 || Date.now() - state.updatedAt > staleTime;
+}
+
+function isPrefix(prefix: QueryKey, key: QueryKey): boolean {
+  return prefix.length <= key.length && prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+}
+
+/**
+ * Returns the cached state of a query
+ *
+ * The same object is returned until the entry changes, as required by
+ * `useSyncExternalStore`.
+ *
+ * @param key - Query key
+ * @returns Current query state
+ */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashQueryKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+/**
+ * Returns the cached data of a query, if any
+ *
+ * @param key - Query key
+ * @returns Cached data or undefined
+ */
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return getQueryState<T>(key).data;
+}
+
+/**
+ * Writes data to the cache, e.g. after a mutation returned the updated entity
+ *
+ * @param key - Query key
+ * @param data - Data to store
+ */
+export function setQueryData<T>(key: QueryKey, data: T): void {
+  setState(getEntry(key), { data, error: undefined, updatedAt: Date.now(), isInvalidated: false });
+}
+
+/**
+ * Subscribes to changes of a query
+ *
+ * When the last subscriber leaves, an in-flight fetch is cancelled and the
+ * entry is garbage collected after a while.
+ *
+ * @param key - Query key
+ * @param listener - Called whenever the query state changes
+ * @returns Function that removes the subscription
+ */
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  clearTimeout(entry.gcTimer);
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      cancelFetch(entry);
+      scheduleGc(hashQueryKey(key), entry);
+    }
+  };
+}
+
+/**
+ * Fetches a query, sharing in-flight requests and skipping fresh data
+ *
+ * @param key - Query key
+ * @param fetcher - Loads the data
+ * @param options - Freshness options
+ * @returns Promise resolving to the (possibly cached) data
+ * @throws The fetcher's error (an AbortError if every subscriber left)
+ *
+ * @example
+ * ```typescript
+ * const asset = await fetchQuery(queryKeys.assets.detail(id), ({ signal }) =>
+ *   getAssetDetails(id, token, { signal })
+ * );
+ * ```
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> {
+  const { staleTime = DEFAULT_STALE_TIME, force = false } = options;
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as QueryFetcher<unknown>;
+
+  if (entry.promise) {
+    return entry.promise as Promise<T>;
+  }
+  if (!force && !isStale(entry.state, staleTime)) {
+    return Promise.resolve(entry.state.data as T);
+  }
+
+  const controller = new AbortController();
+  entry.controller = controller;
+  setState(entry, { isFetching: true });
+
+  // A cancelled fetch no longer owns the entry and must not update it
+  const isCurrent = () => entry.promise === promise;
+
+  const promise: Promise<T> = fetcher({ signal: controller.signal })
+    .then(data => {
+      if (isCurrent()) {
+        setState(entry, { data, error: undefined, isFetching: false, updatedAt: Date.now(), isInvalidated: false });
+      }
+      return data;
+    })
+    .catch(error => {
+      if (isCurrent() && !isAbortError(error)) {
+        setState(entry, { error, isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (isCurrent()) {
+        entry.promise = undefined;
+        entry.controller = undefined;
+      }
+    });
+
+  entry.promise = promise;
+  return promise;
+}
+
+/**
+ * Loads a query into the cache ahead of time, ignoring errors
+ *
+ * @param key - Query key
+ * @param fetcher - Loads the data
+ * @param options - Freshness options
+ *
+ * @example
+ * ```typescript
+ * <Link onMouseEnter={() => prefetchQuery(queryKeys.assets.detail(id), ...)} />
+ * ```
+ */
+export async function prefetchQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  options?: FetchQueryOptions
+): Promise<void> {
+  try {
+    await fetchQuery(key, fetcher, options);
+  } catch {
+    // Prefetching is best-effort - the query refetches when it is used
+  }
+}
+
+/**
+ * Marks every query matching the key prefix as stale
+ *
+ * Queries that are currently in use are refetched in the background.
+ *
+ * @param prefix - Key prefix, e.g. `['resources']` for every resource query
+ *
+ * @example
+ * ```typescript
+ * await updateResource(id, data, token);
+ * invalidateQueries(queryKeys.resources.all);
+ * ```
+ */
+export function invalidateQueries(prefix: QueryKey): void {
+  entries.forEach(entry => {
+    if (!isPrefix(prefix, entry.key)) return;
+
+    setState(entry, { isInvalidated: true });
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => {
+        // Errors are stored on the entry for its subscribers
+      });
+    }
+  });
+}
+
+/**
+ * Removes every cached query (e.g. on logout)
+ */
+export function clearQueryCache(): void {
+  entries.forEach((entry, hash) => {
+    cancelFetch(entry);
+
+    if (entry.listeners.size === 0) {
+      clearTimeout(entry.gcTimer);
+      entries.delete(hash);
+      return;
+    }
+
+    // Queries in use start over without the previous session's data
+    setState(entry, { ...EMPTY_STATE, data: undefined, error: undefined, isInvalidated: true });
+    if (entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => {
+        // Errors are stored on the entry for its subscribers
+      });
+    }
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * API Query Keys
+ *
+ * This file defines the cache keys used with `useApiQuery` and the query cache.
+ * Keys are hierarchical, so invalidating `queryKeys.resources.all` also
+ * invalidates every resource list and detail query.
+ *
+ * @example
+ * ```typescript
+ * useApiQuery(queryKeys.assets.detail(id), ({ signal }) => getAssetDetails(id, token, { signal }));
+ * invalidateQueries(queryKeys.assets.all);
+ * ```
+ */
+
+import type { AssetListFilters, ResourceListFilters } from '@/lib/types/api/assets.types';
+
+export const queryKeys = {
+  assets: {
+    all: ['assets'] as const,
+    list: (filters: AssetListFilters & { publisher_id?: number }) => ['assets', 'list', filters] as const,
+    detail: (assetId: number) => ['assets', 'detail', assetId] as const,
+    accessStatus: (assetId: number) => ['assets', 'access-status', assetId] as const,
+  },
+  resources: {
+    all: ['resources'] as const,
+    list: (filters: ResourceListFilters) => ['resources', 'list', filters] as const,
+    detail: (resourceId: number) => ['resources', 'detail', resourceId] as const,
+  },
+  publishers: {
+    all: ['publishers'] as const,
+    detail: (publisherId: number) => ['publishers', 'detail', publisherId] as const,
+  },
+  profile: ['profile'] as const,
+};
@@ -0,0 +1,147 @@
+/**
+ * Resumable Upload State
+ *
+ * Helpers for the chunked upload of resource originals (see
+ * `uploadResourceOriginal`): chunk hashing and the upload state persisted in
+ * localStorage so an interrupted upload can resume after a page reload.
+ *
+ * Files cannot be stored, so resuming needs the user to pick the same file
+ * again. It is matched to its saved state by name, size and modification
+ * time, and only the chunks the server is missing are sent.
+ */
+
+/**
+ * Default chunk size (8 MB)
+ */
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const STORAGE_PREFIX = 'resource_upload:';
+
+/**
+ * Upload state saved between page loads
+ */
+export interface PersistedUpload {
+  /** Storage key (see getUploadFingerprint) */
+  fingerprint: string;
+
+  /** Server upload session id */
+  sessionId: string;
+
+  /** Resource the file is uploaded for */
+  resourceId: number;
+
+  /** File name */
+  fileName: string;
+
+  /** File size in bytes */
+  fileSize: number;
+
+  /** When the upload was started */
+  startedAt: string;
+}
+
+/**
+ * Identifies a file being uploaded for a resource
+ *
+ * @param resourceId - Resource the file belongs to
+ * @param file - The file (`lastModified` is used when available)
+ * @returns Key under which the upload state is saved
+ */
+export function getUploadFingerprint(resourceId: number, file: Blob): string {
+  const name = file instanceof File ? file.name : 'blob';
+  const lastModified = file instanceof File ? file.lastModified : 0;
+  return `${resourceId}:${name}:${file.size}:${lastModified}`;
+}
+
+/**
+ * Reads the saved state of an upload
+ *
+ * @param fingerprint - Key from getUploadFingerprint
+ * @returns The saved state, or null if there is none
+ */
+export function loadUploadState(fingerprint: string): PersistedUpload | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}${fingerprint}`);
+    return stored ? (JSON.parse(stored) as PersistedUpload) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the state of an upload
+ *
+ * If storage is full or unavailable the upload carries on without being
+ * resumable; an older saved state is removed so it cannot be resumed from.
+ *
+ * @param state - State to save
+ */
+export function saveUploadState(state: PersistedUpload): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${state.fingerprint}`, JSON.stringify(state));
+  } catch {
+    clearUploadState(state.fingerprint);
+  }
+}
+
+/**
+ * Removes the saved state of an upload
+ *
+ * @param fingerprint - Key from getUploadFingerprint
+ */
+export function clearUploadState(fingerprint: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(`${STORAGE_PREFIX}${fingerprint}`);
+  } catch {
+    // Storage is unavailable - nothing was saved
+  }
+}
+
+/**
+ * Lists uploads that were interrupted and can be resumed
+ *
+ * @param resourceId - Only list uploads for this resource
+ * @returns Saved upload states, oldest first
+ *
+ * @example
+ * ```typescript
+ * const pending = getPendingUploads(resourceId);
+ * if (pending.length > 0) {
+ *   showResumePrompt(pending[0].fileName);
+ * }
+ * ```
+ */
+export function getPendingUploads(resourceId?: number): PersistedUpload[] {
+  if (typeof window === 'undefined') return [];
+
+  const uploads: PersistedUpload[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(STORAGE_PREFIX)) continue;
+
+    const state = loadUploadState(key.slice(STORAGE_PREFIX.length));
+    if (state && (resourceId === undefined || state.resourceId === resourceId)) {
+      uploads.push(state);
+    }
+  }
+
+  return uploads.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+/**
+ * Computes the SHA-256 digest of binary data
+ *
+ * @param data - Blob or buffer to hash
+ * @returns Lowercase hex digest
+ */
+export async function sha256Hex(data: Blob | ArrayBuffer): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
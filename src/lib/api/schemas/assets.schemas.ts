@@ -0,0 +1,249 @@
+/**
+ * Assets, Resources, and Publishers API Schemas
+ *
+ * Runtime schemas for the response types in `assets.types.ts`.
+ */
+
+import type {
+  AccessGrantOut,
+  AccessRequestOut,
+  AccessRequestResponseOut,
+  AssetAccessStatusOut,
+  DetailAssetOut,
+  DetailAssetPublisherOut,
+  DetailAssetResourceOut,
+  DetailAssetSnapshotOut,
+  DetailPublisherOut,
+  DetailResourceOut,
+  DetailResourcePublisherOut,
+  DownloadResponseOut,
+  ListAssetOut,
+  ListAssetPublisherOut,
+  ListResourceOut,
+  ListResourcePublisherOut,
+  PagedListAssetOut,
+  PagedListResourceOut,
+  ResourceOut,
+  UploadChunkOut,
+  UploadSessionOut,
+} from '@/lib/types/api/assets.types';
+import { pagedResponseSchema } from './common.schemas';
+import { array, boolean, nullable, number, object, optional, schemaFor, string } from './core';
+
+// ============================================================================
+// Publisher Schemas
+// ============================================================================
+
+export const listAssetPublisherSchema = schemaFor<ListAssetPublisherOut>('ListAssetPublisherOut')(
+  object({
+    id: number(),
+    name: string(),
+  })
+);
+
+export const detailAssetPublisherSchema = schemaFor<DetailAssetPublisherOut>('DetailAssetPublisherOut')(
+  object({
+    id: number(),
+    name: string(),
+    description: string(),
+  })
+);
+
+export const detailPublisherSchema = schemaFor<DetailPublisherOut>('DetailPublisherOut')(
+  object({
+    id: number(),
+    name: string(),
+    slug: string(),
+    description: string(),
+    address: string(),
+    website: string(),
+    is_verified: boolean(),
+    contact_email: string(),
+    icon_url: nullable(string()),
+  })
+);
+
+export const listResourcePublisherSchema = schemaFor<ListResourcePublisherOut>('ListResourcePublisherOut')(
+  object({
+    id: number(),
+    name: string(),
+  })
+);
+
+export const detailResourcePublisherSchema = schemaFor<DetailResourcePublisherOut>('DetailResourcePublisherOut')(
+  object({
+    id: number(),
+    name: string(),
+    description: string(),
+  })
+);
+
+// ============================================================================
+// Asset Schemas
+// ============================================================================
+
+export const listAssetSchema = schemaFor<ListAssetOut>('ListAssetOut')(
+  object({
+    id: number(),
+    category: string(),
+    name: string(),
+    description: string(),
+    publisher: listAssetPublisherSchema,
+    license: string(),
+  })
+);
+
+export const detailAssetSnapshotSchema = schemaFor<DetailAssetSnapshotOut>('DetailAssetSnapshotOut')(
+  object({
+    image_url: string(),
+    title: string(),
+    description: string(),
+  })
+);
+
+export const detailAssetResourceSchema = schemaFor<DetailAssetResourceOut>('DetailAssetResourceOut')(
+  object({
+    id: number(),
+  })
+);
+
+export const detailAssetSchema = schemaFor<DetailAssetOut>('DetailAssetOut')(
+  object({
+    id: number(),
+    category: string(),
+    name: string(),
+    description: string(),
+    long_description: string(),
+    thumbnail_url: string(),
+    publisher: detailAssetPublisherSchema,
+    resource: detailAssetResourceSchema,
+    license: string(),
+    snapshots: array(detailAssetSnapshotSchema),
+  })
+);
+
+export const pagedListAssetSchema = schemaFor<PagedListAssetOut>('PagedListAssetOut')(
+  pagedResponseSchema(listAssetSchema)
+);
+
+// ============================================================================
+// Resource Schemas
+// ============================================================================
+
+export const listResourceSchema = schemaFor<ListResourceOut>('ListResourceOut')(
+  object({
+    id: number(),
+    category: string(),
+    name: string(),
+    description: string(),
+    status: string(),
+    publisher: listResourcePublisherSchema,
+    created_at: string(),
+    updated_at: string(),
+  })
+);
+
+export const detailResourceSchema = schemaFor<DetailResourceOut>('DetailResourceOut')(
+  object({
+    id: number(),
+    category: string(),
+    name: string(),
+    slug: string(),
+    description: string(),
+    status: string(),
+    publisher: detailResourcePublisherSchema,
+    created_at: string(),
+    updated_at: string(),
+  })
+);
+
+export const pagedListResourceSchema = schemaFor<PagedListResourceOut>('PagedListResourceOut')(
+  pagedResponseSchema(listResourceSchema)
+);
+
+export const resourceSchema = schemaFor<ResourceOut>('ResourceOut')(
+  object({
+    id: number(),
+    category: string(),
+    name: string(),
+    slug: string(),
+    description: string(),
+    status: string(),
+    publisher_id: number(),
+    created_at: string(),
+    updated_at: string(),
+  })
+);
+
+// ============================================================================
+// Access Management Schemas
+// ============================================================================
+
+export const accessRequestSchema = schemaFor<AccessRequestOut>('AccessRequestOut')(
+  object({
+    id: number(),
+    asset_id: number(),
+    purpose: string(),
+    intended_use: string(),
+    status: string(),
+    created_at: string(),
+  })
+);
+
+export const accessGrantSchema = schemaFor<AccessGrantOut>('AccessGrantOut')(
+  object({
+    id: number(),
+    asset_id: number(),
+    expires_at: nullable(string()),
+    is_active: boolean(),
+  })
+);
+
+export const accessRequestResponseSchema = schemaFor<AccessRequestResponseOut>('AccessRequestResponseOut')(
+  object({
+    request: accessRequestSchema,
+    access: nullable(accessGrantSchema),
+  })
+);
+
+export const assetAccessStatusSchema = schemaFor<AssetAccessStatusOut>('AssetAccessStatusOut')(
+  object({
+    has_access: boolean(),
+    requires_approval: boolean(),
+  })
+);
+
+// ============================================================================
+// Chunked Upload Schemas
+// ============================================================================
+
+export const uploadSessionSchema = schemaFor<UploadSessionOut>('UploadSessionOut')(
+  object({
+    id: string(),
+    file_name: string(),
+    file_size: number(),
+    chunk_size: number(),
+    total_chunks: number(),
+    received_chunks: array(number()),
+    status: string(),
+    expires_at: string(),
+  })
+);
+
+export const uploadChunkSchema = schemaFor<UploadChunkOut>('UploadChunkOut')(
+  object({
+    index: number(),
+    checksum_sha256: string(),
+  })
+);
+
+// ============================================================================
+// Download Schemas
+// ============================================================================
+
+export const downloadResponseSchema = schemaFor<DownloadResponseOut>('DownloadResponseOut')(
+  object({
+    download_url: string(),
+    checksum_sha256: optional(nullable(string())),
+  })
+);
@@ -0,0 +1,77 @@
+/**
+ * Authentication API Schemas
+ *
+ * Runtime schemas for the response types in `auth.types.ts`.
+ */
+
+import type {
+  AccountDeletionOut,
+  OAuth2AuthorizeResponseSchema,
+  ReauthenticationOut,
+  RefreshTokenOut,
+  SessionOut,
+  TokenResponseSchema,
+  UserProfileSchema,
+} from '@/lib/types/api/auth.types';
+import { boolean, nullable, object, optional, record, schemaFor, string, unknown } from './core';
+
+export const userProfileSchema = schemaFor<UserProfileSchema>('UserProfileSchema')(
+  object({
+    id: string(),
+    email: string(),
+    name: string(),
+    phone: nullable(string()),
+    is_active: boolean(),
+    is_profile_completed: boolean(),
+    bio: string(),
+    project_summary: string(),
+    project_url: string(),
+    job_title: string(),
+    role: optional(string()),
+    deletion_scheduled_at: optional(nullable(string())),
+    created_at: string(),
+    updated_at: string(),
+  })
+);
+
+export const tokenResponseSchema = schemaFor<TokenResponseSchema>('TokenResponseSchema')(
+  object({
+    access: string(),
+    refresh: string(),
+    user: record(unknown()),
+  })
+);
+
+export const refreshTokenOutSchema = schemaFor<RefreshTokenOut>('RefreshTokenOut')(
+  object({
+    access: string(),
+    refresh: optional(nullable(string())),
+  })
+);
+
+export const sessionOutSchema = schemaFor<SessionOut>('SessionOut')(
+  object({
+    access: string(),
+    expires_at: nullable(string()),
+  })
+);
+
+export const oauthAuthorizeResponseSchema = schemaFor<OAuth2AuthorizeResponseSchema>('OAuth2AuthorizeResponseSchema')(
+  object({
+    authorization_url: string(),
+    state: string(),
+  })
+);
+
+export const accountDeletionOutSchema = schemaFor<AccountDeletionOut>('AccountDeletionOut')(
+  object({
+    deletion_scheduled_at: string(),
+  })
+);
+
+export const reauthenticationOutSchema = schemaFor<ReauthenticationOut>('ReauthenticationOut')(
+  object({
+    reauthentication_token: string(),
+    expires_at: string(),
+  })
+);
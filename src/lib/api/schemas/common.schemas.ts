@@ -0,0 +1,30 @@
+/**
+ * Common API Schemas
+ *
+ * Runtime schemas for the shared response types in `common.types.ts`.
+ */
+
+import type { OkSchema, PagedResponse } from '@/lib/types/api/common.types';
+import { array, nullable, number, object, optional, schemaFor, string } from './core';
+import type { Schema } from './core';
+
+export const okSchema = schemaFor<OkSchema>('OkSchema')(
+  object({
+    message: string(),
+  })
+);
+
+/**
+ * Builds the schema of a paginated list of `item`
+ *
+ * @param item - Schema of a single result
+ * @returns Schema of the paginated response
+ */
+export function pagedResponseSchema<T>(item: Schema<T>): Schema<PagedResponse<T>> {
+  return object({
+    results: array(item),
+    count: number(),
+    next: optional(nullable(string())),
+    previous: optional(nullable(string())),
+  });
+}
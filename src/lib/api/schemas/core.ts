@@ -0,0 +1,258 @@
+/**
+ * Runtime Schema Primitives
+ *
+ * A small schema builder for checking API responses at runtime. Schemas are
+ * written once per response type and tied to the TypeScript interface with
+ * `schemaFor`, which fails to compile if the two disagree - so the runtime
+ * checks and the static types cannot drift apart.
+ *
+ * @example
+ * ```typescript
+ * export const okSchema = schemaFor<OkSchema>('OkSchema')(
+ *   object({ message: string() })
+ * );
+ *
+ * const issues = validate(okSchema, await response.json());
+ * ```
+ */
+
+/**
+ * A single mismatch between a value and its schema
+ */
+export interface SchemaIssue {
+  /** Location of the mismatch, e.g. `results[2].publisher.name` */
+  path: string;
+
+  /** What was expected */
+  expected: string;
+
+  /** What was received */
+  received: string;
+}
+
+/**
+ * Runtime description of a value of type `T`
+ */
+export interface Schema<T> {
+  /** Human-readable description of the expected value */
+  readonly description: string;
+
+  /** Whether the property may be missing when used in an object */
+  readonly isOptional: boolean;
+
+  /**
+   * Checks a value, appending any mismatches to `issues`
+   *
+   * @param value - The value to check
+   * @param path - Location of the value within the response
+   * @param issues - Collected mismatches
+   */
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+
+  /** Type-level marker carrying `T` (never set at runtime) */
+  readonly __type?: T;
+}
+
+/**
+ * The TypeScript type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends { isOptional: true } ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+type Equals<A, B> =
+  (<G>() => G extends A ? 1 : 2) extends (<G>() => G extends B ? 1 : 2) ? true : false;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  return typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(description: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    isOptional: false,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, expected: description, received: describe(value) });
+      }
+    },
+  };
+}
+
+/**
+ * Any string
+ */
+export function string(): Schema<string> {
+  return primitive('string', value => typeof value === 'string');
+}
+
+/**
+ * Any finite number
+ */
+export function number(): Schema<number> {
+  return primitive('number', value => typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * `true` or `false`
+ */
+export function boolean(): Schema<boolean> {
+  return primitive('boolean', value => typeof value === 'boolean');
+}
+
+/**
+ * Any value, unchecked
+ */
+export function unknown(): Schema<unknown> {
+  return primitive('unknown', () => true);
+}
+
+/**
+ * The wrapped schema, or `null`
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    description: `${schema.description} | null`,
+    isOptional: schema.isOptional,
+    check(value, path, issues) {
+      if (value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+/**
+ * The wrapped schema, or a missing/undefined property
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> & { isOptional: true } {
+  return {
+    description: `${schema.description} | undefined`,
+    isOptional: true,
+    check(value, path, issues) {
+      if (value !== undefined) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+/**
+ * An array whose items all match `item`
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    isOptional: false,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: `${item.description}[]`, received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+/**
+ * An object with string keys whose values all match `value`
+ */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: `Record<string, ${value.description}>`,
+    isOptional: false,
+    check(input, path, issues) {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        issues.push({ path, expected: 'object', received: describe(input) });
+        return;
+      }
+      Object.entries(input).forEach(([key, entry]) => value.check(entry, joinPath(path, key), issues));
+    },
+  };
+}
+
+/**
+ * An object with the given properties
+ *
+ * Unknown extra properties are allowed, so the backend can add fields
+ * without breaking older clients.
+ */
+export function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+  return {
+    description: 'object',
+    isOptional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+
+      const input = value as Record<string, unknown>;
+      Object.entries(shape).forEach(([key, schema]) => {
+        const propertyPath = joinPath(path, key);
+        if (!(key in input) && !schema.isOptional) {
+          issues.push({ path: propertyPath, expected: schema.description, received: 'missing' });
+          return;
+        }
+        schema.check(input[key], propertyPath, issues);
+      });
+    },
+  };
+}
+
+/**
+ * Ties a schema to an existing TypeScript type
+ *
+ * Compilation fails (with an extra `drift` argument required) unless the
+ * schema describes exactly `T` - no missing, extra or differently typed
+ * properties.
+ *
+ * @param name - Type name used in validation messages
+ *
+ * @example
+ * ```typescript
+ * export const downloadResponseSchema = schemaFor<DownloadResponseOut>('DownloadResponseOut')(
+ *   object({ download_url: string() })
+ * );
+ * ```
+ */
+export function schemaFor<T>(name: string) {
+  return <S extends Schema<unknown>>(
+    schema: S,
+    ...drift: Equals<Infer<S>, T> extends true ? [] : [drift: { expected: T; schema: Infer<S> }]
+  ): Schema<T> => {
+    void drift;
+    return { ...schema, description: name } as unknown as Schema<T>;
+  };
+}
+
+/**
+ * Checks a value against a schema
+ *
+ * @param schema - The schema to check against
+ * @param value - The value to check
+ * @returns Every mismatch found (empty if the value is valid)
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '', issues);
+  return issues;
+}
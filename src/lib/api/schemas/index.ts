@@ -0,0 +1,68 @@
+/**
+ * API Schemas Barrel Export
+ *
+ * Runtime schemas for every API response type. Pass them to the request
+ * helpers (`schema` option) to validate responses in `handleApiResponse`.
+ *
+ * @example
+ * import { detailAssetSchema } from '@/lib/api/schemas';
+ */
+
+export {
+  string,
+  number,
+  boolean,
+  unknown,
+  nullable,
+  optional,
+  array,
+  record,
+  object,
+  schemaFor,
+  validate,
+} from './core';
+
+export type {
+  Schema,
+  SchemaIssue,
+  Infer,
+} from './core';
+
+export {
+  okSchema,
+  pagedResponseSchema,
+} from './common.schemas';
+
+export {
+  userProfileSchema,
+  tokenResponseSchema,
+  refreshTokenOutSchema,
+  sessionOutSchema,
+  oauthAuthorizeResponseSchema,
+  accountDeletionOutSchema,
+  reauthenticationOutSchema,
+} from './auth.schemas';
+
+export {
+  listAssetPublisherSchema,
+  detailAssetPublisherSchema,
+  detailPublisherSchema,
+  listResourcePublisherSchema,
+  detailResourcePublisherSchema,
+  listAssetSchema,
+  detailAssetSnapshotSchema,
+  detailAssetResourceSchema,
+  detailAssetSchema,
+  pagedListAssetSchema,
+  listResourceSchema,
+  detailResourceSchema,
+  pagedListResourceSchema,
+  resourceSchema,
+  accessRequestSchema,
+  accessGrantSchema,
+  accessRequestResponseSchema,
+  assetAccessStatusSchema,
+  uploadSessionSchema,
+  uploadChunkSchema,
+  downloadResponseSchema,
+} from './assets.schemas';
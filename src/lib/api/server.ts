@@ -0,0 +1,116 @@
+/**
+ * Server-side API Access
+ *
+ * Helpers for calling the API from Server Components and route handlers.
+ * The browser client keeps an unsigned copy of the access token in memory
+ * and reads the locale from the URL; on the server both come from the
+ * incoming request instead: the token from the `auth_token` cookie (see
+ * `@/lib/auth-cookie`) and the locale from the header set by the middleware,
+ * falling back to `Accept-Language`.
+ *
+ * The service functions themselves are shared - pass them the token and
+ * request options from `getServerApiContext`.
+ *
+ * This module uses `next/headers` and must not be imported from client
+ * components (it is not part of the `@/lib/api` barrel).
+ *
+ * @example
+ * ```typescript
+ * // app/[locale]/store/asset/[id]/page.tsx
+ * const { token, options } = await getServerApiContext();
+ * const asset = await fetchInitialData(() => getAssetDetails(assetId, token, options));
+ * return <AssetDetails assetId={id} locale={locale} initialData={asset} />;
+ * ```
+ */
+
+import { cookies, headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { defaultLocale, isValidLocale, LOCALE_HEADER } from '@/i18n';
+import type { Locale } from '@/i18n';
+import { AUTH_TOKEN_COOKIE } from '@/lib/auth-cookie';
+import { ApiNotFoundError } from './client';
+import type { RequestControlOptions } from './client';
+
+/**
+ * Timeout for server-side requests, so a slow backend cannot hold up rendering
+ */
+export const SERVER_REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Token, locale and request options for the current request
+ */
+export interface ServerApiContext {
+  /** Access token from the request cookies, if the user is signed in */
+  token?: string;
+
+  /** Locale of the request */
+  locale: Locale;
+
+  /** Options to pass to service functions (locale and timeout) */
+  options: RequestControlOptions;
+}
+
+function parseAcceptLanguage(acceptLanguage: string | null): Locale | null {
+  if (!acceptLanguage) return null;
+
+  for (const part of acceptLanguage.split(',')) {
+    const language = part.split(';')[0].trim().split('-')[0].toLowerCase();
+    if (isValidLocale(language)) {
+      return language;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the access token and locale of the current request
+ *
+ * @returns Token, locale and the request options to pass to service functions
+ *
+ * @example
+ * ```typescript
+ * // app/api/my-assets/route.ts
+ * export async function GET() {
+ *   const { token, options } = await getServerApiContext();
+ *   return Response.json(await getAssets(token, {}, options));
+ * }
+ * ```
+ */
+export async function getServerApiContext(): Promise<ServerApiContext> {
+  const [cookieStore, headerStore] = await Promise.all([cookies(), headers()]);
+
+  const routeLocale = headerStore.get(LOCALE_HEADER);
+  const locale =
+    (routeLocale && isValidLocale(routeLocale) ? routeLocale : null) ??
+    parseAcceptLanguage(headerStore.get('accept-language')) ??
+    defaultLocale;
+
+  return {
+    token: cookieStore.get(AUTH_TOKEN_COOKIE)?.value || undefined,
+    locale,
+    options: { locale, timeoutMs: SERVER_REQUEST_TIMEOUT_MS },
+  };
+}
+
+/**
+ * Fetches data to render on the server and hand to a client component
+ *
+ * A 404 renders the not-found page. Any other failure (e.g. an expired
+ * token, or the backend being unreachable) resolves to undefined, so the
+ * page still renders and the client component fetches the data itself with
+ * its own token refresh and error handling.
+ *
+ * @param fetcher - Service call to run
+ * @returns Promise resolving to the data, or undefined if it could not be fetched
+ */
+export async function fetchInitialData<T>(fetcher: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await fetcher();
+  } catch (error) {
+    if (error instanceof ApiNotFoundError) {
+      notFound();
+    }
+    console.error('Server-side API request failed:', error);
+    return undefined;
+  }
+}
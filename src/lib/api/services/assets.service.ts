@@ -2,18 +2,34 @@
  * Assets API Service
  * 
  * This service handles all asset-related API operations including:
- * - Asset listing and filtering
+ * - Asset listing, filtering and pagination
  * - Asset details retrieval
  * - Access requests and permissions
  * - Asset downloads
- * - Resource management
+ * - Resource management and resumable uploads
  * - Publisher information
  * 
  * All functions use the centralized API client for consistent error handling
- * and request formatting.
+ * and request formatting, and validate responses against their schemas.
  */
 
-import { apiGet, apiPost, apiPut, apiPatch, apiDelete, buildUrlWithParams } from '../client';
+import {
+  apiRequest,
+  apiGet,
+  apiPost,
+  apiPut,
+  apiPatch,
+  apiDelete,
+  apiUpload,
+  buildFormData,
+  buildUrlWithParams,
+  createIdempotencyKey,
+  invalidateHttpCache,
+  toUploadProgress,
+  ApiNotFoundError,
+  ApiPreconditionFailedError,
+} from '../client';
+import type { RequestControlOptions, UploadProgressHandler } from '../client';
 import type {
   PagedListAssetOut,
   DetailAssetOut,
@@ -29,7 +45,37 @@ import type {
   DetailPublisherOut,
   AssetListFilters,
   ResourceListFilters,
+  ListAssetOut,
+  ListResourceOut,
+  CreateUploadSessionIn,
+  UploadSessionOut,
+  UploadChunkOut,
+  CompleteUploadIn,
 } from '@/lib/types/api/assets.types';
+import { iterateItems } from '../pagination';
+import type { IteratePagesOptions } from '../pagination';
+import {
+  DEFAULT_CHUNK_SIZE,
+  clearUploadState,
+  getUploadFingerprint,
+  loadUploadState,
+  saveUploadState,
+  sha256Hex,
+} from '../resumable-upload';
+import {
+  accessRequestResponseSchema,
+  assetAccessStatusSchema,
+  detailAssetSchema,
+  detailPublisherSchema,
+  detailResourceSchema,
+  downloadResponseSchema,
+  okSchema,
+  pagedListAssetSchema,
+  pagedListResourceSchema,
+  resourceSchema,
+  uploadChunkSchema,
+  uploadSessionSchema,
+} from '../schemas';
 import type { OkSchema } from '@/lib/types/api/common.types';
 
 // ============================================================================
@@ -44,6 +90,7 @@ import type { OkSchema } from '@/lib/types/api/common.types';
  * 
  * @param token - Optional access token for authenticated requests
  * @param filters - Filter and pagination options
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to paginated asset list
  * 
  * @example
@@ -59,11 +106,43 @@ import type { OkSchema } from '@/lib/types/api/common.types';
  */
 export async function getAssets(
   token?: string,
-  filters?: AssetListFilters
+  filters?: AssetListFilters,
+  options: RequestControlOptions = {}
 ): Promise<PagedListAssetOut> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const url = buildUrlWithParams('/assets/', filters as any);
-  return apiGet<PagedListAssetOut>(url, token);
+  return apiGet<PagedListAssetOut>(url, token, undefined, { ...options, schema: pagedListAssetSchema });
+}
+
+/**
+ * Iterates over every asset matching the filters, across all pages
+ * 
+ * Follows the `next` links returned by the backend, fetching one page at a
+ * time as the loop advances. Use with `collectAll` to load the whole list.
+ * 
+ * @param token - Optional access token for authenticated requests
+ * @param filters - Filter options (`page` sets the first page fetched)
+ * @param options - Item/page limits, abort signal and per-request timeout
+ * @returns Async iterator of assets
+ * 
+ * @example
+ * ```typescript
+ * for await (const asset of iterateAssets(token, { category: ['tafsir'] })) {
+ *   rows.push([asset.id, asset.name, asset.license]);
+ * }
+ * ```
+ */
+export function iterateAssets(
+  token?: string,
+  filters?: AssetListFilters,
+  options: IteratePagesOptions = {}
+): AsyncGenerator<ListAssetOut> {
+  return iterateItems<ListAssetOut>(
+    (pageUrl, requestOptions) => pageUrl
+      ? apiGet<PagedListAssetOut>(pageUrl, token, undefined, { ...requestOptions, schema: pagedListAssetSchema })
+      : getAssets(token, filters, requestOptions),
+    options
+  );
 }
 
 /**
@@ -74,6 +153,7 @@ export async function getAssets(
  * 
  * @param assetId - Unique asset identifier
  * @param token - Optional access token for authenticated requests
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to detailed asset information
  * @throws Error if asset not found
  * 
@@ -85,9 +165,10 @@ export async function getAssets(
  */
 export async function getAssetDetails(
   assetId: number,
-  token?: string
+  token?: string,
+  options: RequestControlOptions = {}
 ): Promise<DetailAssetOut> {
-  return apiGet<DetailAssetOut>(`/assets/${assetId}/`, token);
+  return apiGet<DetailAssetOut>(`/assets/${assetId}/`, token, undefined, { ...options, schema: detailAssetSchema });
 }
 
 /**
@@ -98,6 +179,7 @@ export async function getAssetDetails(
  * 
  * @param assetId - Unique asset identifier
  * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to access status information
  * 
  * @example
@@ -112,9 +194,10 @@ export async function getAssetDetails(
  */
 export async function getAssetAccessStatus(
   assetId: number,
-  token: string
+  token: string,
+  options: RequestControlOptions = {}
 ): Promise<AssetAccessStatusOut> {
-  return apiGet<AssetAccessStatusOut>(`/assets/${assetId}/access-status/`, token);
+  return apiGet<AssetAccessStatusOut>(`/assets/${assetId}/access-status/`, token, undefined, { ...options, schema: assetAccessStatusSchema });
 }
 
 /**
@@ -126,6 +209,7 @@ export async function getAssetAccessStatus(
  * @param assetId - Unique asset identifier
  * @param data - Access request details (purpose and intended use)
  * @param token - Access token for authentication
+ * @param options - Optional abort signal, timeout and idempotency key (generated if omitted)
  * @returns Promise resolving to access request and optional grant
  * 
  * @example
@@ -145,9 +229,24 @@ export async function getAssetAccessStatus(
 export async function requestAssetAccess(
   assetId: number,
   data: RequestAccessIn,
-  token: string
+  token: string,
+  options: RequestControlOptions & { idempotencyKey?: string } = {}
 ): Promise<AccessRequestResponseOut> {
-  return apiPost<AccessRequestResponseOut>(`/assets/${assetId}/request-access/`, data, token);
+  const { idempotencyKey = createIdempotencyKey(), ...requestOptions } = options;
+  
+  // Safe to retry: the backend deduplicates replays by idempotency key
+  const response = await apiRequest<AccessRequestResponseOut>(`/assets/${assetId}/request-access/`, {
+    method: 'POST',
+    token,
+    body: JSON.stringify(data),
+    idempotencyKey,
+    schema: accessRequestResponseSchema,
+    ...requestOptions,
+  });
+  
+  // The asset's access status changed
+  invalidateHttpCache(`/assets/${assetId}/`);
+  return response;
 }
 
 /**
@@ -158,6 +257,7 @@ export async function requestAssetAccess(
  * 
  * @param assetId - Unique asset identifier
  * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to download URL
  * @throws Error if user doesn't have access
  * 
@@ -170,9 +270,10 @@ export async function requestAssetAccess(
  */
 export async function downloadAsset(
   assetId: number,
-  token: string
+  token: string,
+  options: RequestControlOptions = {}
 ): Promise<DownloadResponseOut> {
-  return apiGet<DownloadResponseOut>(`/assets/${assetId}/download/`, token);
+  return apiGet<DownloadResponseOut>(`/assets/${assetId}/download/`, token, undefined, { ...options, schema: downloadResponseSchema });
 }
 
 // ============================================================================
@@ -187,6 +288,7 @@ export async function downloadAsset(
  * 
  * @param token - Optional access token for authenticated requests
  * @param filters - Filter and pagination options
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to paginated resource list
  * 
  * @example
@@ -200,11 +302,42 @@ export async function downloadAsset(
  */
 export async function getResources(
   token?: string,
-  filters?: ResourceListFilters
+  filters?: ResourceListFilters,
+  options: RequestControlOptions = {}
 ): Promise<PagedListResourceOut> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const url = buildUrlWithParams('/resources/', filters as any);
-  return apiGet<PagedListResourceOut>(url, token);
+  return apiGet<PagedListResourceOut>(url, token, undefined, { ...options, schema: pagedListResourceSchema });
+}
+
+/**
+ * Iterates over every resource matching the filters, across all pages
+ * 
+ * Follows the `next` links returned by the backend, fetching one page at a
+ * time as the loop advances. Use with `collectAll` to load the whole list.
+ * 
+ * @param token - Optional access token for authenticated requests
+ * @param filters - Filter options (`page` sets the first page fetched)
+ * @param options - Item/page limits, abort signal and per-request timeout
+ * @returns Async iterator of resources
+ * 
+ * @example
+ * ```typescript
+ * // All of a publisher's resources
+ * const resources = await collectAll(iterateResources(token, { publisher_id: [publisherId] }));
+ * ```
+ */
+export function iterateResources(
+  token?: string,
+  filters?: ResourceListFilters,
+  options: IteratePagesOptions = {}
+): AsyncGenerator<ListResourceOut> {
+  return iterateItems<ListResourceOut>(
+    (pageUrl, requestOptions) => pageUrl
+      ? apiGet<PagedListResourceOut>(pageUrl, token, undefined, { ...requestOptions, schema: pagedListResourceSchema })
+      : getResources(token, filters, requestOptions),
+    options
+  );
 }
 
 /**
@@ -215,6 +348,7 @@ export async function getResources(
  * 
  * @param resourceId - Unique resource identifier
  * @param token - Optional access token for authenticated requests
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to detailed resource information
  * @throws Error if resource not found
  * 
@@ -225,19 +359,23 @@ export async function getResources(
  */
 export async function getResourceDetails(
   resourceId: number,
-  token?: string
+  token?: string,
+  options: RequestControlOptions = {}
 ): Promise<DetailResourceOut> {
-  return apiGet<DetailResourceOut>(`/resources/${resourceId}/`, token);
+  return apiGet<DetailResourceOut>(`/resources/${resourceId}/`, token, undefined, { ...options, schema: detailResourceSchema });
 }
 
 /**
  * Creates a new resource
  * 
  * Creates a new resource associated with a publisher.
- * Requires publisher permissions.
+ * Requires publisher permissions. When `options.file` is given, the
+ * resource and its original file are sent together as multipart form data
+ * and `options.onProgress` receives upload progress.
  * 
  * @param data - Resource creation data
  * @param token - Access token for authentication
+ * @param options - Optional file, upload progress handler, abort signal and timeout
  * @returns Promise resolving to created resource
  * @throws Error if user doesn't have publisher permissions
  * 
@@ -248,14 +386,284 @@ export async function getResourceDetails(
  *   description: 'Comprehensive tafsir texts',
  *   category: 'tafsir',
  *   publisher_id: 1,
- * }, token);
+ * }, token, {
+ *   file,
+ *   onProgress: ({ percent }) => setProgress(percent),
+ * });
  * ```
  */
 export async function createResource(
   data: CreateResourceIn,
-  token: string
+  token: string,
+  options: RequestControlOptions & { file?: Blob; onProgress?: UploadProgressHandler } = {}
 ): Promise<ResourceOut> {
-  return apiPost<ResourceOut>('/resources/', data, token);
+  const { file, onProgress, ...requestOptions } = options;
+  
+  if (file) {
+    return apiUpload<ResourceOut>('/resources/', buildFormData({ ...data, file }), token, undefined, {
+      ...requestOptions,
+      onProgress,
+      schema: resourceSchema,
+    });
+  }
+  
+  return apiPost<ResourceOut>('/resources/', data, token, undefined, { ...requestOptions, schema: resourceSchema });
+}
+
+// ============================================================================
+// Chunked Upload Operations
+// ============================================================================
+
+/**
+ * Starts a chunked upload session for a resource's original file
+ * 
+ * @param data - File name, size, type and requested chunk size
+ * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the new upload session
+ */
+export async function createUploadSession(
+  data: CreateUploadSessionIn,
+  token: string,
+  options: RequestControlOptions = {}
+): Promise<UploadSessionOut> {
+  return apiPost<UploadSessionOut>('/resources/uploads/', data, token, undefined, { ...options, schema: uploadSessionSchema });
+}
+
+/**
+ * Retrieves an upload session, including the chunks received so far
+ * 
+ * @param sessionId - Upload session identifier
+ * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the upload session
+ * @throws ApiNotFoundError if the session expired or does not exist
+ */
+export async function getUploadSession(
+  sessionId: string,
+  token: string,
+  options: RequestControlOptions = {}
+): Promise<UploadSessionOut> {
+  return apiGet<UploadSessionOut>(`/resources/uploads/${sessionId}/`, token, undefined, { ...options, schema: uploadSessionSchema });
+}
+
+/**
+ * Sends one chunk of a chunked upload
+ * 
+ * The server verifies the chunk against its SHA-256 checksum. Sending the
+ * same chunk twice is harmless, so failed chunks are retried automatically.
+ * 
+ * @param sessionId - Upload session identifier
+ * @param index - Zero-based chunk index
+ * @param chunk - Chunk contents
+ * @param checksum - SHA-256 of the chunk (hex)
+ * @param token - Access token for authentication
+ * @param options - Optional upload progress handler, abort signal and timeout
+ * @returns Promise resolving to the server's acknowledgement
+ */
+export async function uploadChunk(
+  sessionId: string,
+  index: number,
+  chunk: Blob,
+  checksum: string,
+  token: string,
+  options: RequestControlOptions & { onProgress?: UploadProgressHandler } = {}
+): Promise<UploadChunkOut> {
+  const { onProgress, ...requestOptions } = options;
+  
+  return apiRequest<UploadChunkOut>(`/resources/uploads/${sessionId}/chunks/${index}/`, {
+    method: 'PUT',
+    token,
+    body: chunk,
+    customHeaders: {
+      'Content-Type': 'application/octet-stream',
+      'X-Chunk-SHA256': checksum,
+    },
+    onUploadProgress: onProgress,
+    retry: { methods: ['PUT'] },
+    schema: uploadChunkSchema,
+    ...requestOptions,
+  });
+}
+
+/**
+ * Completes a chunked upload and links the file to a resource
+ * 
+ * @param sessionId - Upload session identifier
+ * @param data - Resource the file is the original of
+ * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the updated resource
+ * @throws ApiConflictError if chunks are still missing
+ */
+export async function completeUpload(
+  sessionId: string,
+  data: CompleteUploadIn,
+  token: string,
+  options: RequestControlOptions = {}
+): Promise<ResourceOut> {
+  const resource = await apiPost<ResourceOut>(`/resources/uploads/${sessionId}/complete/`, data, token, undefined, { ...options, schema: resourceSchema });
+  invalidateHttpCache('/resources/');
+  return resource;
+}
+
+/**
+ * Uploads a resource's original file in resumable chunks
+ * 
+ * Intended for large files (recitation audio, high-resolution scans) where a
+ * single multipart request is likely to fail. The file is split into chunks
+ * that are hashed and sent in parallel; the session id is saved in
+ * localStorage so that, after a failure or page reload, calling this again
+ * with the same file only sends the chunks the server is missing. Once every
+ * chunk has arrived the upload is linked to the resource.
+ * 
+ * @param resourceId - Resource the file is the original of (e.g. from `createResource`)
+ * @param file - The file to upload
+ * @param token - Access token for authentication
+ * @param options - Chunk size, parallel chunks (default 3), progress handler, abort signal and per-request timeout
+ * @returns Promise resolving to the resource linked to the uploaded file
+ * 
+ * @example
+ * ```typescript
+ * const resource = await createResource(data, token);
+ * await uploadResourceOriginal(resource.id, file, token, {
+ *   onProgress: ({ percent }) => setProgress(percent),
+ *   signal: controller.signal,
+ * });
+ * ```
+ */
+export async function uploadResourceOriginal(
+  resourceId: number,
+  file: Blob,
+  token: string,
+  options: RequestControlOptions & {
+    chunkSize?: number;
+    concurrency?: number;
+    onProgress?: UploadProgressHandler;
+  } = {}
+): Promise<ResourceOut> {
+  const { chunkSize = DEFAULT_CHUNK_SIZE, concurrency = 3, onProgress, ...requestOptions } = options;
+  const fingerprint = getUploadFingerprint(resourceId, file);
+  
+  // Resume the saved session if the server still has it
+  let session: UploadSessionOut | null = null;
+  const saved = loadUploadState(fingerprint);
+  if (saved) {
+    try {
+      session = await getUploadSession(saved.sessionId, token, requestOptions);
+    } catch (error) {
+      if (!(error instanceof ApiNotFoundError)) throw error;
+    }
+    if (session?.status !== 'active') {
+      session = null;
+      clearUploadState(fingerprint);
+    }
+  }
+  
+  if (!session) {
+    const fileName = file instanceof File ? file.name : 'upload';
+    session = await createUploadSession({
+      file_name: fileName,
+      file_size: file.size,
+      content_type: file.type || 'application/octet-stream',
+      chunk_size: chunkSize,
+    }, token, requestOptions);
+    saveUploadState({
+      fingerprint,
+      sessionId: session.id,
+      resourceId,
+      fileName,
+      fileSize: file.size,
+      startedAt: new Date().toISOString(),
+    });
+  }
+  
+  const { id: sessionId, chunk_size: sessionChunkSize, total_chunks: totalChunks } = session;
+  const received = new Set(session.received_chunks);
+  const pending = Array.from({ length: totalChunks }, (_, index) => index).filter(index => !received.has(index));
+  const chunkAt = (index: number) => file.slice(index * sessionChunkSize, Math.min(file.size, (index + 1) * sessionChunkSize));
+  
+  // Bytes sent per chunk, seeded with the chunks received before a resume
+  const sent = new Map<number, number>();
+  received.forEach(index => sent.set(index, chunkAt(index).size));
+  const reportProgress = () => {
+    const loaded = Array.from(sent.values()).reduce((sum, bytes) => sum + bytes, 0);
+    onProgress?.(toUploadProgress(loaded, file.size));
+  };
+  reportProgress();
+  
+  // Cancels the remaining chunks when one fails or the caller aborts
+  const controller = new AbortController();
+  const callerSignal = requestOptions.signal;
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+  
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const index = pending[next++];
+      const chunk = chunkAt(index);
+      const checksum = await sha256Hex(chunk);
+      
+      await uploadChunk(sessionId, index, chunk, checksum, token, {
+        ...requestOptions,
+        signal: controller.signal,
+        onProgress: progress => {
+          sent.set(index, progress.loaded);
+          reportProgress();
+        },
+      });
+      sent.set(index, chunk.size);
+      reportProgress();
+    }
+  };
+  
+  try {
+    await Promise.all(
+      Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, () =>
+        worker().catch(error => {
+          controller.abort(error);
+          throw error;
+        })
+      )
+    );
+  } finally {
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+  
+  const resource = await completeUpload(sessionId, { resource_id: resourceId }, token, requestOptions);
+  clearUploadState(fingerprint);
+  return resource;
+}
+
+/**
+ * Sends a resource update, guarded by `If-Match` when the version is known
+ * 
+ * The resource's `updated_at` acts as its version (and is the backend's
+ * ETag for it). A failed precondition means the cached copy is stale, so it
+ * is dropped before the error reaches the caller.
+ */
+async function writeResource(
+  resourceId: number,
+  expectedUpdatedAt: string | undefined,
+  send: (headers: HeadersInit | undefined) => Promise<ResourceOut>
+): Promise<ResourceOut> {
+  const headers = expectedUpdatedAt ? { 'If-Match': `"${expectedUpdatedAt}"` } : undefined;
+  
+  try {
+    const resource = await send(headers);
+    invalidateHttpCache('/resources/');
+    return resource;
+  } catch (error) {
+    if (error instanceof ApiPreconditionFailedError) {
+      invalidateHttpCache(`/resources/${resourceId}/`);
+    }
+    throw error;
+  }
 }
 
 /**
@@ -266,7 +674,9 @@ export async function createResource(
  * @param resourceId - Unique resource identifier
  * @param data - Complete resource data
  * @param token - Access token for authentication
+ * @param options - Optional abort signal, timeout and the `updated_at` the edit is based on
  * @returns Promise resolving to updated resource
+ * @throws ApiPreconditionFailedError if `expectedUpdatedAt` is given and the resource changed since
  * @throws Error if user doesn't have permissions or resource not found
  * 
  * @example
@@ -276,15 +686,20 @@ export async function createResource(
  *   description: 'Updated description',
  *   category: 'tafsir',
  *   status: 'ready',
- * }, token);
+ * }, token, { expectedUpdatedAt: resource.updated_at });
  * ```
  */
 export async function updateResource(
   resourceId: number,
   data: UpdateResourceIn,
-  token: string
+  token: string,
+  options: RequestControlOptions & { expectedUpdatedAt?: string } = {}
 ): Promise<ResourceOut> {
-  return apiPut<ResourceOut>(`/resources/${resourceId}/`, data, token);
+  const { expectedUpdatedAt, ...requestOptions } = options;
+  
+  return writeResource(resourceId, expectedUpdatedAt, headers =>
+    apiPut<ResourceOut>(`/resources/${resourceId}/`, data, token, headers, { ...requestOptions, schema: resourceSchema })
+  );
 }
 
 /**
@@ -295,22 +710,35 @@ export async function updateResource(
  * @param resourceId - Unique resource identifier
  * @param data - Partial resource data to update
  * @param token - Access token for authentication
+ * @param options - Optional abort signal, timeout and the `updated_at` the edit is based on
  * @returns Promise resolving to updated resource
+ * @throws ApiPreconditionFailedError if `expectedUpdatedAt` is given and the resource changed since
  * @throws Error if user doesn't have permissions or resource not found
  * 
  * @example
  * ```typescript
- * const updated = await partialUpdateResource(456, {
- *   status: 'ready', // Only update status
- * }, token);
+ * try {
+ *   await partialUpdateResource(456, { status: 'ready' }, token, {
+ *     expectedUpdatedAt: loaded.updated_at,
+ *   });
+ * } catch (error) {
+ *   if (error instanceof ApiPreconditionFailedError) {
+ *     // Someone else saved first - fetch the latest version and merge
+ *   }
+ * }
  * ```
  */
 export async function partialUpdateResource(
   resourceId: number,
   data: UpdateResourceIn,
-  token: string
+  token: string,
+  options: RequestControlOptions & { expectedUpdatedAt?: string } = {}
 ): Promise<ResourceOut> {
-  return apiPatch<ResourceOut>(`/resources/${resourceId}/`, data, token);
+  const { expectedUpdatedAt, ...requestOptions } = options;
+  
+  return writeResource(resourceId, expectedUpdatedAt, headers =>
+    apiPatch<ResourceOut>(`/resources/${resourceId}/`, data, token, headers, { ...requestOptions, schema: resourceSchema })
+  );
 }
 
 /**
@@ -320,6 +748,7 @@ export async function partialUpdateResource(
  * 
  * @param resourceId - Unique resource identifier
  * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to success message
  * @throws Error if user doesn't have permissions or resource not found
  * 
@@ -331,9 +760,12 @@ export async function partialUpdateResource(
  */
 export async function deleteResource(
   resourceId: number,
-  token: string
+  token: string,
+  options: RequestControlOptions = {}
 ): Promise<OkSchema> {
-  return apiDelete<OkSchema>(`/resources/${resourceId}/`, token);
+  const response = await apiDelete<OkSchema>(`/resources/${resourceId}/`, token, undefined, { ...options, schema: okSchema });
+  invalidateHttpCache('/resources/');
+  return response;
 }
 
 /**
@@ -344,6 +776,7 @@ export async function deleteResource(
  * 
  * @param resourceId - Unique resource identifier
  * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to download URL
  * @throws Error if user doesn't have access
  * 
@@ -356,9 +789,10 @@ export async function deleteResource(
  */
 export async function downloadOriginalResource(
   resourceId: number,
-  token: string
+  token: string,
+  options: RequestControlOptions = {}
 ): Promise<DownloadResponseOut> {
-  return apiGet<DownloadResponseOut>(`/resources/${resourceId}/download/`, token);
+  return apiGet<DownloadResponseOut>(`/resources/${resourceId}/download/`, token, undefined, { ...options, schema: downloadResponseSchema });
 }
 
 // ============================================================================
@@ -373,6 +807,7 @@ export async function downloadOriginalResource(
  * 
  * @param publisherId - Unique publisher identifier
  * @param token - Optional access token for authenticated requests
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to detailed publisher information
  * @throws Error if publisher not found
  * 
@@ -384,8 +819,9 @@ export async function downloadOriginalResource(
  */
 export async function getPublisherDetails(
   publisherId: number,
-  token?: string
+  token?: string,
+  options: RequestControlOptions = {}
 ): Promise<DetailPublisherOut> {
-  return apiGet<DetailPublisherOut>(`/publishers/${publisherId}/`, token);
+  return apiGet<DetailPublisherOut>(`/publishers/${publisherId}/`, token, undefined, { ...options, schema: detailPublisherSchema });
 }
 
@@ -5,13 +5,16 @@
  * - User registration and login
  * - Profile management
  * - Token refresh and logout
+ * - Password reset and email verification
+ * - Account security (password/email changes, account deletion)
  * - OAuth2 flows (Google, GitHub)
  * 
  * All functions use the centralized API client for consistent error handling
- * and request formatting.
+ * and request formatting, and validate responses against their schemas.
  */
 
-import { apiGet, apiPost, apiPut } from '../client';
+import { apiGet, apiPost, apiPut, buildUrlWithParams } from '../client';
+import type { RequestControlOptions } from '../client';
 import type {
   UserProfileSchema,
   UserUpdateSchema,
@@ -22,7 +25,27 @@ import type {
   RefreshTokenOut,
   LogoutIn,
   OAuth2AuthorizeResponseSchema,
+  OAuth2CallbackIn,
+  OAuthProvider,
+  PasswordResetRequestIn,
+  PasswordResetConfirmIn,
+  VerifyEmailIn,
+  ChangePasswordIn,
+  ChangeEmailIn,
+  DeleteAccountIn,
+  AccountDeletionOut,
+  ReauthenticationOut,
 } from '@/lib/types/api/auth.types';
+import type { OkSchema } from '@/lib/types/api/common.types';
+import {
+  accountDeletionOutSchema,
+  okSchema,
+  oauthAuthorizeResponseSchema,
+  reauthenticationOutSchema,
+  refreshTokenOutSchema,
+  tokenResponseSchema,
+  userProfileSchema,
+} from '../schemas';
 
 // ============================================================================
 // Authentication Operations
@@ -35,6 +58,7 @@ import type {
  * Returns access and refresh tokens upon successful registration.
  * 
  * @param data - User registration data (email, password, optional profile info)
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to tokens and user data
  * @throws Error if registration fails (e.g., email already exists)
  * 
@@ -49,8 +73,8 @@ import type {
  * // Store tokens and redirect user
  * ```
  */
-export async function registerUser(data: RegisterSchema): Promise<TokenResponseSchema> {
-  return apiPost<TokenResponseSchema>('/auth/register/', data);
+export async function registerUser(data: RegisterSchema, options: RequestControlOptions = {}): Promise<TokenResponseSchema> {
+  return apiPost<TokenResponseSchema>('/auth/register/', data, undefined, undefined, { ...options, schema: tokenResponseSchema });
 }
 
 /**
@@ -59,6 +83,7 @@ export async function registerUser(data: RegisterSchema): Promise<TokenResponseS
  * Logs in an existing user and returns access and refresh tokens.
  * 
  * @param data - Login credentials (email and password)
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to tokens and user data
  * @throws Error if credentials are invalid or user doesn't exist
  * 
@@ -68,12 +93,12 @@ export async function registerUser(data: RegisterSchema): Promise<TokenResponseS
  *   email: 'user@example.com',
  *   password: 'password123',
  * });
- * // Store tokens in storage
- * tokenStorage.setTokens(response.access, response.refresh);
+ * // In a route handler: store the tokens in httpOnly cookies
+ * return sessionResponse(response);
  * ```
  */
-export async function loginUser(data: LoginSchema): Promise<TokenResponseSchema> {
-  return apiPost<TokenResponseSchema>('/auth/login/', data);
+export async function loginUser(data: LoginSchema, options: RequestControlOptions = {}): Promise<TokenResponseSchema> {
+  return apiPost<TokenResponseSchema>('/auth/login/', data, undefined, undefined, { ...options, schema: tokenResponseSchema });
 }
 
 /**
@@ -84,24 +109,24 @@ export async function loginUser(data: LoginSchema): Promise<TokenResponseSchema>
  * 
  * @param token - Access token for authentication
  * @param refreshToken - Refresh token to invalidate (optional)
+ * @param options - Optional abort signal and timeout
  * @returns Promise that resolves when logout completes
  * 
  * @example
  * ```typescript
  * await logoutUser(accessToken, refreshToken);
- * // Clear local storage
- * tokenStorage.clearTokens();
- * router.push('/login');
+ * // In a route handler: clear the session cookies
+ * return clearSessionCookies(response);
  * ```
  */
-export async function logoutUser(token: string, refreshToken?: string): Promise<void> {
+export async function logoutUser(token: string, refreshToken?: string, options: RequestControlOptions = {}): Promise<void> {
   const body: LogoutIn = {};
   if (refreshToken) {
     body.refresh = refreshToken;
   }
   
   try {
-    await apiPost<void>('/auth/logout/', body, token);
+    await apiPost<void>('/auth/logout/', body, token, undefined, options);
   } catch (error) {
     // Don't throw on logout errors - log and continue
     console.warn('Logout API call failed:', error);
@@ -116,26 +141,24 @@ export async function logoutUser(token: string, refreshToken?: string): Promise<
  * a new refresh token as well (token rotation).
  * 
  * @param refreshToken - Valid refresh token
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to new access token and optionally new refresh token
  * @throws Error if refresh token is invalid or expired
  * 
  * @example
  * ```typescript
  * try {
- *   const response = await refreshToken(currentRefreshToken);
- *   tokenStorage.setAccessToken(response.access);
- *   if (response.refresh) {
- *     tokenStorage.setRefreshToken(response.refresh);
- *   }
+ *   // In a route handler, with the refresh token from its cookie
+ *   return sessionResponse(await refreshToken(refresh));
  * } catch (error) {
- *   // Refresh token expired, redirect to login
- *   router.push('/login');
+ *   // Refresh token expired, end the session
+ *   return unauthorizedResponse(error.message);
  * }
  * ```
  */
-export async function refreshToken(refreshToken: string): Promise<RefreshTokenOut> {
+export async function refreshToken(refreshToken: string, options: RequestControlOptions = {}): Promise<RefreshTokenOut> {
   const data: RefreshTokenIn = { refresh: refreshToken };
-  return apiPost<RefreshTokenOut>('/auth/token/refresh/', data);
+  return apiPost<RefreshTokenOut>('/auth/token/refresh/', data, undefined, undefined, { ...options, schema: refreshTokenOutSchema });
 }
 
 // ============================================================================
@@ -148,6 +171,7 @@ export async function refreshToken(refreshToken: string): Promise<RefreshTokenOu
  * Fetches complete profile information for the authenticated user.
  * 
  * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to user profile data
  * @throws Error if token is invalid or user not found
  * 
@@ -157,8 +181,8 @@ export async function refreshToken(refreshToken: string): Promise<RefreshTokenOu
  * console.log(`Welcome, ${profile.name}!`);
  * ```
  */
-export async function getUserProfile(token: string): Promise<UserProfileSchema> {
-  return apiGet<UserProfileSchema>('/auth/profile/', token);
+export async function getUserProfile(token: string, options: RequestControlOptions = {}): Promise<UserProfileSchema> {
+  return apiGet<UserProfileSchema>('/auth/profile/', token, undefined, { ...options, schema: userProfileSchema });
 }
 
 /**
@@ -169,6 +193,7 @@ export async function getUserProfile(token: string): Promise<UserProfileSchema>
  * 
  * @param token - Access token for authentication
  * @param data - Profile fields to update
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to updated user profile
  * @throws Error if validation fails or token is invalid
  * 
@@ -183,21 +208,309 @@ export async function getUserProfile(token: string): Promise<UserProfileSchema>
  */
 export async function updateUserProfile(
   token: string,
-  data: UserUpdateSchema
+  data: UserUpdateSchema,
+  options: RequestControlOptions = {}
+): Promise<UserProfileSchema> {
+  return apiPut<UserProfileSchema>('/auth/profile/', data, token, undefined, { ...options, schema: userProfileSchema });
+}
+
+// ============================================================================
+// Password Reset
+// ============================================================================
+
+/**
+ * Requests a password reset link
+ * 
+ * The backend emails a link with a single-use token to the address. It
+ * responds the same way whether or not an account exists, so the response
+ * does not reveal registered emails.
+ * 
+ * @param data - Email address of the account
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving once the request is accepted
+ * @throws ApiRateLimitError if too many links were requested for the address (see `retryAfter`)
+ * 
+ * @example
+ * ```typescript
+ * await requestPasswordReset({ email: 'user@example.com' });
+ * ```
+ */
+export async function requestPasswordReset(
+  data: PasswordResetRequestIn,
+  options: RequestControlOptions = {}
+): Promise<OkSchema> {
+  return apiPost<OkSchema>('/auth/password/reset/', data, undefined, undefined, { ...options, schema: okSchema });
+}
+
+/**
+ * Sets a new password with the token from a reset link
+ * 
+ * The token is single-use. Existing sessions are not ended; the user signs
+ * in with the new password afterwards.
+ * 
+ * @param data - Reset token and the new password
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving once the password is changed
+ * @throws ApiValidationError with `errorName` `RESET_TOKEN_EXPIRED` or `RESET_TOKEN_INVALID`
+ *   for an expired or unknown/used token, or with `fieldErrors.password` for a rejected password
+ * @throws ApiRateLimitError if too many attempts were made
+ * 
+ * @example
+ * ```typescript
+ * try {
+ *   await confirmPasswordReset({ token, password });
+ * } catch (error) {
+ *   if (error instanceof ApiValidationError && error.errorName === 'RESET_TOKEN_EXPIRED') {
+ *     // Offer to send a new link
+ *   }
+ * }
+ * ```
+ */
+export async function confirmPasswordReset(
+  data: PasswordResetConfirmIn,
+  options: RequestControlOptions = {}
+): Promise<OkSchema> {
+  return apiPost<OkSchema>('/auth/password/reset/confirm/', data, undefined, undefined, { ...options, schema: okSchema });
+}
+
+// ============================================================================
+// Email Verification
+// ============================================================================
+
+/**
+ * Verifies the user's email with the token from a verification link
+ * 
+ * Works without a session, since the link may be opened in another browser.
+ * Once verified, the profile reports `is_active: true`.
+ * 
+ * @param data - Token from the verification link
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving once the email is verified
+ * @throws ApiValidationError with `errorName` `VERIFICATION_TOKEN_EXPIRED` or
+ *   `VERIFICATION_TOKEN_INVALID` for an expired or unknown token
+ * 
+ * @example
+ * ```typescript
+ * await verifyEmail({ token });
+ * const profile = await getUserProfile(accessToken); // profile.is_active === true
+ * ```
+ */
+export async function verifyEmail(data: VerifyEmailIn, options: RequestControlOptions = {}): Promise<OkSchema> {
+  return apiPost<OkSchema>('/auth/email/verify/', data, undefined, undefined, { ...options, schema: okSchema });
+}
+
+/**
+ * Sends the signed-in user a new verification link
+ * 
+ * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving once the email is sent (or if the email is already verified)
+ * @throws ApiRateLimitError if too many links were sent recently (see `retryAfter`)
+ */
+export async function resendVerificationEmail(token: string, options: RequestControlOptions = {}): Promise<OkSchema> {
+  return apiPost<OkSchema>('/auth/email/verify/resend/', undefined, token, undefined, { ...options, schema: okSchema });
+}
+
+// ============================================================================
+// Account Security
+// ============================================================================
+
+/**
+ * Changes the signed-in user's password
+ * 
+ * Re-authenticates with the current password or, for accounts that sign
+ * in with a social provider, a `reauthentication_token` from
+ * `reauthenticateWithOAuth`. Existing sessions stay signed in.
+ * 
+ * @param token - Access token for authentication
+ * @param data - Current and new password
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving once the password is changed
+ * @throws ApiValidationError with `fieldErrors.current_password` for a wrong current password,
+ *   or with `fieldErrors.new_password` for a rejected new password
+ * @throws ApiValidationError named `REAUTHENTICATION_REQUIRED` for a password on an account without one,
+ *   or `REAUTHENTICATION_EXPIRED` for an expired reauthentication token
+ * 
+ * @example
+ * ```typescript
+ * await changePassword(accessToken, {
+ *   current_password: 'oldPassword123',
+ *   new_password: 'newPassword456',
+ * });
+ * ```
+ */
+export async function changePassword(
+  token: string,
+  data: ChangePasswordIn,
+  options: RequestControlOptions = {}
+): Promise<OkSchema> {
+  return apiPost<OkSchema>('/auth/password/change/', data, token, undefined, { ...options, schema: okSchema });
+}
+
+/**
+ * Changes the signed-in user's email address
+ * 
+ * Re-authenticates like `changePassword`. The new address has to be
+ * verified again, so the profile reports `is_active: false` until the user
+ * opens the verification link sent to it.
+ * 
+ * @param token - Access token for authentication
+ * @param data - Current password and the new email address
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the updated user profile
+ * @throws ApiValidationError with `fieldErrors.current_password` or `fieldErrors.new_email`
+ * @throws ApiConflictError if another account uses the email
+ * 
+ * @example
+ * ```typescript
+ * const profile = await changeEmail(accessToken, {
+ *   current_password: 'password123',
+ *   new_email: 'new@example.com',
+ * });
+ * ```
+ */
+export async function changeEmail(
+  token: string,
+  data: ChangeEmailIn,
+  options: RequestControlOptions = {}
 ): Promise<UserProfileSchema> {
-  return apiPut<UserProfileSchema>('/auth/profile/', data, token);
+  return apiPost<UserProfileSchema>('/auth/email/change/', data, token, undefined, { ...options, schema: userProfileSchema });
+}
+
+/**
+ * Schedules the signed-in user's account for deletion
+ * 
+ * Re-authenticates like `changePassword`. The account is deleted once
+ * the grace period ends; until then the user can still sign in and cancel
+ * with `cancelAccountDeletion`. The profile reports the date as
+ * `deletion_scheduled_at`.
+ * 
+ * @param token - Access token for authentication
+ * @param data - Current password
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to when the account will be deleted
+ * @throws ApiValidationError with `fieldErrors.current_password` for a wrong password
+ * 
+ * @example
+ * ```typescript
+ * const { deletion_scheduled_at } = await deleteAccount(accessToken, { current_password });
+ * ```
+ */
+export async function deleteAccount(
+  token: string,
+  data: DeleteAccountIn,
+  options: RequestControlOptions = {}
+): Promise<AccountDeletionOut> {
+  return apiPost<AccountDeletionOut>('/auth/account/delete/', data, token, undefined, { ...options, schema: accountDeletionOutSchema });
+}
+
+/**
+ * Cancels a scheduled account deletion during the grace period
+ * 
+ * @param token - Access token for authentication
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving once the deletion is cancelled (or if none was scheduled)
+ */
+export async function cancelAccountDeletion(token: string, options: RequestControlOptions = {}): Promise<OkSchema> {
+  return apiPost<OkSchema>('/auth/account/delete/cancel/', undefined, token, undefined, { ...options, schema: okSchema });
 }
 
 // ============================================================================
 // OAuth2 Operations
 // ============================================================================
 
+/**
+ * Initiates an OAuth2 authentication flow
+ * 
+ * Returns the authorization URL to redirect the user to. The state parameter
+ * should be stored and compared with the one the provider redirects back with.
+ * 
+ * @param provider - Social sign-in provider
+ * @param redirectUri - URL the provider redirects back to (defaults to the backend's configured callback)
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to authorization URL and state
+ * @throws Error if OAuth provider configuration is invalid
+ * 
+ * @example
+ * ```typescript
+ * const { authorization_url, state } = await startOAuth('github', `${origin}/en/auth/callback/github`);
+ * sessionStorage.setItem('oauth_state', state);
+ * window.location.href = authorization_url;
+ * ```
+ */
+export async function startOAuth(
+  provider: OAuthProvider,
+  redirectUri?: string,
+  options: RequestControlOptions = {}
+): Promise<OAuth2AuthorizeResponseSchema> {
+  const url = buildUrlWithParams(`/auth/oauth/${provider}/authorize/`, { redirect_uri: redirectUri });
+  return apiGet<OAuth2AuthorizeResponseSchema>(url, undefined, undefined, { ...options, schema: oauthAuthorizeResponseSchema });
+}
+
+/**
+ * Completes an OAuth2 authentication flow
+ * 
+ * Exchanges the authorization code the provider redirected back with for
+ * tokens. Creates the account on first sign-in.
+ * 
+ * @param provider - Social sign-in provider
+ * @param data - Authorization code and state from the callback URL
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to tokens and user data
+ * @throws ApiAuthError if the code or state is invalid or expired
+ * 
+ * @example
+ * ```typescript
+ * // In a route handler: store the tokens in httpOnly cookies
+ * return sessionResponse(await completeOAuth('google', { code, state }));
+ * ```
+ */
+export async function completeOAuth(
+  provider: OAuthProvider,
+  data: OAuth2CallbackIn,
+  options: RequestControlOptions = {}
+): Promise<TokenResponseSchema> {
+  return apiPost<TokenResponseSchema>(`/auth/oauth/${provider}/callback/`, data, undefined, undefined, { ...options, schema: tokenResponseSchema });
+}
+
+/**
+ * Re-authenticates the signed-in user with their social provider
+ * 
+ * Exchanges the code from a fresh OAuth2 flow (started with `startOAuth`)
+ * for a short-lived token that `changePassword`, `changeEmail` and
+ * `deleteAccount` accept in place of the current password, which accounts
+ * that sign in with Google or GitHub do not have.
+ * 
+ * @param token - Access token for authentication
+ * @param provider - Social provider the user signs in with
+ * @param data - Authorization code and state from the callback URL
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the reauthentication token and its expiry
+ * @throws ApiAuthError if the code or state is invalid or expired
+ * @throws ApiPermissionError if the provider account belongs to someone else
+ * 
+ * @example
+ * ```typescript
+ * const { reauthentication_token } = await reauthenticateWithOAuth(accessToken, 'google', { code, state });
+ * await deleteAccount(accessToken, { reauthentication_token });
+ * ```
+ */
+export async function reauthenticateWithOAuth(
+  token: string,
+  provider: OAuthProvider,
+  data: OAuth2CallbackIn,
+  options: RequestControlOptions = {}
+): Promise<ReauthenticationOut> {
+  return apiPost<ReauthenticationOut>(`/auth/oauth/${provider}/reauthenticate/`, data, token, undefined, { ...options, schema: reauthenticationOutSchema });
+}
+
 /**
  * Initiates Google OAuth2 authentication flow
  * 
  * Returns the authorization URL to redirect the user to for Google login.
  * The state parameter should be stored for CSRF protection.
  * 
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to authorization URL and state
  * @throws Error if OAuth provider configuration is invalid
  * 
@@ -208,8 +521,8 @@ export async function updateUserProfile(
  * window.location.href = authorization_url;
  * ```
  */
-export async function startGoogleOAuth(): Promise<OAuth2AuthorizeResponseSchema> {
-  return apiGet<OAuth2AuthorizeResponseSchema>('/auth/oauth/google/authorize/');
+export async function startGoogleOAuth(options: RequestControlOptions = {}): Promise<OAuth2AuthorizeResponseSchema> {
+  return startOAuth('google', undefined, options);
 }
 
 /**
@@ -218,6 +531,7 @@ export async function startGoogleOAuth(): Promise<OAuth2AuthorizeResponseSchema>
  * Returns the authorization URL to redirect the user to for GitHub login.
  * The state parameter should be stored for CSRF protection.
  * 
+ * @param options - Optional abort signal and timeout
  * @returns Promise resolving to authorization URL and state
  * @throws Error if OAuth provider configuration is invalid
  * 
@@ -228,7 +542,7 @@ export async function startGoogleOAuth(): Promise<OAuth2AuthorizeResponseSchema>
  * window.location.href = authorization_url;
  * ```
  */
-export async function startGitHubOAuth(): Promise<OAuth2AuthorizeResponseSchema> {
-  return apiGet<OAuth2AuthorizeResponseSchema>('/auth/oauth/github/authorize/');
+export async function startGitHubOAuth(options: RequestControlOptions = {}): Promise<OAuth2AuthorizeResponseSchema> {
+  return startOAuth('github', undefined, options);
 }
 
@@ -17,20 +17,48 @@ export {
   refreshToken,
   getUserProfile,
   updateUserProfile,
+  requestPasswordReset,
+  confirmPasswordReset,
+  verifyEmail,
+  resendVerificationEmail,
+  changePassword,
+  changeEmail,
+  deleteAccount,
+  cancelAccountDeletion,
+  startOAuth,
+  completeOAuth,
+  reauthenticateWithOAuth,
   startGoogleOAuth,
   startGitHubOAuth,
 } from './auth.service';
 
+// Session service exports (the app's cookie session routes)
+export {
+  loginSession,
+  registerSession,
+  refreshSession,
+  getSession,
+  endSession,
+  oauthSession,
+} from './session.service';
+
 // Assets service exports
 export {
   getAssets,
+  iterateAssets,
   getAssetDetails,
   getAssetAccessStatus,
   requestAssetAccess,
   downloadAsset,
   getResources,
+  iterateResources,
   getResourceDetails,
   createResource,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+  completeUpload,
+  uploadResourceOriginal,
   updateResource,
   partialUpdateResource,
   deleteResource,
@@ -0,0 +1,126 @@
+/**
+ * Session API Service
+ *
+ * This service talks to the app's own auth route handlers (`/api/auth/*`)
+ * rather than to the backend. The handlers proxy login, registration, token
+ * refresh and logout to the backend and keep the tokens in httpOnly cookies,
+ * returning only the access token's claims without its signature, which the
+ * browser keeps in memory. Authenticated calls made with it are sent through
+ * the `/api/backend` proxy (see `../client/session-proxy`).
+ *
+ * These functions are for the browser; route handlers and Server Components
+ * read the session cookies directly (see `@/lib/api/server`).
+ */
+
+import { apiGet, apiPost } from '../client';
+import type { RequestControlOptions } from '../client';
+import type {
+  LoginSchema,
+  OAuth2CallbackIn,
+  OAuthProvider,
+  RegisterSchema,
+  SessionOut,
+} from '@/lib/types/api/auth.types';
+import type { OkSchema } from '@/lib/types/api/common.types';
+import { okSchema, sessionOutSchema } from '../schemas';
+
+/**
+ * Path of the auth route handlers
+ */
+const SESSION_BASE_PATH = '/api/auth';
+
+function sessionUrl(path: string): string {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}${SESSION_BASE_PATH}${path}`;
+}
+
+/**
+ * Logs in and starts a cookie session
+ *
+ * @param data - Login credentials (email and password)
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the access token and its expiry
+ * @throws ApiAuthError / ApiValidationError if the credentials are rejected
+ *
+ * @example
+ * ```typescript
+ * const session = await loginSession({ email, password });
+ * const profile = await getUserProfile(session.access);
+ * ```
+ */
+export async function loginSession(data: LoginSchema, options: RequestControlOptions = {}): Promise<SessionOut> {
+  return apiPost<SessionOut>(sessionUrl('/login'), data, undefined, undefined, { ...options, schema: sessionOutSchema });
+}
+
+/**
+ * Registers a new account and starts a cookie session
+ *
+ * @param data - User registration data
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the access token and its expiry
+ * @throws ApiValidationError / ApiConflictError if the registration is rejected
+ */
+export async function registerSession(data: RegisterSchema, options: RequestControlOptions = {}): Promise<SessionOut> {
+  return apiPost<SessionOut>(sessionUrl('/register'), data, undefined, undefined, { ...options, schema: sessionOutSchema });
+}
+
+/**
+ * Completes a social sign-in and starts a cookie session
+ *
+ * @param provider - Social sign-in provider
+ * @param data - Authorization code and state from the callback URL
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the access token and its expiry
+ * @throws ApiAuthError if the provider's code or state is rejected
+ */
+export async function oauthSession(
+  provider: OAuthProvider,
+  data: OAuth2CallbackIn,
+  options: RequestControlOptions = {}
+): Promise<SessionOut> {
+  return apiPost<SessionOut>(sessionUrl(`/oauth/${provider}`), data, undefined, undefined, { ...options, schema: sessionOutSchema });
+}
+
+/**
+ * Exchanges the refresh token cookie for a new access token
+ *
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to the new access token and its expiry
+ * @throws ApiAuthError if the session has ended
+ */
+export async function refreshSession(options: RequestControlOptions = {}): Promise<SessionOut> {
+  return apiPost<SessionOut>(sessionUrl('/refresh'), undefined, undefined, undefined, { ...options, schema: sessionOutSchema });
+}
+
+/**
+ * Restores the current cookie session
+ *
+ * Called on page load, since the access token is not persisted in the browser.
+ *
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving to a valid access token and its expiry
+ * @throws ApiAuthError if there is no session
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const { access } = await getSession();
+ *   tokenStorage.setToken(access);
+ * } catch (error) {
+ *   if (error instanceof ApiAuthError) showLogin();
+ * }
+ * ```
+ */
+export async function getSession(options: RequestControlOptions = {}): Promise<SessionOut> {
+  return apiGet<SessionOut>(sessionUrl('/session'), undefined, undefined, { ...options, schema: sessionOutSchema });
+}
+
+/**
+ * Ends the cookie session and invalidates the refresh token on the backend
+ *
+ * @param options - Optional abort signal and timeout
+ * @returns Promise resolving once the session cookies are cleared
+ */
+export async function endSession(options: RequestControlOptions = {}): Promise<OkSchema> {
+  return apiPost<OkSchema>(sessionUrl('/logout'), undefined, undefined, undefined, { ...options, schema: okSchema });
+}
@@ -0,0 +1,117 @@
+/**
+ * Session Cookies
+ *
+ * The access and refresh tokens are kept in httpOnly cookies set by the
+ * auth route handlers (`/api/auth/*`, see `@/lib/auth-session`), so page
+ * scripts cannot read them. Server Components, route handlers and the
+ * middleware read the access token from its cookie (see `@/lib/api/server`);
+ * the browser holds a copy without the signature in memory only, and sends
+ * authenticated calls through the `/api/backend` proxy.
+ *
+ * The browser also mirrors the signed-in user's profile status and role into
+ * a readable cookie, which the middleware uses to protect routes (see
+ * `@/lib/route-protection`). It only decides where to send the user; the
+ * backend still authorizes every request.
+ *
+ * This module has no client-only or server-only dependencies, so the cookie
+ * names can be shared by both sides.
+ */
+
+import type { AuthProvider, UserRole } from '@/lib/types/api/auth.types';
+
+/**
+ * Name of the cookie holding the access token
+ */
+export const AUTH_TOKEN_COOKIE = 'auth_token';
+
+/**
+ * Name of the cookie holding the refresh token
+ */
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/**
+ * Name of the cookie marking a session, kept for as long as the refresh token
+ * is valid (the access token cookie expires with the access token)
+ */
+export const SESSION_COOKIE = 'auth_session';
+
+/**
+ * Name of the cookie holding the signed-in user's profile status and role
+ */
+export const PROFILE_COOKIE = 'auth_profile';
+
+/**
+ * Signed-in user's details needed to protect routes
+ */
+export interface SessionProfile {
+  /** Whether the user has completed their profile */
+  profileCompleted: boolean;
+  /** User's role, if the backend reports roles */
+  role?: UserRole;
+  /** How the user signed in */
+  provider?: AuthProvider;
+}
+
+/**
+ * Writes the profile cookie
+ *
+ * @param profile - Profile status and role of the signed-in user
+ */
+export function setProfileCookie(profile: SessionProfile): void {
+  if (typeof document === 'undefined') return;
+
+  const value = encodeURIComponent(JSON.stringify(profile));
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+  document.cookie = `${PROFILE_COOKIE}=${value}; Path=/; SameSite=Lax${secure}`;
+}
+
+/**
+ * Removes the profile cookie
+ */
+export function clearProfileCookie(): void {
+  if (typeof document === 'undefined') return;
+
+  document.cookie = `${PROFILE_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`;
+}
+
+/**
+ * Reads the profile cookie value
+ *
+ * @param value - Raw cookie value
+ * @returns The profile, or null if the cookie is missing or malformed
+ */
+export function parseProfileCookie(value: string | undefined): SessionProfile | null {
+  if (!value) return null;
+
+  try {
+    const profile = JSON.parse(decodeURIComponent(value));
+    return typeof profile?.profileCompleted === 'boolean' ? (profile as SessionProfile) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the expiry of a JWT without verifying it
+ *
+ * @param token - JWT access or refresh token
+ * @returns Expiry time in milliseconds since epoch, or null if the token has none
+ *
+ * @example
+ * ```typescript
+ * const expiresAt = getTokenExpiry(accessToken);
+ * const isExpired = expiresAt !== null && expiresAt <= Date.now();
+ * ```
+ */
+export function getTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
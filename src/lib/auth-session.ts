@@ -0,0 +1,228 @@
+/**
+ * Session Route Helpers
+ *
+ * Shared by the auth route handlers under `src/app/api/auth/*`, which proxy
+ * login, registration, refresh and logout to the backend. The tokens the
+ * backend returns are stored in httpOnly, SameSite cookies; responses only
+ * carry the access token's claims without its signature and its expiry
+ * (`SessionOut`). The browser keeps those in memory and sends authenticated
+ * calls through the `/api/backend` proxy, which uses the cookie.
+ *
+ * The refresh token cookie is scoped to `/api/auth`, so it is only ever sent
+ * to these handlers and never to pages or the backend.
+ *
+ * This module uses `next/server` and must only be imported from route handlers.
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { ApiError } from '@/lib/api/client';
+import { isProduction } from '@/lib/env';
+import { createSha256 } from '@/lib/sha256';
+import type { ApiErrorResponse } from '@/lib/types/api/common.types';
+import type { SessionOut } from '@/lib/types/api/auth.types';
+import {
+  AUTH_TOKEN_COOKIE,
+  PROFILE_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  SESSION_COOKIE,
+  getTokenExpiry,
+} from './auth-cookie';
+
+/**
+ * Path the refresh token cookie is sent to
+ */
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+/**
+ * Cookie lifetime used when a token carries no expiry, in seconds
+ */
+const FALLBACK_MAX_AGE = 60 * 60;
+
+/**
+ * Access tokens expiring within this margin are refreshed before use, in milliseconds
+ */
+const EXPIRY_MARGIN_MS = 30_000;
+
+function getMaxAge(token: string): number {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt ? Math.max(0, Math.floor((expiresAt - Date.now()) / 1000)) : FALLBACK_MAX_AGE;
+}
+
+/**
+ * Returns the copy of an access token the browser may hold
+ *
+ * A JWT loses its signature: the claims still tell the browser when to
+ * refresh and whether a token was replaced, but the backend rejects it, so a
+ * script that reads it cannot use it. Other tokens are replaced by a digest.
+ *
+ * @param token - Access token
+ * @returns Token without its signature
+ */
+function toBrowserToken(token: string): string {
+  const [header, payload, signature] = token.split('.');
+  if (payload && signature !== undefined) {
+    return `${header}.${payload}.`;
+  }
+
+  const hash = createSha256();
+  hash.update(new TextEncoder().encode(token));
+  return hash.digestHex();
+}
+
+/**
+ * Reads the session tokens sent with a request
+ *
+ * @param request - Incoming request
+ * @returns Access and refresh token, if present
+ */
+export function getSessionTokens(request: NextRequest): { access?: string; refresh?: string } {
+  return {
+    access: request.cookies.get(AUTH_TOKEN_COOKIE)?.value || undefined,
+    refresh: request.cookies.get(REFRESH_TOKEN_COOKIE)?.value || undefined,
+  };
+}
+
+/**
+ * Whether an access token is still usable
+ *
+ * @param token - Access token
+ * @returns True if the token does not expire within the next 30 seconds
+ */
+export function isTokenFresh(token: string): boolean {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt === null || expiresAt - EXPIRY_MARGIN_MS > Date.now();
+}
+
+/**
+ * Responds with a session and stores its tokens in cookies
+ *
+ * @param tokens - Access token and, if issued, a new refresh token
+ * @returns JSON response with the browser's copy of the access token and its expiry
+ */
+export function sessionResponse(tokens: { access: string; refresh?: string | null }): NextResponse<SessionOut> {
+  const expiresAt = getTokenExpiry(tokens.access);
+  const response = NextResponse.json<SessionOut>(
+    {
+      access: toBrowserToken(tokens.access),
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+
+  response.cookies.set(AUTH_TOKEN_COOKIE, tokens.access, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: getMaxAge(tokens.access),
+  });
+
+  // Without rotation the existing refresh token cookie stays valid
+  if (tokens.refresh) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refresh, {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: 'strict',
+      path: REFRESH_COOKIE_PATH,
+      maxAge: getMaxAge(tokens.refresh),
+    });
+    // Lets the middleware see the session while the access token is expired
+    response.cookies.set(SESSION_COOKIE, '1', {
+      httpOnly: true,
+      secure: isProduction,
+      sameSite: 'lax',
+      path: '/',
+      maxAge: getMaxAge(tokens.refresh),
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Removes the session cookies from a response
+ *
+ * @param response - Response to clear the cookies on
+ * @returns The same response
+ */
+export function clearSessionCookies<T>(response: NextResponse<T>): NextResponse<T> {
+  response.cookies.set(AUTH_TOKEN_COOKIE, '', { path: '/', maxAge: 0 });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { path: REFRESH_COOKIE_PATH, maxAge: 0 });
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+  response.cookies.set(PROFILE_COOKIE, '', { path: '/', maxAge: 0 });
+  return response;
+}
+
+/**
+ * Converts an error from a proxied backend call into a response
+ *
+ * API errors keep their status and backend error body, so the browser's API
+ * client raises the same typed error as for a direct backend call. A missing
+ * backend response becomes 502.
+ *
+ * @param error - Error thrown by a service function
+ * @returns JSON error response
+ */
+export function errorResponse(error: unknown): NextResponse<ApiErrorResponse> {
+  if (error instanceof ApiError && error.status > 0) {
+    return NextResponse.json<ApiErrorResponse>(
+      { error_name: error.errorName ?? 'ERROR', message: error.message, extra: error.extra },
+      { status: error.status }
+    );
+  }
+
+  console.error('Auth route failed:', error);
+  return NextResponse.json<ApiErrorResponse>(
+    { error_name: 'BAD_GATEWAY', message: error instanceof Error ? error.message : 'Backend unavailable' },
+    { status: 502 }
+  );
+}
+
+/**
+ * Responds with 401 and clears the session cookies
+ *
+ * @param message - Error message
+ * @returns JSON error response
+ */
+export function unauthorizedResponse(message: string): NextResponse<ApiErrorResponse> {
+  return clearSessionCookies(
+    NextResponse.json<ApiErrorResponse>({ error_name: 'AUTHENTICATION_ERROR', message }, { status: 401 })
+  );
+}
+
+/**
+ * Rejects cross-site requests to the state-changing session routes
+ *
+ * SameSite cookies already keep other sites from using the session; checking
+ * `Origin` additionally guards against same-site subdomains.
+ *
+ * @param request - Incoming request
+ * @returns 403 response for a foreign origin, or null if the request may proceed
+ */
+export function rejectCrossOrigin(request: NextRequest): NextResponse<ApiErrorResponse> | null {
+  const origin = request.headers.get('Origin');
+  if (!origin || origin === request.nextUrl.origin) {
+    return null;
+  }
+
+  return NextResponse.json<ApiErrorResponse>(
+    { error_name: 'FORBIDDEN', message: 'Cross-origin requests are not allowed' },
+    { status: 403 }
+  );
+}
+
+/**
+ * Reads a JSON request body
+ *
+ * @param request - Incoming request
+ * @returns The parsed body, or an empty object if it is missing or invalid
+ */
+export async function readJsonBody<T>(request: NextRequest): Promise<Partial<T>> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' ? (body as Partial<T>) : {};
+  } catch {
+    return {};
+  }
+}
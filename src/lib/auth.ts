@@ -1,17 +1,40 @@
 "use client";
 
 import { 
-  loginUser as apiLoginUser, 
-  registerUser as apiRegisterUser,
+  loginSession,
+  registerSession,
+  refreshSession,
+  getSession,
+  endSession,
+  oauthSession,
+  startOAuth,
+  reauthenticateWithOAuth,
   getUserProfile,
-  updateUserProfile,
+  configureTokenRefresh,
+  refreshAccessToken,
+  notifySessionExpired,
+  ApiAuthError,
+  ApiConflictError,
+  ApiValidationError,
+  clearHttpCache,
+  clearQueryCache,
+  clearOutbox,
+  sendOrQueue,
 } from '@/lib/api';
 
 import { convertUserProfileToUser } from '@/lib/utils';
+import { getLocalizedError } from '@/lib/error-messages';
+import { clearProfileCookie, getTokenExpiry, setProfileCookie } from '@/lib/auth-cookie';
+import { broadcastSession } from '@/lib/session-sync';
+import type { SessionEndReason } from '@/lib/route-protection';
 
 import type {
-  TokenResponseSchema,
-  UserProfileSchema
+  OAuth2CallbackIn,
+  OAuthProvider,
+  ReauthenticationOut,
+  SessionOut,
+  UserProfileSchema,
+  UserRole
 } from '@/lib/types/api/auth.types';
 
 /**
@@ -32,8 +55,14 @@ export interface User {
   phoneNumber?: string;
   /** Authentication provider used */
   provider?: 'email' | 'google' | 'github';
+  /** User's role, if the backend reports roles */
+  role?: UserRole;
   /** Whether the user has completed their profile */
   profileCompleted: boolean;
+  /** Whether the user has verified their email (the profile's `is_active`) */
+  isActive?: boolean;
+  /** When the account will be deleted, if the user asked to delete it (ISO timestamp) */
+  deletionScheduledAt?: string;
 }
 
 /**
@@ -50,26 +79,122 @@ export interface AuthResponse {
   error?: string;
   /** Whether user needs to complete profile setup */
   requiresProfileCompletion?: boolean;
+  /** Field-level errors keyed by form field name, if the API rejected specific fields */
+  fieldErrors?: Record<string, string>;
+  /** Whether the change was saved to the offline outbox instead of being sent */
+  queued?: boolean;
+  /** Page to return to after signing in, if the sign-in started from a protected page */
+  returnTo?: string;
 }
 
+/**
+ * Maps API registration field names to the signup form field names
+ */
+const SIGNUP_FIELD_MAP: Record<string, string> = {
+  email: 'email',
+  password: 'password',
+  name: 'firstName',
+  phone: 'phoneNumber',
+  job_title: 'title',
+};
+
+/**
+ * Extracts signup form field errors from a typed API error
+ */
+const getSignupFieldErrors = (error: unknown): Record<string, string> | undefined => {
+  if (error instanceof ApiConflictError) {
+    // The only conflicting registration field is an already-registered email
+    return { email: error.message };
+  }
+
+  if (error instanceof ApiValidationError) {
+    const fieldErrors: Record<string, string> = {};
+    Object.entries(error.fieldErrors).forEach(([field, message]) => {
+      const formField = SIGNUP_FIELD_MAP[field];
+      if (formField) {
+        fieldErrors[formField] = message;
+      }
+    });
+    return Object.keys(fieldErrors).length > 0 ? fieldErrors : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * localStorage keys where earlier versions kept the tokens
+ */
+const LEGACY_TOKEN_KEYS = ['auth_token', 'refresh_token'];
+
+let accessToken: string | null = null;
+
+/**
+ * Access tokens are refreshed this long before they expire, in milliseconds
+ */
+const REFRESH_AHEAD_MS = 60_000;
+
+/**
+ * Random extra lead time, so several open tabs do not refresh at the same moment
+ */
+const REFRESH_JITTER_MS = 10_000;
+
+/**
+ * Longest delay `setTimeout` supports
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Schedules a refresh shortly before the access token expires
+ *
+ * A refresh the backend rejects ends the session; any other failure (e.g.
+ * offline) is left to the refresh on the next 401.
+ */
+const scheduleTokenRefresh = (token: string | null): void => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+
+  const expiresAt = token ? getTokenExpiry(token) : null;
+  if (expiresAt === null || typeof window === 'undefined') return;
+
+  const delay = expiresAt - REFRESH_AHEAD_MS - Math.random() * REFRESH_JITTER_MS - Date.now();
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshAccessToken().catch(error => {
+      if (error instanceof ApiAuthError) {
+        notifySessionExpired(error);
+      }
+    });
+  }, Math.min(Math.max(0, delay), MAX_TIMER_DELAY_MS));
+};
+
 /**
  * Token storage utilities
+ *
+ * The tokens live in httpOnly cookies managed by the `/api/auth/*` route
+ * handlers; the access token is also held here, in memory only, for the
+ * API calls made directly from the browser. It is restored on page load
+ * by `restoreSession`, and refreshed shortly before it expires.
  */
 export const tokenStorage = {
   getToken: (): string | null => {
-    if (typeof window === 'undefined') return null;
-    return localStorage.getItem('auth_token');
+    return accessToken;
   },
 
   setToken: (token: string): void => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem('auth_token', token);
+    accessToken = token;
+    scheduleTokenRefresh(token);
   },
 
   removeToken: (): void => {
+    accessToken = null;
+    scheduleTokenRefresh(null);
     if (typeof window === 'undefined') return;
-    localStorage.removeItem('auth_token');
     localStorage.removeItem('user_data');
+    clearProfileCookie();
   },
 
   isAuthenticated: (): boolean => {
@@ -90,35 +215,65 @@ export const userStorage = {
   setUser: (user: User): void => {
     if (typeof window === 'undefined') return;
     localStorage.setItem('user_data', JSON.stringify(user));
+    // Mirrored for route protection in the middleware
+    setProfileCookie({ profileCompleted: user.profileCompleted, role: user.role, provider: user.provider });
   },
 
   removeUser: (): void => {
     if (typeof window === 'undefined') return;
     localStorage.removeItem('user_data');
+    clearProfileCookie();
   }
 };
 
 
+/**
+ * Whether a user may take actions that require a verified email
+ *
+ * Users stored without the flag count as verified; the backend checks again.
+ */
+export const isEmailVerified = (user: User | null): boolean => {
+  return !!user && user.isActive !== false;
+};
+
+/**
+ * Fetch the signed-in user's profile again, e.g. after verifying their email
+ *
+ * Keeps how the user signed in, which the profile does not report. Pass the
+ * result to `updateUser` to store it.
+ *
+ * @returns The updated user, or null if nobody is signed in
+ */
+export const reloadUser = async (): Promise<User | null> => {
+  const currentUser = userStorage.getUser();
+  const currentToken = tokenStorage.getToken();
+  if (!currentUser || !currentToken) return null;
+
+  const userProfile: UserProfileSchema = await getUserProfile(currentToken);
+  return { ...convertUserProfileToUser(userProfile), provider: currentUser.provider };
+};
+
 /**
  * Login user with email/password using real API
  */
 export const loginUser = async (email: string, password: string): Promise<AuthResponse> => {
   try {
-    const apiResponse: TokenResponseSchema = await apiLoginUser({ email, password });
+    // The route handler stores the tokens in httpOnly cookies
+    const session: SessionOut = await loginSession({ email, password });
     
     // Get user profile to get complete user data
-    const userProfile: UserProfileSchema = await getUserProfile(apiResponse.access);
+    const userProfile: UserProfileSchema = await getUserProfile(session.access);
     
     // Convert API user to internal user format
     const user = convertUserProfileToUser(userProfile);
     
-    // Store tokens and user data
-    tokenStorage.setToken(apiResponse.access);
+    // Keep the access token in memory and store the user data
+    tokenStorage.setToken(session.access);
     userStorage.setUser(user);
     
     return {
       success: true,
-      token: apiResponse.access,
+      token: session.access,
       user,
       requiresProfileCompletion: !user.profileCompleted
     };
@@ -153,7 +308,8 @@ export const signupUser = async (formData: {
   phoneNumber: string;
 }): Promise<AuthResponse> => {
   try {
-    const apiResponse: TokenResponseSchema = await apiRegisterUser({
+    // The route handler stores the tokens in httpOnly cookies
+    const session: SessionOut = await registerSession({
       email: formData.email,
       password: formData.password,
       name: `${formData.firstName} ${formData.lastName}`,
@@ -162,18 +318,18 @@ export const signupUser = async (formData: {
     });
     
     // Get user profile to get complete user data
-    const userProfile: UserProfileSchema = await getUserProfile(apiResponse.access);
+    const userProfile: UserProfileSchema = await getUserProfile(session.access);
     
     // Convert API user to internal user format
     const user = convertUserProfileToUser(userProfile);
     
-    // Store tokens and user data
-    tokenStorage.setToken(apiResponse.access);
+    // Keep the access token in memory and store the user data
+    tokenStorage.setToken(session.access);
     userStorage.setUser(user);
     
     return {
       success: true,
-      token: apiResponse.access,
+      token: session.access,
       user,
       requiresProfileCompletion: !user.profileCompleted
     };
@@ -185,7 +341,8 @@ export const signupUser = async (formData: {
       // Return the actual error message from the API instead of generic messages
       return {
         success: false,
-        error: error.message
+        error: error.message,
+        fieldErrors: getSignupFieldErrors(error)
       };
     }
     
@@ -198,46 +355,357 @@ export const signupUser = async (formData: {
 
 
 /**
- * Logout user
+ * sessionStorage key of the pending social sign-in
+ */
+const OAUTH_STATE_KEY = 'oauth_state';
+
+/**
+ * Provider redirect in progress, as kept in sessionStorage
+ */
+interface PendingOAuth {
+  provider?: string;
+  state?: string;
+  returnTo?: string | null;
+  /** Set when the user is already signed in and confirms their identity */
+  purpose?: 'reauthenticate';
+}
+
+/**
+ * Redirects to the provider, keeping the flow's `state` to check on the way back
+ */
+const redirectToProvider = async (
+  provider: OAuthProvider,
+  locale: string,
+  pending: Pick<PendingOAuth, 'returnTo' | 'purpose'>
+): Promise<void> => {
+  const redirectUri = `${window.location.origin}/${locale}/auth/callback/${provider}`;
+  const { authorization_url, state } = await startOAuth(provider, redirectUri);
+
+  sessionStorage.setItem(OAUTH_STATE_KEY, JSON.stringify({ provider, state, ...pending }));
+  window.location.assign(authorization_url);
+};
+
+/**
+ * Reads the pending provider redirect without consuming it
+ */
+const readPendingOAuth = (): PendingOAuth => {
+  try {
+    return JSON.parse(sessionStorage.getItem(OAUTH_STATE_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Consumes the pending provider redirect (each state is only accepted once)
+ *
+ * @returns The pending redirect, or null if the callback does not match it
+ */
+const takePendingOAuth = (provider: OAuthProvider, state: string): PendingOAuth | null => {
+  const pending = readPendingOAuth();
+  sessionStorage.removeItem(OAUTH_STATE_KEY);
+
+  if (!state || pending.provider !== provider || pending.state !== state) {
+    return null;
+  }
+  return pending;
+};
+
+/**
+ * Start a social sign-in by redirecting to the provider
+ *
+ * The `state` issued for the flow is kept in sessionStorage (with the page
+ * to return to) and checked when the provider redirects back to
+ * `/[locale]/auth/callback/[provider]`. Resolves only if the flow could not be started.
+ */
+export const startSocialLogin = async (
+  provider: OAuthProvider,
+  locale: string,
+  returnTo?: string | null
+): Promise<AuthResponse> => {
+  try {
+    await redirectToProvider(provider, locale, { returnTo });
+    return { success: true };
+  } catch (error) {
+    console.error('Social login API error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error. Please check your connection'
+    };
+  }
+};
+
+/**
+ * Complete a social sign-in from the provider's callback parameters
+ *
+ * Verifies the returned `state` against the one stored by `startSocialLogin`
+ * (each state is only accepted once), then exchanges the code for a session.
+ * First-time users come back with an incomplete profile.
+ */
+export const completeSocialLogin = async (
+  provider: OAuthProvider,
+  params: OAuth2CallbackIn
+): Promise<AuthResponse> => {
+  const expected = takePendingOAuth(provider, params.state);
+  if (!expected) {
+    return {
+      success: false,
+      error: getLocalizedError('errors.oauthStateMismatch')
+    };
+  }
+
+  try {
+    // The route handler stores the tokens in httpOnly cookies
+    const session: SessionOut = await oauthSession(provider, params);
+    const userProfile: UserProfileSchema = await getUserProfile(session.access);
+    const user: User = { ...convertUserProfileToUser(userProfile), provider };
+
+    tokenStorage.setToken(session.access);
+    userStorage.setUser(user);
+
+    return {
+      success: true,
+      token: session.access,
+      user,
+      requiresProfileCompletion: !user.profileCompleted,
+      returnTo: expected.returnTo ?? undefined
+    };
+  } catch (error) {
+    console.error('Social login API error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error. Please check your connection'
+    };
+  }
+};
+
+/**
+ * Confirmation from the last re-authentication with a social provider
+ *
+ * Kept in memory only; it survives the client-side navigation back from the
+ * callback page but not a reload.
+ */
+let reauthentication: ReauthenticationOut | null = null;
+
+/**
+ * Whether the provider redirect in progress re-authenticates a signed-in user
+ */
+export const isReauthenticationPending = (): boolean => {
+  return readPendingOAuth().purpose === 'reauthenticate';
+};
+
+/**
+ * Confirm the signed-in user's identity with their social provider
+ *
+ * Accounts that sign in with Google or GitHub have no password to confirm
+ * security changes with, so they sign in with the provider again. The
+ * provider redirects back to the usual callback page, which finishes with
+ * `completeReauthentication`. Resolves only if the flow could not be started.
+ */
+export const startReauthentication = async (
+  provider: OAuthProvider,
+  locale: string,
+  returnTo: string
+): Promise<AuthResponse> => {
+  try {
+    await redirectToProvider(provider, locale, { returnTo, purpose: 'reauthenticate' });
+    return { success: true };
+  } catch (error) {
+    console.error('Reauthentication API error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error. Please check your connection'
+    };
+  }
+};
+
+/**
+ * Finish a re-authentication from the provider's callback parameters
+ *
+ * Keeps the short-lived token the backend issues, which `getReauthentication`
+ * hands to the security actions.
+ */
+export const completeReauthentication = async (
+  provider: OAuthProvider,
+  params: OAuth2CallbackIn
+): Promise<AuthResponse> => {
+  const expected = takePendingOAuth(provider, params.state);
+  if (!expected) {
+    return {
+      success: false,
+      error: getLocalizedError('errors.oauthStateMismatch')
+    };
+  }
+
+  const currentToken = tokenStorage.getToken();
+  if (!currentToken) {
+    return {
+      success: false,
+      error: getLocalizedError('errors.sessionExpired')
+    };
+  }
+
+  try {
+    reauthentication = await reauthenticateWithOAuth(currentToken, provider, params);
+    return {
+      success: true,
+      returnTo: expected.returnTo ?? undefined
+    };
+  } catch (error) {
+    console.error('Reauthentication API error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error. Please check your connection'
+    };
+  }
+};
+
+/**
+ * The current re-authentication, if it has not expired
+ */
+export const getReauthentication = (): ReauthenticationOut | null => {
+  if (reauthentication && Date.parse(reauthentication.expires_at) <= Date.now()) {
+    reauthentication = null;
+  }
+  return reauthentication;
+};
+
+/**
+ * Clear this tab's session state
+ *
+ * Does not end the session on the server; used directly when another tab
+ * has already logged out. Mutations queued offline are kept: they belong to
+ * their user and are only replayed for them.
  */
-export const logoutUser = (): void => {
+export const clearLocalSession = (): void => {
   tokenStorage.removeToken();
+  reauthentication = null;
   userStorage.removeUser();
+  // Cached responses may belong to the previous user
+  clearQueryCache();
+  clearHttpCache();
+};
+
+/**
+ * Logout user
+ *
+ * Local state is cleared immediately and other tabs are told to do the same;
+ * the session cookies are cleared and the refresh token revoked by the
+ * logout route in the background. Mutations the user queued offline are
+ * discarded only when they log out on purpose, not when the session ended
+ * on its own.
+ *
+ * @param reason - Why the session ended, if the user did not log out
+ */
+export const logoutUser = (reason?: SessionEndReason): void => {
+  const discardOutboxOf = reason ? undefined : userStorage.getUser()?.id;
+  void endSession().catch(error => console.error('Failed to end the session:', error));
+  clearLocalSession();
+  if (discardOutboxOf) {
+    clearOutbox(discardOutboxOf);
+  }
+  broadcastSession({ type: 'logout', discardOutboxOf });
+};
+
+/**
+ * Reload the access token from the session cookies
+ *
+ * Used when another tab has logged in or refreshed the token.
+ *
+ * @returns Whether there is a session
+ */
+export const reloadAccessToken = async (): Promise<boolean> => {
+  try {
+    const session = await getSession();
+    tokenStorage.setToken(session.access);
+    return true;
+  } catch (error) {
+    if (error instanceof ApiAuthError) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Enable transparent access token refresh for API requests
+ * 
+ * Expired access tokens are exchanged by the refresh route, which reads the refresh token cookie.
+ * The session only ends (and onSessionExpired is called to log out) when a 401 cannot be recovered by refreshing.
+ */
+export const setupTokenRefresh = (onSessionExpired: () => void): void => {
+  configureTokenRefresh({
+    getAccessToken: tokenStorage.getToken,
+    refresh: () => refreshSession(),
+    onTokenRefreshed: (tokens) => {
+      tokenStorage.setToken(tokens.access);
+      broadcastSession({ type: 'tokenRefreshed' });
+    },
+    onSessionExpired: (error) => {
+      console.warn('Session expired, logging out:', error);
+      onSessionExpired();
+    },
+  });
 };
 
 /**
- * Complete user profile (for email signups)
+ * Complete user profile (for email and social signups)
+ *
+ * Social signups may also correct the name taken from the provider.
+ * When offline (or before the session could be restored offline) the update
+ * is queued in the outbox and sent once the connection returns; the stored
+ * user is marked as completed meanwhile.
  */
 export const completeUserProfile = async (profileData: {
   project_summary: string;
   project_url?: string;
   bio: string;
+  firstName?: string;
+  lastName?: string;
 }): Promise<AuthResponse> => {
   try {
     // Get current user and token
     const currentUser = userStorage.getUser();
     const currentToken = tokenStorage.getToken();
     
-    if (!currentUser || !currentToken) {
+    if (!currentUser) {
       return {
         success: false,
         error: 'No authenticated user found'
       };
     }
 
+    const firstName = profileData.firstName?.trim() ?? currentUser.firstName;
+    const lastName = profileData.lastName?.trim() ?? currentUser.lastName;
+
     // Update user profile via API
     const updateData = {
-      name: `${currentUser.firstName} ${currentUser.lastName}`,
+      name: `${firstName} ${lastName}`.trim(),
       bio: profileData.bio,
       project_summary: profileData.project_summary,
       project_url: profileData.project_url || ''
     };
 
-    await updateUserProfile(currentToken, updateData);
+    const outcome = await sendOrQueue(
+      { type: 'updateUserProfile', data: updateData },
+      { userId: currentUser.id, token: currentToken }
+    );
+    // Without a token the update is always queued
+    if (outcome.status === 'queued' || !currentToken) {
+      const queuedUser = { ...currentUser, firstName, lastName, profileCompleted: true };
+      userStorage.setUser(queuedUser);
+      return {
+        success: true,
+        token: currentToken ?? undefined,
+        user: queuedUser,
+        queued: true
+      };
+    }
     
     // Get updated user profile from API
     const updatedUserProfile = await getUserProfile(currentToken);
-    const updatedUser = convertUserProfileToUser(updatedUserProfile);
+    // The profile does not say how the user signed in
+    const updatedUser = { ...convertUserProfileToUser(updatedUserProfile), provider: currentUser.provider };
     
     // Store updated user data
     userStorage.setUser(updatedUser);
@@ -266,16 +734,46 @@ export const completeUserProfile = async (profileData: {
 };
 
 /**
- * Check if user is authenticated and profile is completed
+ * Restore the session on page load and report the authentication status
+ *
+ * Fetches the access token from the session cookies (the user data stored
+ * at login tells whether there is a session to restore). Without a network
+ * connection the stored user is kept, so the app still works offline, and
+ * the session can be restored by calling this again once the connection returns.
  */
-export const checkAuthStatus = (): {
+export const restoreSession = async (): Promise<{
   isAuthenticated: boolean;
   user: User | null;
   requiresProfileCompletion: boolean;
-} => {
-  const isAuthenticated = tokenStorage.isAuthenticated();
-  const user = userStorage.getUser();
-  
+}> => {
+  if (typeof window !== 'undefined') {
+    // Tokens are no longer readable by scripts
+    LEGACY_TOKEN_KEYS.forEach(key => localStorage.removeItem(key));
+  }
+
+  let user = userStorage.getUser();
+  if (user && !tokenStorage.getToken()) {
+    try {
+      const session = await getSession();
+      tokenStorage.setToken(session.access);
+      // The email may have been verified since, e.g. from another device
+      if (!isEmailVerified(user)) {
+        user = (await reloadUser().catch(() => null)) ?? user;
+      }
+      // The profile cookie only lasts for the browser session
+      userStorage.setUser(user);
+    } catch (error) {
+      if (error instanceof ApiAuthError) {
+        // The session has ended (or predates cookie sessions)
+        tokenStorage.removeToken();
+        user = null;
+      } else {
+        console.warn('Could not restore the session:', error);
+      }
+    }
+  }
+
+  const isAuthenticated = !!user;
   return {
     isAuthenticated,
     user,
@@ -0,0 +1,562 @@
+/**
+ * Download Manager
+ *
+ * In-app downloads for asset and resource files. Files are streamed with
+ * progress, can be paused and resumed with HTTP Range requests, and are
+ * verified against the backend's SHA-256 checksum (when provided) before
+ * being saved. The state lives outside React so downloads continue across
+ * page navigations; components read it through `useDownloads`.
+ *
+ * Downloaded bytes are written to the origin private file system (OPFS) as
+ * they arrive and hashed incrementally, so even multi-GB files never sit in
+ * memory. Browsers without writable OPFS files keep the bytes in memory
+ * instead, up to `MAX_IN_MEMORY_DOWNLOAD_BYTES`; larger files are handed to
+ * the browser's own download (without pausing or checksum verification).
+ *
+ * The download list lives in memory, so a reload loses any download in
+ * progress; their stored data is deleted on the next page load.
+ */
+
+import { env } from '@/lib/env';
+import { createSha256 } from '@/lib/sha256';
+import type { Sha256 } from '@/lib/sha256';
+
+/**
+ * Lifecycle of a download
+ */
+export type DownloadStatus =
+  | 'downloading'
+  | 'paused'
+  | 'verifying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Why a download failed
+ */
+export type DownloadErrorCode = 'network' | 'http' | 'checksum' | 'storage';
+
+/**
+ * Snapshot of a download
+ */
+export interface DownloadItem {
+  /** Unique identifier */
+  id: string;
+
+  /** File name the download is saved under */
+  fileName: string;
+
+  /** URL being downloaded (as returned by the API) */
+  url: string;
+
+  /** Current status */
+  status: DownloadStatus;
+
+  /** Bytes received so far */
+  loaded: number;
+
+  /** Total size in bytes, or null if unknown */
+  total: number | null;
+
+  /** Expected SHA-256 (hex), if the backend provided one */
+  checksumSha256: string | null;
+
+  /** Failure reason when `status` is `failed` */
+  errorCode?: DownloadErrorCode;
+
+  /** Whether the file was too large to keep in memory and was handed to the browser's own download */
+  savedByBrowser?: boolean;
+
+  /** When the download was started */
+  startedAt: string;
+}
+
+/**
+ * Options for startDownload
+ */
+export interface StartDownloadOptions {
+  /** Download URL from the API (relative to the backend, absolute or data:) */
+  url: string;
+
+  /** File name to save under (the server's Content-Disposition takes precedence) */
+  fileName: string;
+
+  /** Expected SHA-256 (hex) of the file */
+  checksumSha256?: string | null;
+}
+
+/**
+ * Where the bytes of a download are kept until the file is saved
+ */
+interface DownloadStorage {
+  /** Prepares for writing at `offset`, dropping anything stored after it */
+  open(offset: number): Promise<void>;
+
+  /** Appends a chunk */
+  write(chunk: Uint8Array): Promise<void>;
+
+  /** Commits what was written, e.g. before pausing */
+  close(): Promise<void>;
+
+  /** The stored file */
+  getFile(): Promise<Blob>;
+
+  /** Deletes the stored data */
+  discard(): Promise<void>;
+
+  /** Whether the whole file is held in memory */
+  inMemory: boolean;
+}
+
+interface DownloadEntry {
+  item: DownloadItem;
+
+  /** Storage chosen when the download starts */
+  storage: Promise<DownloadStorage>;
+
+  /** Checksum of the bytes received so far, if the backend provided one */
+  hash: Sha256 | null;
+
+  /** Bytes stored (`item.loaded` is only updated periodically) */
+  received: number;
+
+  controller?: AbortController;
+
+  /** ETag or Last-Modified of the first response, sent as If-Range on resume */
+  validator?: string;
+
+  /** Whether the file name came from the server */
+  hasServerFileName: boolean;
+}
+
+/**
+ * Minimum interval between progress notifications, in milliseconds
+ */
+const PROGRESS_INTERVAL_MS = 150;
+
+/**
+ * How long a saved file's object URL stays valid, in milliseconds
+ *
+ * Firefox and Safari read the file after `click()` returns and can fail
+ * large downloads whose URL was already revoked.
+ */
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
+/**
+ * Largest file downloaded in memory when OPFS is not available
+ */
+export const MAX_IN_MEMORY_DOWNLOAD_BYTES = 512 * 1024 * 1024;
+
+/**
+ * OPFS directory holding downloads in progress
+ */
+const STORAGE_DIRECTORY = 'itqan-downloads';
+
+const entries = new Map<string, DownloadEntry>();
+const listeners = new Set<() => void>();
+let snapshot: DownloadItem[] = [];
+let nextId = 1;
+
+function notify(): void {
+  snapshot = Array.from(entries.values(), entry => entry.item);
+  listeners.forEach(listener => listener());
+}
+
+function update(entry: DownloadEntry, changes: Partial<DownloadItem>): void {
+  entry.item = { ...entry.item, ...changes };
+  notify();
+}
+
+/**
+ * Resolves an API download URL to a fetchable URL
+ *
+ * @param url - URL from a download response
+ * @returns Absolute URL
+ */
+export function resolveDownloadUrl(url: string): string {
+  return /^(https?|data|blob):/.test(url) ? url : `${env.NEXT_PUBLIC_BACKEND_URL}${url}`;
+}
+
+function parseFileName(contentDisposition: string | null): string | null {
+  if (!contentDisposition) return null;
+
+  const encoded = /filename\*=(?:UTF-8'')?([^;]+)/i.exec(contentDisposition);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to the plain filename parameter
+    }
+  }
+
+  const plain = /filename="?([^";]+)"?/i.exec(contentDisposition);
+  return plain ? plain[1].trim() : null;
+}
+
+function parseTotal(response: Response, offset: number): number | null {
+  // Content-Range: bytes 100-199/1000
+  const range = /\/(\d+)\s*$/.exec(response.headers.get('Content-Range') || '');
+  if (range) return Number(range[1]);
+
+  const length = response.headers.get('Content-Length');
+  return length ? offset + Number(length) : null;
+}
+
+let storageDirectory: Promise<FileSystemDirectoryHandle | null> | null = null;
+
+/**
+ * The OPFS downloads directory, or null if OPFS files cannot be written
+ *
+ * Data left over from a previous page load cannot be resumed, so it is
+ * deleted the first time the directory is opened.
+ */
+function getStorageDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  storageDirectory ??= (async () => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory
+      || typeof FileSystemFileHandle === 'undefined' || !('createWritable' in FileSystemFileHandle.prototype)) {
+      return null;
+    }
+
+    try {
+      const root = await navigator.storage.getDirectory();
+      await root.removeEntry(STORAGE_DIRECTORY, { recursive: true }).catch(() => undefined);
+      return await root.getDirectoryHandle(STORAGE_DIRECTORY, { create: true });
+    } catch (error) {
+      // E.g. private browsing modes without OPFS
+      console.warn('Download storage unavailable, keeping downloads in memory:', error);
+      return null;
+    }
+  })();
+  return storageDirectory;
+}
+
+function createFileStorage(directory: FileSystemDirectoryHandle, name: string): DownloadStorage {
+  let writable: FileSystemWritableFileStream | null = null;
+  const getHandle = () => directory.getFileHandle(name, { create: true });
+
+  return {
+    inMemory: false,
+    async open(offset) {
+      writable = await (await getHandle()).createWritable({ keepExistingData: true });
+      await writable.truncate(offset);
+      await writable.seek(offset);
+    },
+    async write(chunk) {
+      await writable!.write(chunk as FileSystemWriteChunkType);
+    },
+    async close() {
+      const current = writable;
+      writable = null;
+      await current?.close();
+    },
+    async getFile() {
+      return (await getHandle()).getFile();
+    },
+    async discard() {
+      const current = writable;
+      writable = null;
+      await current?.abort().catch(() => undefined);
+      await directory.removeEntry(name).catch(() => undefined);
+    },
+  };
+}
+
+function createMemoryStorage(): DownloadStorage {
+  let chunks: Uint8Array[] = [];
+
+  return {
+    inMemory: true,
+    async open(offset) {
+      if (offset === 0) chunks = [];
+    },
+    async write(chunk) {
+      chunks.push(chunk);
+    },
+    async close() {},
+    async getFile() {
+      return new Blob(chunks as BlobPart[]);
+    },
+    async discard() {
+      chunks = [];
+    },
+  };
+}
+
+async function createStorage(id: string): Promise<DownloadStorage> {
+  const directory = await getStorageDirectory();
+  return directory ? createFileStorage(directory, id) : createMemoryStorage();
+}
+
+/**
+ * Lets the browser download a file itself, without progress or verification
+ */
+function saveWithBrowser(url: string, fileName: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.rel = 'noopener';
+  link.click();
+}
+
+function saveFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+}
+
+async function restart(entry: DownloadEntry, storage: DownloadStorage): Promise<void> {
+  entry.received = 0;
+  entry.hash = entry.item.checksumSha256 ? createSha256() : null;
+  await storage.open(0);
+}
+
+async function handToBrowser(entry: DownloadEntry, storage: DownloadStorage, controller: AbortController): Promise<void> {
+  controller.abort();
+  await storage.discard();
+  entry.received = 0;
+  saveWithBrowser(resolveDownloadUrl(entry.item.url), entry.item.fileName);
+  update(entry, { status: 'completed', savedByBrowser: true, loaded: 0 });
+}
+
+async function run(entry: DownloadEntry): Promise<void> {
+  const controller = new AbortController();
+  entry.controller = controller;
+  update(entry, { status: 'downloading', errorCode: undefined });
+  const storage = await entry.storage;
+
+  try {
+    const headers = new Headers();
+    if (entry.received > 0) {
+      headers.set('Range', `bytes=${entry.received}-`);
+      if (entry.validator) {
+        headers.set('If-Range', entry.validator);
+      }
+    }
+
+    const response = await fetch(resolveDownloadUrl(entry.item.url), { headers, signal: controller.signal });
+    if (!response.ok) {
+      update(entry, { status: 'failed', errorCode: 'http' });
+      return;
+    }
+
+    // The server ignored the range (or the file changed) - start over
+    if (response.status !== 206 && entry.received > 0) {
+      await restart(entry, storage);
+    } else {
+      await storage.open(entry.received);
+    }
+
+    entry.validator ??= response.headers.get('ETag') || response.headers.get('Last-Modified') || undefined;
+    const serverFileName = parseFileName(response.headers.get('Content-Disposition'));
+    if (serverFileName && !entry.hasServerFileName) {
+      entry.hasServerFileName = true;
+      entry.item = { ...entry.item, fileName: serverFileName };
+    }
+    const total = parseTotal(response, entry.received);
+    if (storage.inMemory && total !== null && total > MAX_IN_MEMORY_DOWNLOAD_BYTES) {
+      await handToBrowser(entry, storage, controller);
+      return;
+    }
+    update(entry, { loaded: entry.received, total });
+
+    const reader = (response.body ?? new Blob().stream()).getReader();
+    let lastNotified = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // The size was not announced and turned out too large to keep in memory
+      if (storage.inMemory && entry.received + value.byteLength > MAX_IN_MEMORY_DOWNLOAD_BYTES) {
+        await handToBrowser(entry, storage, controller);
+        return;
+      }
+
+      await storage.write(value);
+      entry.hash?.update(value);
+      entry.received += value.byteLength;
+      if (Date.now() - lastNotified >= PROGRESS_INTERVAL_MS) {
+        lastNotified = Date.now();
+        update(entry, { loaded: entry.received });
+      }
+    }
+
+    await storage.close();
+    update(entry, { loaded: entry.received, total: entry.item.total ?? entry.received });
+
+    if (entry.item.checksumSha256 && entry.hash) {
+      update(entry, { status: 'verifying' });
+      const checksum = entry.hash.digestHex();
+      if (checksum !== entry.item.checksumSha256.toLowerCase()) {
+        // The bytes are unusable - a retry must start from scratch
+        await storage.discard();
+        entry.received = 0;
+        entry.hash = createSha256();
+        update(entry, { status: 'failed', errorCode: 'checksum', loaded: 0 });
+        return;
+      }
+    }
+
+    // Stored files are deleted when the download is removed from the list,
+    // since the browser may still be reading them
+    saveFile(await storage.getFile(), entry.item.fileName);
+    if (storage.inMemory) {
+      await storage.discard();
+    }
+    entry.received = 0;
+    update(entry, { status: 'completed' });
+  } catch (error) {
+    // Keep what was received so far for resuming
+    await storage.close().catch(() => undefined);
+
+    // Pausing and cancelling abort the request and set the status themselves
+    if (controller.signal.aborted) {
+      update(entry, { loaded: entry.received });
+      return;
+    }
+
+    console.error('Download failed:', error);
+    const errorCode = error instanceof DOMException && error.name === 'QuotaExceededError' ? 'storage' : 'network';
+    update(entry, { status: 'failed', errorCode, loaded: entry.received });
+  } finally {
+    if (entry.controller === controller) {
+      entry.controller = undefined;
+    }
+  }
+}
+
+function discardStorage(entry: DownloadEntry): void {
+  void entry.storage.then(storage => storage.discard());
+}
+
+/**
+ * Starts downloading a file
+ *
+ * @param options - URL, file name and optional checksum
+ * @returns Id of the new download
+ *
+ * @example
+ * ```typescript
+ * const { download_url, checksum_sha256 } = await downloadAsset(assetId, token);
+ * startDownload({ url: download_url, fileName: asset.title, checksumSha256: checksum_sha256 });
+ * ```
+ */
+export function startDownload(options: StartDownloadOptions): string {
+  const id = `download-${nextId++}`;
+  const entry: DownloadEntry = {
+    item: {
+      id,
+      fileName: options.fileName,
+      url: options.url,
+      status: 'downloading',
+      loaded: 0,
+      total: null,
+      checksumSha256: options.checksumSha256 || null,
+      startedAt: new Date().toISOString(),
+    },
+    storage: createStorage(id),
+    hash: options.checksumSha256 ? createSha256() : null,
+    received: 0,
+    hasServerFileName: false,
+  };
+  entries.set(id, entry);
+  void run(entry);
+  return id;
+}
+
+/**
+ * Pauses a running download, keeping the bytes received so far
+ *
+ * @param id - Download id
+ */
+export function pauseDownload(id: string): void {
+  const entry = entries.get(id);
+  if (entry?.item.status !== 'downloading') return;
+
+  entry.controller?.abort();
+  update(entry, { status: 'paused' });
+}
+
+/**
+ * Resumes a paused or failed download
+ *
+ * Continues from the last received byte with a Range request when the
+ * server supports it, otherwise starts over.
+ *
+ * @param id - Download id
+ */
+export function resumeDownload(id: string): void {
+  const entry = entries.get(id);
+  if (entry?.item.status !== 'paused' && entry?.item.status !== 'failed') return;
+
+  void run(entry);
+}
+
+/**
+ * Cancels a download and discards its data
+ *
+ * @param id - Download id
+ */
+export function cancelDownload(id: string): void {
+  const entry = entries.get(id);
+  if (!entry || entry.item.status === 'completed' || entry.item.status === 'cancelled') return;
+
+  entry.controller?.abort();
+  discardStorage(entry);
+  entry.received = 0;
+  update(entry, { status: 'cancelled' });
+}
+
+/**
+ * Removes a download from the list, cancelling it if needed
+ *
+ * @param id - Download id
+ */
+export function removeDownload(id: string): void {
+  const entry = entries.get(id);
+  if (!entry) return;
+
+  entry.controller?.abort();
+  discardStorage(entry);
+  entries.delete(id);
+  notify();
+}
+
+/**
+ * Removes completed and cancelled downloads from the list
+ */
+export function clearFinishedDownloads(): void {
+  entries.forEach((entry, id) => {
+    if (entry.item.status === 'completed' || entry.item.status === 'cancelled') {
+      discardStorage(entry);
+      entries.delete(id);
+    }
+  });
+  notify();
+}
+
+/**
+ * Returns the current downloads, oldest first
+ *
+ * The array is replaced on every change, so it can be used as a
+ * `useSyncExternalStore` snapshot.
+ */
+export function getDownloads(): DownloadItem[] {
+  return snapshot;
+}
+
+/**
+ * Subscribes to download changes
+ *
+ * @param listener - Called after every change
+ * @returns Function that removes the listener
+ */
+export function subscribeDownloads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -3,6 +3,25 @@
  * Centralizes all environment variable handling with type safety
  */
 
+/**
+ * Reads a non-negative number from an environment variable
+ *
+ * @param name - Variable name, for the warning about an invalid value
+ * @param value - Raw variable value (read by the caller, so Next.js can inline it)
+ * @param fallback - Value used when the variable is unset or not a non-negative number
+ * @returns The parsed number, or the fallback
+ */
+function readNumber(name: string, value: string | undefined, fallback: number): number {
+  const number = value?.trim() ? Number(value) : NaN;
+  if (Number.isFinite(number) && number >= 0) {
+    return number;
+  }
+  if (value?.trim()) {
+    console.warn(`${name} is not a non-negative number ("${value}"), using ${fallback}`);
+  }
+  return fallback;
+}
+
 // Environment configuration object
 export const env = {
   NODE_ENV: process.env.NODE_ENV as 'development' | 'production' | 'test' || 'development',
@@ -12,7 +31,12 @@ export const env = {
   NEXT_PUBLIC_DEFAULT_LOCALE: process.env.NEXT_PUBLIC_DEFAULT_LOCALE as 'ar' | 'en' || 'ar',
   NEXT_PUBLIC_ANALYTICS_ID: process.env.NEXT_PUBLIC_ANALYTICS_ID,
   NEXT_PUBLIC_SENTRY_DSN: process.env.NEXT_PUBLIC_SENTRY_DSN,
-  NEXT_PUBLIC_BACKEND_URL: process.env.NEXT_PUBLIC_BACKEND_URL || "https://develop.api.cms.itqan.dev"
+  NEXT_PUBLIC_BACKEND_URL: process.env.NEXT_PUBLIC_BACKEND_URL || "https://develop.api.cms.itqan.dev",
+  NEXT_PUBLIC_API_MOCKING: process.env.NEXT_PUBLIC_API_MOCKING === 'true',
+  // Minutes of inactivity before signing out; 0 disables the idle timeout
+  NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES: readNumber('NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES', process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES, 30),
+  // Seconds the "you will be signed out" warning is shown before the idle timeout
+  NEXT_PUBLIC_IDLE_WARNING_SECONDS: readNumber('NEXT_PUBLIC_IDLE_WARNING_SECONDS', process.env.NEXT_PUBLIC_IDLE_WARNING_SECONDS, 60),
 } as const;
 
 
@@ -20,6 +44,7 @@ export const env = {
 export const isDevelopment = env.NODE_ENV === 'development';
 export const isProduction = env.NODE_ENV === 'production';
 export const isTest = env.NODE_ENV === 'test';
+export const isApiMocking = env.NEXT_PUBLIC_API_MOCKING;
 
 // Validation function (called during build)
 export function validateEnv() {
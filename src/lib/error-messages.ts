@@ -74,10 +74,10 @@ export function getCurrentLocale(): string {
 /**
  * Get a localized error message with automatic locale detection
  * @param key - The error message key
+ * @param locale - Locale to use instead of detecting it (e.g. the request locale on the server)
  * @returns Localized error message
  */
-export function getLocalizedError(key: string): string {
-  const locale = getCurrentLocale();
+export function getLocalizedError(key: string, locale: string = getCurrentLocale()): string {
   return getLocalizedErrorMessage(key, locale);
 }
 
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkRouteAccess,
+  findRouteRule,
+  getAccessRedirect,
+  sanitizeReturnTo,
+  splitLocale,
+} from './route-protection';
+import type { SessionProfile } from './auth-cookie';
+
+const ORIGIN = 'https://cms.example.com';
+
+const completeProfile: SessionProfile = { profileCompleted: true, role: 'user' };
+
+describe('splitLocale', () => {
+  it('separates the locale prefix', () => {
+    expect(splitLocale('/en/dashboard/resources')).toEqual({ locale: 'en', path: '/dashboard/resources' });
+    expect(splitLocale('/ar')).toEqual({ locale: 'ar', path: '/' });
+  });
+
+  it('leaves paths without a locale as they are', () => {
+    expect(splitLocale('/dashboard')).toEqual({ path: '/dashboard' });
+  });
+});
+
+describe('findRouteRule', () => {
+  it('matches a rule path and everything below it', () => {
+    expect(findRouteRule('/dashboard')?.path).toBe('/dashboard');
+    expect(findRouteRule('/dashboard/settings')?.path).toBe('/dashboard');
+  });
+
+  it('prefers the most specific rule', () => {
+    expect(findRouteRule('/dashboard/resources/7/edit')?.path).toBe('/dashboard/resources');
+  });
+
+  it('does not match paths that merely start with a rule path', () => {
+    expect(findRouteRule('/dashboards')).toBeNull();
+    expect(findRouteRule('/store')).toBeNull();
+  });
+});
+
+describe('checkRouteAccess', () => {
+  it('allows public paths without a session', () => {
+    expect(checkRouteAccess('/store', { isAuthenticated: false, profile: null })).toBe('allow');
+  });
+
+  it('sends signed-out users to the login page', () => {
+    expect(checkRouteAccess('/dashboard', { isAuthenticated: false, profile: null })).toBe('login');
+  });
+
+  it('allows signed-in users whose profile is not known yet', () => {
+    expect(checkRouteAccess('/dashboard/resources', { isAuthenticated: true, profile: null })).toBe('allow');
+  });
+
+  it('requires a completed profile where the rule asks for one', () => {
+    const profile = { ...completeProfile, profileCompleted: false };
+
+    expect(checkRouteAccess('/dashboard', { isAuthenticated: true, profile })).toBe('completeProfile');
+    expect(checkRouteAccess('/auth/complete-profile', { isAuthenticated: true, profile })).toBe('allow');
+  });
+
+  it('checks roles reported by the backend', () => {
+    const session = { isAuthenticated: true, profile: completeProfile };
+
+    expect(checkRouteAccess('/dashboard/resources', session)).toBe('forbidden');
+    expect(checkRouteAccess('/dashboard/resources', {
+      isAuthenticated: true,
+      profile: { ...completeProfile, role: 'publisher' },
+    })).toBe('allow');
+  });
+
+  it('does not hold a missing role against the user', () => {
+    const profile = { profileCompleted: true };
+
+    expect(checkRouteAccess('/dashboard/resources', { isAuthenticated: true, profile })).toBe('allow');
+  });
+});
+
+describe('getAccessRedirect', () => {
+  it('returns to the page after signing in', () => {
+    expect(getAccessRedirect('login', 'en', '/en/dashboard?tab=1')).toBe(
+      '/en/auth/login?returnTo=%2Fen%2Fdashboard%3Ftab%3D1'
+    );
+  });
+
+  it('passes the provider on to profile completion', () => {
+    const profile = { profileCompleted: false, provider: 'github' as const };
+
+    expect(getAccessRedirect('completeProfile', 'ar', '/ar/dashboard', profile)).toBe(
+      '/ar/auth/complete-profile?returnTo=%2Far%2Fdashboard&provider=github'
+    );
+  });
+
+  it('sends users away from pages their role cannot use', () => {
+    expect(getAccessRedirect('forbidden', 'en', '/en/dashboard/resources')).toBe('/en/store');
+  });
+});
+
+describe('sanitizeReturnTo', () => {
+  it('keeps paths on the app origin with their query and hash', () => {
+    expect(sanitizeReturnTo('/en/dashboard?tab=security#email', ORIGIN)).toBe('/en/dashboard?tab=security#email');
+  });
+
+  it('normalizes the path', () => {
+    expect(sanitizeReturnTo('/en/store/../dashboard', ORIGIN)).toBe('/en/dashboard');
+  });
+
+  it('rejects missing values', () => {
+    expect(sanitizeReturnTo(null, ORIGIN)).toBeNull();
+    expect(sanitizeReturnTo('', ORIGIN)).toBeNull();
+  });
+
+  it.each([
+    ['an absolute URL', 'https://evil.com/'],
+    ['a protocol-relative URL', '//evil.com'],
+    ['a backslash', '/\\evil.com'],
+    ['a relative path', 'evil.com'],
+    ['a script URL', 'javascript:alert(1)'],
+  ])('rejects %s', (_, value) => {
+    expect(sanitizeReturnTo(value, ORIGIN)).toBeNull();
+  });
+
+  it.each([
+    ['a tab', '/\t/evil.com'],
+    ['a newline', '/\n/evil.com'],
+    ['a carriage return', '/\r/evil.com'],
+    ['a null character', '/en\u0000/dashboard'],
+    ['a delete character', '/en\u007f/dashboard'],
+  ])('rejects %s', (_, value) => {
+    expect(sanitizeReturnTo(value, ORIGIN)).toBeNull();
+  });
+
+  it('rejects a tab decoded from the query string', () => {
+    const value = new URLSearchParams('returnTo=/%09/evil.com').get('returnTo');
+
+    expect(sanitizeReturnTo(value, ORIGIN)).toBeNull();
+  });
+
+  it('rejects everything without an origin to check against', () => {
+    expect(sanitizeReturnTo('/en/dashboard')).toBeNull();
+  });
+});
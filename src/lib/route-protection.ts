@@ -0,0 +1,207 @@
+/**
+ * Route Protection
+ *
+ * Declarative access rules for protected pages, enforced by the middleware
+ * before a page renders and by the `AuthProvider` on client-side navigation.
+ * A rule applies to its path and everything below it; the most specific
+ * matching rule wins.
+ *
+ * The rules decide where to send the user (login, profile completion or
+ * away from a page their role cannot use). They are not a security boundary:
+ * the backend still authorizes every request.
+ *
+ * This module has no client-only or server-only dependencies.
+ */
+
+import { locales } from '@/i18n';
+import type { Locale } from '@/i18n';
+import type { UserRole } from '@/lib/types/api/auth.types';
+import type { SessionProfile } from './auth-cookie';
+
+/**
+ * Access rule for a path and everything below it
+ */
+export interface RouteRule {
+  /** Path without the locale prefix, e.g. `/dashboard` */
+  path: string;
+  /** Whether the user must have completed their profile */
+  requireCompleteProfile?: boolean;
+  /** Roles allowed on the path; only checked when the backend reports roles */
+  roles?: UserRole[];
+}
+
+/**
+ * Protected paths - every rule requires a signed-in user
+ */
+export const ROUTE_RULES: RouteRule[] = [
+  { path: '/dashboard', requireCompleteProfile: true },
+  { path: '/dashboard/resources', requireCompleteProfile: true, roles: ['publisher', 'admin'] },
+  { path: '/auth/complete-profile' },
+];
+
+/**
+ * Outcome of checking a path against the rules
+ */
+export type RouteAccess = 'allow' | 'login' | 'completeProfile' | 'forbidden';
+
+/**
+ * Session details the rules are checked against
+ */
+export interface RouteSession {
+  /** Whether there is a session */
+  isAuthenticated: boolean;
+  /** Profile status and role, if known */
+  profile: SessionProfile | null;
+}
+
+/**
+ * Query parameter carrying the page to return to after signing in
+ */
+export const RETURN_TO_PARAM = 'returnTo';
+
+/**
+ * Why the session ended without the user logging out
+ */
+export type SessionEndReason = 'expired' | 'idle';
+
+/**
+ * Query parameter telling the login page why the session ended
+ */
+export const SESSION_END_PARAM = 'sessionEnded';
+
+/**
+ * Splits a pathname into its locale and the path below it
+ *
+ * @param pathname - Pathname, e.g. `/en/dashboard`
+ * @returns Locale (if the pathname has one) and the remaining path
+ */
+export function splitLocale(pathname: string): { locale?: Locale; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (locales.includes(first as Locale)) {
+    return { locale: first as Locale, path: `/${rest.join('/')}` };
+  }
+  return { path: pathname };
+}
+
+/**
+ * Finds the most specific rule for a path
+ *
+ * @param path - Path without the locale prefix
+ * @returns The matching rule, or null if the path is public
+ */
+export function findRouteRule(path: string): RouteRule | null {
+  return ROUTE_RULES
+    .filter(rule => path === rule.path || path.startsWith(`${rule.path}/`))
+    .reduce<RouteRule | null>((best, rule) => (!best || rule.path.length > best.path.length ? rule : best), null);
+}
+
+/**
+ * Checks whether a session may open a path
+ *
+ * A missing profile is not held against the user: the client completes the
+ * check once the profile has loaded.
+ *
+ * @param path - Path without the locale prefix
+ * @param session - Current session details
+ * @returns Whether to allow the page or where to send the user instead
+ *
+ * @example
+ * ```typescript
+ * checkRouteAccess('/dashboard', { isAuthenticated: false, profile: null }); // 'login'
+ * ```
+ */
+export function checkRouteAccess(path: string, session: RouteSession): RouteAccess {
+  const rule = findRouteRule(path);
+  if (!rule) return 'allow';
+
+  if (!session.isAuthenticated) return 'login';
+  if (!session.profile) return 'allow';
+
+  if (rule.requireCompleteProfile && !session.profile.profileCompleted) {
+    return 'completeProfile';
+  }
+  if (rule.roles && session.profile.role && !rule.roles.includes(session.profile.role)) {
+    return 'forbidden';
+  }
+  return 'allow';
+}
+
+/**
+ * Whether a string contains control characters
+ *
+ * The URL parser drops tabs and newlines, so `/\t/evil.com` would otherwise
+ * turn into `//evil.com` after it has been checked.
+ */
+function hasControlCharacters(value: string): boolean {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) return true;
+  }
+  return false;
+}
+
+/**
+ * Validates a return URL so it can only point into this app
+ *
+ * The value is resolved the way the browser would resolve it and must stay
+ * on the app's origin.
+ *
+ * @param value - Return URL from the query string
+ * @param origin - The app's origin (defaults to the current page's; required on the server)
+ * @returns The path (with query and hash) to return to, or null if it is missing or points elsewhere
+ *
+ * @example
+ * ```typescript
+ * sanitizeReturnTo('/en/dashboard?tab=security'); // '/en/dashboard?tab=security'
+ * sanitizeReturnTo('/\t/evil.com'); // null (from ?returnTo=/%09/evil.com)
+ * ```
+ */
+export function sanitizeReturnTo(
+  value: string | null | undefined,
+  origin: string | undefined = typeof window !== 'undefined' ? window.location.origin : undefined
+): string | null {
+  if (!value || !origin || !value.startsWith('/') || hasControlCharacters(value)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== origin) {
+    return null;
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Builds the path a protected page redirects to
+ *
+ * @param access - Outcome of `checkRouteAccess` (other than `allow`)
+ * @param locale - Current locale
+ * @param returnTo - Page to come back to afterwards
+ * @param profile - Profile details passed on to profile completion
+ * @returns Path with query string
+ */
+export function getAccessRedirect(
+  access: Exclude<RouteAccess, 'allow'>,
+  locale: Locale,
+  returnTo: string,
+  profile?: SessionProfile | null
+): string {
+  if (access === 'forbidden') {
+    return `/${locale}/store`;
+  }
+
+  const params = new URLSearchParams({ [RETURN_TO_PARAM]: returnTo });
+  if (access === 'login') {
+    return `/${locale}/auth/login?${params}`;
+  }
+
+  if (profile?.provider) {
+    params.set('provider', profile.provider);
+  }
+  return `/${locale}/auth/complete-profile?${params}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Cross-tab Session Sync
+ *
+ * Tells the app's other open tabs about session changes made in this one
+ * (login, logout, profile updates and token refreshes), so every tab
+ * reconciles immediately instead of on its next 401.
+ *
+ * Messages go through a `BroadcastChannel` where supported, with `storage`
+ * events as the fallback. Neither delivers a message to the tab that sent it.
+ * Tokens are never broadcast: other tabs read the new access token from the
+ * session cookies, which all tabs share.
+ */
+
+import type { User } from './auth';
+
+/**
+ * Session change announced to the other tabs
+ */
+export type SessionSyncMessage =
+  | { type: 'login'; user: User }
+  | { type: 'logout'; discardOutboxOf?: string }
+  | { type: 'userUpdated'; user: User }
+  | { type: 'tokenRefreshed' };
+
+type SessionSyncListener = (message: SessionSyncMessage) => void;
+
+/**
+ * Channel name, also used as the localStorage key of the fallback
+ */
+const CHANNEL_NAME = 'itqan_session_sync';
+
+const listeners = new Set<SessionSyncListener>();
+let channel: BroadcastChannel | null = null;
+let isConnected = false;
+
+function notify(message: SessionSyncMessage): void {
+  listeners.forEach(listener => listener(message));
+}
+
+function handleStorage(event: StorageEvent): void {
+  if (event.key !== CHANNEL_NAME || !event.newValue) return;
+
+  try {
+    notify(JSON.parse(event.newValue).message as SessionSyncMessage);
+  } catch {
+    // Not a message from this module
+  }
+}
+
+/**
+ * Opens the tab's single channel (or storage listener) on first use
+ *
+ * Sending and receiving share one channel, since a channel never receives
+ * its own messages but would receive those of a second one in the same tab.
+ */
+function connect(): void {
+  if (isConnected || typeof window === 'undefined') return;
+  isConnected = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = event => notify(event.data as SessionSyncMessage);
+  } else {
+    window.addEventListener('storage', handleStorage);
+  }
+}
+
+/**
+ * Announces a session change to the other tabs
+ *
+ * @param message - The change made in this tab
+ *
+ * @example
+ * ```typescript
+ * broadcastSession({ type: 'userUpdated', user });
+ * ```
+ */
+export function broadcastSession(message: SessionSyncMessage): void {
+  if (typeof window === 'undefined') return;
+
+  connect();
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+
+  try {
+    // The timestamp makes repeated messages distinct, so each one fires an event
+    localStorage.setItem(CHANNEL_NAME, JSON.stringify({ message, sentAt: Date.now() }));
+    localStorage.removeItem(CHANNEL_NAME);
+  } catch {
+    // Storage unavailable - other tabs reconcile on their next request
+  }
+}
+
+/**
+ * Subscribes to session changes made in other tabs
+ *
+ * @param listener - Called with each change
+ * @returns Unsubscribe function
+ */
+export function subscribeSession(listener: SessionSyncListener): () => void {
+  listeners.add(listener);
+  connect();
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
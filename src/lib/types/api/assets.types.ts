@@ -424,6 +424,78 @@ export interface AssetAccessStatusOut {
   requires_approval: boolean;
 }
 
+// ============================================================================
+// Chunked Upload Types
+// ============================================================================
+
+/**
+ * Upload session creation request
+ * Starts a chunked upload of a resource's original file
+ */
+export interface CreateUploadSessionIn {
+  /** Original file name */
+  file_name: string;
+
+  /** File size in bytes */
+  file_size: number;
+
+  /** MIME type of the file */
+  content_type: string;
+
+  /** Requested chunk size in bytes (the server may adjust it) */
+  chunk_size: number;
+}
+
+/**
+ * Upload session state
+ * Tracks which chunks of a chunked upload the server has received
+ */
+export interface UploadSessionOut {
+  /** Unique identifier for the upload session */
+  id: string;
+
+  /** Original file name */
+  file_name: string;
+
+  /** File size in bytes */
+  file_size: number;
+
+  /** Chunk size in bytes used for this upload */
+  chunk_size: number;
+
+  /** Total number of chunks */
+  total_chunks: number;
+
+  /** Indexes of the chunks received so far */
+  received_chunks: number[];
+
+  /** Session status (active, completed) */
+  status: string;
+
+  /** Session expiration timestamp */
+  expires_at: string;
+}
+
+/**
+ * Chunk upload acknowledgement
+ */
+export interface UploadChunkOut {
+  /** Index of the received chunk */
+  index: number;
+
+  /** SHA-256 of the chunk as verified by the server (hex) */
+  checksum_sha256: string;
+}
+
+/**
+ * Upload completion request
+ * Links the assembled file to a resource as its original
+ */
+export interface CompleteUploadIn {
+  /** Resource the uploaded file belongs to */
+  resource_id: number;
+}
+
 // ============================================================================
 // Download Types
 // ============================================================================
@@ -435,6 +507,9 @@ export interface AssetAccessStatusOut {
 export interface DownloadResponseOut {
   /** Download URL path (relative to backend URL) */
   download_url: string;
+
+  /** SHA-256 of the file (hex), when the backend provides one */
+  checksum_sha256?: string | null;
 }
 
 // ============================================================================
@@ -22,7 +22,7 @@ export interface UserProfileSchema {
   /** User's phone number (optional) */
   phone: string | null;
 
-  /** Whether the user account is active */
+  /** Whether the user account is active, i.e. the user has verified their email */
   is_active: boolean;
 
   /** Whether the user has completed their profile */
@@ -40,6 +40,12 @@ export interface UserProfileSchema {
   /** User's job title */
   job_title: string;
 
+  /** User's role (a `UserRole`), if the backend reports roles */
+  role?: string;
+
+  /** When the account will be deleted, if the user asked to delete it */
+  deletion_scheduled_at?: string | null;
+
   /** Account creation timestamp */
   created_at: string;
 
@@ -149,6 +155,111 @@ export interface LogoutIn {
   refresh?: string | null;
 }
 
+/**
+ * Password reset request schema
+ * Asks the backend to email a password reset link
+ */
+export interface PasswordResetRequestIn {
+  /** Email address of the account */
+  email: string;
+}
+
+/**
+ * Password reset confirmation schema
+ * Sets a new password with the token from the reset link
+ */
+export interface PasswordResetConfirmIn {
+  /** Token from the password reset link */
+  token: string;
+
+  /** New password */
+  password: string;
+}
+
+/**
+ * Password change schema
+ * Re-authenticates with the current password or a reauthentication token
+ */
+export interface ChangePasswordIn {
+  /** Current password */
+  current_password?: string;
+
+  /** Token from `reauthenticateWithOAuth`, for accounts that sign in with a social provider */
+  reauthentication_token?: string;
+
+  /** New password */
+  new_password: string;
+}
+
+/**
+ * Email change schema
+ * Re-authenticates with the current password or a reauthentication token
+ */
+export interface ChangeEmailIn {
+  /** Current password */
+  current_password?: string;
+
+  /** Token from `reauthenticateWithOAuth`, for accounts that sign in with a social provider */
+  reauthentication_token?: string;
+
+  /** New email address, which has to be verified again */
+  new_email: string;
+}
+
+/**
+ * Account deletion request schema
+ * Re-authenticates with the current password or a reauthentication token
+ */
+export interface DeleteAccountIn {
+  /** Current password */
+  current_password?: string;
+
+  /** Token from `reauthenticateWithOAuth`, for accounts that sign in with a social provider */
+  reauthentication_token?: string;
+}
+
+/**
+ * Re-authentication response schema
+ * Returned after a fresh sign-in with the account's social provider
+ */
+export interface ReauthenticationOut {
+  /** Token accepted in place of the current password until it expires */
+  reauthentication_token: string;
+
+  /** When the token expires (ISO 8601) */
+  expires_at: string;
+}
+
+/**
+ * Account deletion response schema
+ */
+export interface AccountDeletionOut {
+  /** When the account will be deleted unless the deletion is cancelled */
+  deletion_scheduled_at: string;
+}
+
+/**
+ * Email verification request schema
+ * Confirms an email address with the token from the verification link
+ */
+export interface VerifyEmailIn {
+  /** Token from the verification link */
+  token: string;
+}
+
+/**
+ * Session response schema
+ * Returned by the Next.js auth route handlers (`/api/auth/*`), which keep
+ * the tokens in httpOnly cookies and only hand out the access token's claims
+ */
+export interface SessionOut {
+  /** Access token without its signature (kept in memory by the client; it cannot authenticate backend calls) */
+  access: string;
+
+  /** When the access token expires (ISO 8601), if known */
+  expires_at: string | null;
+}
+
 /**
  * OAuth2 authorization response schema
  * Contains the authorization URL and state for OAuth flows
@@ -161,11 +272,28 @@ export interface OAuth2AuthorizeResponseSchema {
   state: string;
 }
 
+/**
+ * OAuth2 callback request schema
+ * The parameters the provider redirected back with, exchanged for tokens
+ */
+export interface OAuth2CallbackIn {
+  /** Authorization code issued by the provider */
+  code: string;
+
+  /** State parameter returned by the provider, as issued by the authorize endpoint */
+  state: string;
+}
+
 /**
  * Authentication provider type
  */
 export type AuthProvider = 'email' | 'google' | 'github';
 
+/**
+ * Social sign-in provider type
+ */
+export type OAuthProvider = Exclude<AuthProvider, 'email'>;
+
 /**
  * User role type for authorization
  */
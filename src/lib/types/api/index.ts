@@ -31,8 +31,19 @@ export type {
   RefreshTokenIn,
   RefreshTokenOut,
   LogoutIn,
+  PasswordResetRequestIn,
+  PasswordResetConfirmIn,
+  VerifyEmailIn,
+  ChangePasswordIn,
+  ChangeEmailIn,
+  DeleteAccountIn,
+  AccountDeletionOut,
+  ReauthenticationOut,
+  SessionOut,
   OAuth2AuthorizeResponseSchema,
+  OAuth2CallbackIn,
   AuthProvider,
+  OAuthProvider,
   UserRole,
 } from './auth.types';
 
@@ -59,6 +70,10 @@ export type {
   AccessGrantOut,
   AccessRequestResponseOut,
   AssetAccessStatusOut,
+  CreateUploadSessionIn,
+  UploadSessionOut,
+  UploadChunkOut,
+  CompleteUploadIn,
   DownloadResponseOut,
   AssetListFilters,
   ResourceListFilters,
@@ -55,6 +55,9 @@ export interface User {
   /** Whether user account is active */
   isActive?: boolean;
 
+  /** When the account will be deleted, if the user asked to delete it (ISO timestamp) */
+  deletionScheduledAt?: string;
+
   /** Account creation date */
   createdAt?: Date;
 
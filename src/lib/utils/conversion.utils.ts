@@ -10,6 +10,7 @@ import type {
   ListAssetOut,
   DetailAssetOut,
   DetailPublisherOut,
+  UserRole,
 } from '../types/api';
 import type {
   User,
@@ -48,8 +49,10 @@ export function convertUserProfileToUser(userProfile: UserProfileSchema): User {
     projectSummary: userProfile.project_summary || undefined,
     projectUrl: userProfile.project_url || undefined,
     provider: 'email', // Default, would need to be determined from auth context
+    role: userProfile.role as UserRole | undefined,
     profileCompleted: userProfile.is_profile_completed,
     isActive: userProfile.is_active,
+    deletionScheduledAt: userProfile.deletion_scheduled_at ?? undefined,
     createdAt: new Date(userProfile.created_at),
     updatedAt: new Date(userProfile.updated_at),
   };
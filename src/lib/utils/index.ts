@@ -33,11 +33,20 @@ export function getCurrentLocaleForHeaders(): 'ar' | 'en' {
 
 /**
  * Navigates to the download URL to trigger automatic download
- * @param downloadUrl - The download URL path from the API response
+ * @param downloadUrl - The download URL path from the API response (absolute and data: URLs are used as-is)
  */
 export function downloadFileFromUrl(downloadUrl: string): void {
+  // Inline files (e.g. from the mock backend) can't be navigated to - save them through a link instead
+  if (downloadUrl.startsWith('data:') || downloadUrl.startsWith('blob:')) {
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = '';
+    link.click();
+    return;
+  }
+
   // Construct the full URL by combining backend URL with download path
-  const fullUrl = `${env.NEXT_PUBLIC_BACKEND_URL}${downloadUrl}`;
+  const fullUrl = /^https?:\/\//.test(downloadUrl) ? downloadUrl : `${env.NEXT_PUBLIC_BACKEND_URL}${downloadUrl}`;
   
   // Navigate to the download URL - browser will handle the download automatically
   window.location.href = fullUrl;
@@ -59,8 +68,14 @@ export {
 export {
   validators,
   validateLoginForm,
+  validateForgotPasswordForm,
+  validateResetPasswordForm,
+  validateChangePasswordForm,
+  validateChangeEmailForm,
+  validateDeleteAccountForm,
   validateSignupForm,
   validateProfileCompletionForm,
+  validateResourceForm,
   validateSocialProfileForm,
 } from './validation.utils';
 
@@ -69,3 +84,12 @@ export type {
   ValidationResult,
 } from './validation.utils';
 
+// Re-export merge utilities
+export {
+  mergeThreeWay,
+} from './merge.utils';
+
+export type {
+  ThreeWayMergeResult,
+} from './merge.utils';
+
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { mergeThreeWay } from './merge.utils';
+
+type Resource = {
+  name: string;
+  description: string;
+  license: string;
+};
+
+const FIELDS: (keyof Resource)[] = ['name', 'description', 'license'];
+
+const base: Resource = { name: 'Tafsir', description: 'Original', license: 'CC0' };
+
+describe('mergeThreeWay', () => {
+  it('keeps local changes when nothing changed remotely', () => {
+    const local = { ...base, name: 'Tafsir al-Tabari' };
+
+    expect(mergeThreeWay(base, local, base, FIELDS)).toEqual({
+      merged: local,
+      conflicts: [],
+      remoteChanges: [],
+    });
+  });
+
+  it('takes over fields only changed remotely', () => {
+    const local = { ...base, name: 'Tafsir al-Tabari' };
+    const remote = { ...base, license: 'CC-BY' };
+
+    expect(mergeThreeWay(base, local, remote, FIELDS)).toEqual({
+      merged: { ...base, name: 'Tafsir al-Tabari', license: 'CC-BY' },
+      conflicts: [],
+      remoteChanges: ['license'],
+    });
+  });
+
+  it('reports fields changed differently on both sides and keeps the local value', () => {
+    const local = { ...base, description: 'Mine' };
+    const remote = { ...base, description: 'Theirs' };
+
+    const result = mergeThreeWay(base, local, remote, FIELDS);
+
+    expect(result.conflicts).toEqual(['description']);
+    expect(result.merged.description).toBe('Mine');
+    expect(result.remoteChanges).toEqual([]);
+  });
+
+  it('does not report identical changes on both sides as a conflict', () => {
+    const edited = { ...base, description: 'Same' };
+
+    expect(mergeThreeWay(base, edited, { ...edited }, FIELDS)).toEqual({
+      merged: edited,
+      conflicts: [],
+      remoteChanges: [],
+    });
+  });
+
+  it('only merges the given fields', () => {
+    const remote = { ...base, name: 'Renamed', license: 'CC-BY' };
+
+    const result = mergeThreeWay(base, base, remote, ['license']);
+
+    expect(result.merged).toEqual({ ...base, license: 'CC-BY' });
+    expect(result.remoteChanges).toEqual(['license']);
+  });
+
+  it('does not modify its arguments', () => {
+    const local = { ...base, name: 'Local' };
+    const remote = { ...base, license: 'CC-BY' };
+
+    mergeThreeWay(base, local, remote, FIELDS);
+
+    expect(local).toEqual({ ...base, name: 'Local' });
+    expect(remote).toEqual({ ...base, license: 'CC-BY' });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Merge Utilities
+ *
+ * This file contains the three-way merge used when an edit conflicts with
+ * changes someone else saved in the meantime.
+ */
+
+/**
+ * Result of a three-way merge
+ */
+export interface ThreeWayMergeResult<T> {
+  /** Merged values; conflicting fields keep the local value */
+  merged: T;
+
+  /** Fields changed differently on both sides */
+  conflicts: (keyof T)[];
+
+  /** Fields only changed remotely, taken over into `merged` */
+  remoteChanges: (keyof T)[];
+}
+
+/**
+ * Merges local and remote edits of the same record
+ *
+ * For each field: if only one side changed it relative to the common base,
+ * that change wins; if both sides made the same change it is kept; if both
+ * changed it differently the field is reported as a conflict.
+ *
+ * @param base - Values both edits started from
+ * @param local - Values edited locally
+ * @param remote - Current values on the server
+ * @param fields - Fields to merge
+ * @returns Merged values with the conflicting and remotely changed fields
+ *
+ * @example
+ * const { merged, conflicts } = mergeThreeWay(loaded, formData, latest, ['name', 'description']);
+ * if (conflicts.length === 0) {
+ *   await save(merged);
+ * }
+ */
+export function mergeThreeWay<T extends Record<string, unknown>>(
+  base: T,
+  local: T,
+  remote: T,
+  fields: (keyof T)[]
+): ThreeWayMergeResult<T> {
+  const merged = { ...local };
+  const conflicts: (keyof T)[] = [];
+  const remoteChanges: (keyof T)[] = [];
+
+  fields.forEach(field => {
+    const localChanged = local[field] !== base[field];
+    const remoteChanged = remote[field] !== base[field];
+
+    if (!remoteChanged || local[field] === remote[field]) {
+      return;
+    }
+
+    if (localChanged) {
+      conflicts.push(field);
+    } else {
+      merged[field] = remote[field];
+      remoteChanges.push(field);
+    }
+  });
+
+  return { merged, conflicts, remoteChanges };
+}
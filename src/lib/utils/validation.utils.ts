@@ -35,6 +35,14 @@ export interface ValidationResult {
  */
 type TranslationFunction = (key: string) => string;
 
+/**
+ * Options for the forms that re-authenticate a security change
+ */
+interface ReauthenticationFormOptions {
+  /** Whether the current password is asked for; accounts that confirm with their social provider have none */
+  requireCurrentPassword?: boolean;
+}
+
 // ============================================================================
 // Regular Expressions
 // ============================================================================
@@ -194,6 +202,161 @@ export function validateLoginForm(
   };
 }
 
+/**
+ * Validates the forgot password form
+ * 
+ * @param formData - Form data to validate
+ * @param t - Translation function
+ * @returns Validation result with errors if any
+ */
+export function validateForgotPasswordForm(
+  formData: { email: string },
+  t: TranslationFunction
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const emailError = validators.email(formData.email, t);
+  if (emailError) {
+    errors.push({ field: 'email', message: emailError });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates the reset password form
+ * 
+ * @param formData - Form data to validate
+ * @param t - Translation function
+ * @returns Validation result with errors if any
+ * 
+ * @example
+ * const result = validateResetPasswordForm({ password, confirmPassword }, t);
+ */
+export function validateResetPasswordForm(
+  formData: { password: string; confirmPassword: string },
+  t: TranslationFunction
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const passwordError = validators.password(formData.password, t);
+  if (passwordError) {
+    errors.push({ field: 'password', message: passwordError });
+  }
+
+  if (formData.confirmPassword !== formData.password) {
+    errors.push({ field: 'confirmPassword', message: t('forms.validation.passwordsDoNotMatch') });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates the change password form
+ * 
+ * @param formData - Form data to validate
+ * @param t - Translation function
+ * @param options - Whether the current password is required (default true)
+ * @returns Validation result with errors if any
+ * 
+ * @example
+ * const result = validateChangePasswordForm({ currentPassword, newPassword, confirmPassword }, t);
+ */
+export function validateChangePasswordForm(
+  formData: { currentPassword: string; newPassword: string; confirmPassword: string },
+  t: TranslationFunction,
+  { requireCurrentPassword = true }: ReauthenticationFormOptions = {}
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const currentPasswordError = requireCurrentPassword
+    && validators.required(formData.currentPassword, 'forms.validation.currentPasswordRequired', t);
+  if (currentPasswordError) {
+    errors.push({ field: 'currentPassword', message: currentPasswordError });
+  }
+
+  const newPasswordError = validators.password(formData.newPassword, t);
+  if (newPasswordError) {
+    errors.push({ field: 'newPassword', message: newPasswordError });
+  } else if (formData.newPassword === formData.currentPassword) {
+    errors.push({ field: 'newPassword', message: t('forms.validation.newPasswordSameAsCurrent') });
+  }
+
+  if (formData.confirmPassword !== formData.newPassword) {
+    errors.push({ field: 'confirmPassword', message: t('forms.validation.passwordsDoNotMatch') });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates the change email form
+ * 
+ * @param formData - Form data to validate
+ * @param t - Translation function
+ * @param options - Whether the current password is required (default true)
+ * @returns Validation result with errors if any
+ */
+export function validateChangeEmailForm(
+  formData: { newEmail: string; currentPassword: string },
+  t: TranslationFunction,
+  { requireCurrentPassword = true }: ReauthenticationFormOptions = {}
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const emailError = validators.email(formData.newEmail, t);
+  if (emailError) {
+    errors.push({ field: 'newEmail', message: emailError });
+  }
+
+  const currentPasswordError = requireCurrentPassword
+    && validators.required(formData.currentPassword, 'forms.validation.currentPasswordRequired', t);
+  if (currentPasswordError) {
+    errors.push({ field: 'currentPassword', message: currentPasswordError });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Validates the account deletion confirmation
+ * 
+ * @param formData - Form data to validate
+ * @param t - Translation function
+ * @param options - Whether the current password is required (default true)
+ * @returns Validation result with errors if any
+ */
+export function validateDeleteAccountForm(
+  formData: { currentPassword: string },
+  t: TranslationFunction,
+  { requireCurrentPassword = true }: ReauthenticationFormOptions = {}
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const currentPasswordError = requireCurrentPassword
+    && validators.required(formData.currentPassword, 'forms.validation.currentPasswordRequired', t);
+  if (currentPasswordError) {
+    errors.push({ field: 'currentPassword', message: currentPasswordError });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
 /**
  * Validates signup form data
  * 
@@ -303,27 +466,84 @@ export function validateProfileCompletionForm(
   };
 }
 
+/**
+ * Validates resource edit form data
+ * 
+ * @param formData - Form data to validate
+ * @param t - Translation function
+ * @returns Validation result with errors if any
+ */
+export function validateResourceForm(
+  formData: {
+    name: string;
+    description: string;
+  },
+  t: TranslationFunction
+): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  const nameError =
+    validators.required(formData.name, 'forms.validation.fieldRequired', t) ||
+    validators.maxLength(formData.name, 255, t);
+  if (nameError) {
+    errors.push({ field: 'name', message: nameError });
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
 /**
  * Validates social profile form data
  * 
+ * The name fields are pre-filled from the provider's profile and are only
+ * validated when present.
+ * 
  * @param formData - Form data to validate
  * @param t - Translation function
  * @returns Validation result with errors if any
  */
 export function validateSocialProfileForm(
   formData: {
+    firstName?: string;
+    lastName?: string;
     projectDescription?: string;
+    projectUrl?: string;
     personalInfo?: string;
   },
   t: TranslationFunction
 ): ValidationResult {
   const errors: ValidationError[] = [];
 
+  // Name validation
+  if (formData.firstName !== undefined) {
+    const firstNameError = validators.required(formData.firstName, 'forms.validation.firstNameRequired', t);
+    if (firstNameError) {
+      errors.push({ field: 'firstName', message: firstNameError });
+    }
+  }
+  if (formData.lastName !== undefined) {
+    const lastNameError = validators.required(formData.lastName, 'forms.validation.lastNameRequired', t);
+    if (lastNameError) {
+      errors.push({ field: 'lastName', message: lastNameError });
+    }
+  }
+
   // Project description validation
   if (!formData.projectDescription || !formData.projectDescription.trim()) {
     errors.push({ field: 'projectDescription', message: t('forms.validation.fieldRequired') });
   }
 
+  // Project URL validation (optional but must be valid if provided)
+  if (formData.projectUrl) {
+    const urlError = validators.url(formData.projectUrl, t);
+    if (urlError) {
+      errors.push({ field: 'projectUrl', message: urlError });
+    }
+  }
+
   // Personal info validation
   if (!formData.personalInfo || !formData.personalInfo.trim()) {
     errors.push({ field: 'personalInfo', message: t('forms.validation.fieldRequired') });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { locales, defaultLocale } from '@/i18n';
+import { locales, defaultLocale, LOCALE_HEADER } from '@/i18n';
 import type { Locale } from '@/i18n';
+import { AUTH_TOKEN_COOKIE, PROFILE_COOKIE, SESSION_COOKIE, parseProfileCookie } from '@/lib/auth-cookie';
+import { checkRouteAccess, getAccessRedirect, splitLocale } from '@/lib/route-protection';
 
 // Validate if a string is a valid locale with type safety
 function isValidLocale(locale: string): locale is Locale {
@@ -25,6 +27,23 @@ function getLocale(request: NextRequest): Locale {
   return defaultLocale;
 }
 
+// Redirect away from protected pages the session cannot open (see ROUTE_RULES)
+function protectRoute(request: NextRequest): NextResponse | null {
+  const { pathname, search } = request.nextUrl;
+  const { locale, path } = splitLocale(pathname);
+  if (!locale) return null;
+
+  const profile = parseProfileCookie(request.cookies.get(PROFILE_COOKIE)?.value);
+  const access = checkRouteAccess(path, {
+    isAuthenticated: request.cookies.has(AUTH_TOKEN_COOKIE) || request.cookies.has(SESSION_COOKIE),
+    profile,
+  });
+  if (access === 'allow') return null;
+
+  const redirectPath = getAccessRedirect(access, locale, `${pathname}${search}`, profile);
+  return NextResponse.redirect(new URL(redirectPath, request.url));
+}
+
 export function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
 
@@ -57,8 +76,20 @@ export function middleware(request: NextRequest) {
     return response;
   }
 
+  const redirect = protectRoute(request);
+  if (redirect) {
+    redirect.headers.set('X-Content-Type-Options', 'nosniff');
+    redirect.headers.set('X-Frame-Options', 'DENY');
+    redirect.headers.set('X-XSS-Protection', '1; mode=block');
+    return redirect;
+  }
+
+  // Pass the route locale on to Server Components (used by the server API client)
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(LOCALE_HEADER, getLocale(request));
+
   // Add security headers to all responses
-  const response = NextResponse.next();
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
   response.headers.set('X-Content-Type-Options', 'nosniff');
   response.headers.set('X-Frame-Options', 'DENY');
   response.headers.set('X-XSS-Protection', '1; mode=block');